@@ -1,17 +1,39 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getFarcasterUser, verifyToadgodFollower } from '@/lib/farcaster';
+import { isHex } from 'viem';
+import { getFarcasterUser, verifyToadgodFollower, NeynarUnavailableError } from '@/lib/farcaster';
+import { verifySignInMessage } from '@/lib/auth';
+import { createSessionToken, setSessionCookie, clearSessionCookie, getSession } from '@/lib/session';
 
 export async function POST(request: NextRequest) {
   try {
-    const { fid } = await request.json();
+    const { message, signature, nonce } = await request.json();
 
-    if (!fid) {
+    if (!message || !signature || !nonce) {
       return NextResponse.json(
-        { error: 'FID is required' },
+        { error: 'message, signature and nonce are required' },
         { status: 400 }
       );
     }
 
+    if (typeof signature !== 'string' || !isHex(signature)) {
+      return NextResponse.json(
+        { error: 'signature must be a hex string' },
+        { status: 400 }
+      );
+    }
+
+    // Verify the signed SIWF message; the FID comes from the message, not the body
+    const signIn = await verifySignInMessage(message, signature, nonce);
+
+    if (!signIn.success) {
+      return NextResponse.json(
+        { error: signIn.error },
+        { status: 401 }
+      );
+    }
+
+    const { fid, address } = signIn;
+
     // Verify user follows @toadgod1017
     const isFollower = await verifyToadgodFollower(fid);
     
@@ -27,16 +49,28 @@ export async function POST(request: NextRequest) {
     
     if (!user) {
       return NextResponse.json(
-        { error: 'Failed to fetch Farcaster user data' },
-        { status: 500 }
+        { error: 'Farcaster user not found' },
+        { status: 404 }
       );
     }
 
-    return NextResponse.json({ 
+    const response = NextResponse.json({ 
       success: true,
       user 
     });
+
+    setSessionCookie(response, await createSessionToken(fid, address));
+
+    return response;
   } catch (error) {
+    if (error instanceof NeynarUnavailableError) {
+      console.error('Farcaster API unavailable during auth:', error.message);
+      return NextResponse.json(
+        { error: 'Farcaster is unavailable right now, please try again shortly' },
+        { status: 503 }
+      );
+    }
+
     console.error('Error in Farcaster auth:', error);
     return NextResponse.json(
       { error: 'Authentication failed' },
@@ -44,3 +78,24 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+/**
+ * Returns the current session, if any
+ */
+export async function GET() {
+  const session = await getSession();
+
+  return NextResponse.json({
+    authenticated: !!session,
+    fid: session?.fid ?? null,
+  });
+}
+
+/**
+ * Signs out by clearing the session cookie
+ */
+export async function DELETE() {
+  const response = NextResponse.json({ success: true });
+  clearSessionCookie(response);
+  return response;
+}
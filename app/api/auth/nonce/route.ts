@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { issueSignInNonce } from '@/lib/auth';
+
+// Every request must get a fresh nonce
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const nonce = await issueSignInNonce();
+    return NextResponse.json({ nonce });
+  } catch (error) {
+    console.error('Error issuing sign-in nonce:', error);
+    return NextResponse.json(
+      { error: 'Failed to issue sign-in nonce' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { getAuthenticatedFid } from '@/lib/auth';
+import { getServiceSupabase } from '@/lib/supabase';
+import type { BuyAllRun } from '@/lib/buy-all-runs';
+
+export const dynamic = 'force-dynamic';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_RUN_COINS = 500;
+
+interface BuyAllRunRow {
+  id: string;
+  wallet_address: string;
+  mode: BuyAllRun['mode'];
+  strategy: BuyAllRun['strategy'];
+  pay_token: BuyAllRun['payToken'];
+  coins: BuyAllRun['coins'];
+  created_at: string;
+  updated_at: string;
+}
+
+function toRun(row: BuyAllRunRow): BuyAllRun {
+  return {
+    id: row.id,
+    walletAddress: row.wallet_address,
+    mode: row.mode,
+    strategy: row.strategy,
+    payToken: row.pay_token,
+    coins: row.coins,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Gets the caller's latest unfinished Buy All run for a wallet
+ */
+export async function GET(request: NextRequest) {
+  const fid = await getAuthenticatedFid(request);
+  if (!fid) {
+    return NextResponse.json(
+      { error: 'Please sign in with Farcaster first' },
+      { status: 401 }
+    );
+  }
+
+  const wallet = request.nextUrl.searchParams.get('wallet');
+  if (!wallet || !isAddress(wallet)) {
+    return NextResponse.json(
+      { error: 'Invalid wallet address' },
+      { status: 400 }
+    );
+  }
+
+  const { data, error } = await getServiceSupabase()
+    .from('buy_all_runs')
+    .select('id, wallet_address, mode, strategy, pay_token, coins, created_at, updated_at')
+    .eq('fid', fid)
+    .eq('wallet_address', wallet.toLowerCase())
+    .order('updated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching Buy All run:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch Buy All run' },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ run: data ? toRun(data as BuyAllRunRow) : null });
+}
+
+/**
+ * Saves the caller's Buy All run progress
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const fid = await getAuthenticatedFid(request);
+    if (!fid) {
+      return NextResponse.json(
+        { error: 'Please sign in with Farcaster first' },
+        { status: 401 }
+      );
+    }
+
+    const run: BuyAllRun = await request.json();
+
+    if (!run.id || !UUID_PATTERN.test(run.id)) {
+      return NextResponse.json(
+        { error: 'Invalid run id' },
+        { status: 400 }
+      );
+    }
+
+    if (!run.walletAddress || !isAddress(run.walletAddress)) {
+      return NextResponse.json(
+        { error: 'Invalid wallet address' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(run.coins) || run.coins.length === 0 || run.coins.length > MAX_RUN_COINS) {
+      return NextResponse.json(
+        { error: 'Invalid run coins' },
+        { status: 400 }
+      );
+    }
+
+    const { error } = await getServiceSupabase()
+      .from('buy_all_runs')
+      .upsert({
+        id: run.id,
+        fid,
+        wallet_address: run.walletAddress.toLowerCase(),
+        mode: run.mode,
+        strategy: run.strategy,
+        pay_token: run.payToken,
+        coins: run.coins,
+        created_at: run.createdAt,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'fid,id' });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error saving Buy All run:', error);
+    return NextResponse.json(
+      { error: 'Failed to save Buy All run' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Removes one of the caller's Buy All runs (finished or dismissed)
+ */
+export async function DELETE(request: NextRequest) {
+  const fid = await getAuthenticatedFid(request);
+  if (!fid) {
+    return NextResponse.json(
+      { error: 'Please sign in with Farcaster first' },
+      { status: 401 }
+    );
+  }
+
+  const id = request.nextUrl.searchParams.get('id');
+  if (!id || !UUID_PATTERN.test(id)) {
+    return NextResponse.json(
+      { error: 'Invalid run id' },
+      { status: 400 }
+    );
+  }
+
+  const { error } = await getServiceSupabase()
+    .from('buy_all_runs')
+    .delete()
+    .eq('fid', fid)
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error deleting Buy All run:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete Buy All run' },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
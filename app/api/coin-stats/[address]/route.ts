@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { getCoinStats } from '@/lib/market-data';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Gets cached market data for a creator coin; the refresh cron keeps it current
+ * Coins the cron hasn't computed yet are a 404, never computed on request
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { address: string } }
+) {
+  if (!isAddress(params.address)) {
+    return NextResponse.json(
+      { error: 'Invalid coin address' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const stats = await getCoinStats(params.address);
+    if (!stats) {
+      return NextResponse.json(
+        { error: 'No market data for this coin yet' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ stats });
+  } catch (error) {
+    console.error('Error fetching coin stats:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch coin stats' },
+      { status: 500 }
+    );
+  }
+}
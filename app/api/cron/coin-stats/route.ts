@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAuthorizedCronRequest } from '@/lib/cron';
+import { refreshAllCoinStats } from '@/lib/market-data';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+/**
+ * Scheduled job: refreshes stale coin_stats rows for every coin in the directory
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await refreshAllCoinStats();
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error refreshing coin stats:', error);
+    return NextResponse.json(
+      { error: 'Failed to refresh coin stats' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAuthorizedCronRequest } from '@/lib/cron';
+import { sendDcaReminders } from '@/lib/dca';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+/**
+ * Scheduled job: sends a Farcaster notification for every DCA tranche that has come due
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await sendDcaReminders();
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error sending DCA reminders:', error);
+    return NextResponse.json(
+      { error: 'Failed to send DCA reminders' },
+      { status: 500 }
+    );
+  }
+}
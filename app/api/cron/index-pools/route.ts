@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAuthorizedCronRequest } from '@/lib/cron';
+import { indexPools } from '@/lib/pool-registry';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+/**
+ * Scheduled job: indexes new Uniswap V4 pools into coin_pools, continuing the backfill until caught up
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await indexPools();
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error indexing pools:', error);
+    return NextResponse.json(
+      { error: 'Failed to index pools' },
+      { status: 500 }
+    );
+  }
+}
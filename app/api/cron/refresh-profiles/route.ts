@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAuthorizedCronRequest } from '@/lib/cron';
+import { refreshProfiles } from '@/lib/profile-refresh';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+/**
+ * Scheduled job: refreshes PFPs/usernames from Farcaster and re-checks social link health
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await refreshProfiles();
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error refreshing profiles:', error);
+    return NextResponse.json(
+      { error: 'Failed to refresh profiles' },
+      { status: 500 }
+    );
+  }
+}
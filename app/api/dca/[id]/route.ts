@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedFid } from '@/lib/auth';
+import { deleteDcaPlan, setDcaPlanActive, DcaPlanNotFoundError } from '@/lib/dca';
+
+/**
+ * Pauses or resumes one of the caller's DCA plans
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const fid = await getAuthenticatedFid(request);
+    if (!fid) {
+      return NextResponse.json(
+        { error: 'Please sign in with Farcaster first' },
+        { status: 401 }
+      );
+    }
+
+    const { active } = await request.json();
+    if (typeof active !== 'boolean') {
+      return NextResponse.json(
+        { error: 'active must be true or false' },
+        { status: 400 }
+      );
+    }
+
+    await setDcaPlanActive(fid, params.id, active);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof DcaPlanNotFoundError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error('Error updating DCA plan:', error);
+    return NextResponse.json(
+      { error: 'Failed to update DCA plan' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Deletes one of the caller's DCA plans and its history
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const fid = await getAuthenticatedFid(request);
+  if (!fid) {
+    return NextResponse.json(
+      { error: 'Please sign in with Farcaster first' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    await deleteDcaPlan(fid, params.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting DCA plan:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete DCA plan' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress, isHash } from 'viem';
+import { getAuthenticatedFid } from '@/lib/auth';
+import { recordDcaTranche, DcaPlanNotFoundError, DcaTrancheError } from '@/lib/dca';
+import type { DcaTrancheFill } from '@/lib/dca-schedule';
+
+export const maxDuration = 60;
+
+/**
+ * Records the purchases a DCA tranche made and schedules the next one
+ * Only a due tranche with at least one purchase found in its receipts moves the plan on
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const fid = await getAuthenticatedFid(request);
+    if (!fid) {
+      return NextResponse.json(
+        { error: 'Please sign in with Farcaster first' },
+        { status: 401 }
+      );
+    }
+
+    const { fills }: { fills: DcaTrancheFill[] } = await request.json();
+
+    if (!Array.isArray(fills)) {
+      return NextResponse.json(
+        { error: 'fills must be an array' },
+        { status: 400 }
+      );
+    }
+
+    for (const fill of fills) {
+      if (!isHash(fill.txHash) || !isAddress(fill.coinAddress)) {
+        return NextResponse.json(
+          { error: 'Invalid fill' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const plan = await recordDcaTranche(fid, params.id, fills);
+    return NextResponse.json({ plan });
+  } catch (error) {
+    if (error instanceof DcaPlanNotFoundError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof DcaTrancheError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error recording DCA tranche:', error);
+    return NextResponse.json(
+      { error: 'Failed to record DCA tranche' },
+      { status: 500 }
+    );
+  }
+}
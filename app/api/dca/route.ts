@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { getAuthenticatedFid } from '@/lib/auth';
+import { createDcaPlan, getDcaPlans } from '@/lib/dca';
+import { DCA_BASKET_STRATEGIES, DCA_CADENCES, DcaPlanInput } from '@/lib/dca-schedule';
+import { isNativeEth, isValidTokenAddress } from '@/lib/swap-constants';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Lists the caller's DCA plans with fills and average entry prices
+ */
+export async function GET(request: NextRequest) {
+  const fid = await getAuthenticatedFid(request);
+  if (!fid) {
+    return NextResponse.json(
+      { error: 'Please sign in with Farcaster first' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const plans = await getDcaPlans(fid);
+    return NextResponse.json({ plans });
+  } catch (error) {
+    console.error('Error fetching DCA plans:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch DCA plans' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Creates a DCA plan for the caller
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const fid = await getAuthenticatedFid(request);
+    if (!fid) {
+      return NextResponse.json(
+        { error: 'Please sign in with Farcaster first' },
+        { status: 401 }
+      );
+    }
+
+    const input: DcaPlanInput = await request.json();
+
+    if (!input.walletAddress || !isAddress(input.walletAddress)) {
+      return NextResponse.json(
+        { error: 'Invalid wallet address' },
+        { status: 400 }
+      );
+    }
+
+    if (input.target !== 'coin' && input.target !== 'basket') {
+      return NextResponse.json(
+        { error: 'Target must be a coin or the Buy All basket' },
+        { status: 400 }
+      );
+    }
+
+    if (input.target === 'coin' && (!input.coinAddress || !isAddress(input.coinAddress))) {
+      return NextResponse.json(
+        { error: 'Invalid coin address' },
+        { status: 400 }
+      );
+    }
+
+    if (input.target === 'basket' && !DCA_BASKET_STRATEGIES.includes(input.strategy)) {
+      return NextResponse.json(
+        { error: 'Unsupported allocation strategy' },
+        { status: 400 }
+      );
+    }
+
+    const payToken = input.payToken;
+    if (
+      !payToken ||
+      (!isNativeEth(payToken.address) && !isValidTokenAddress(payToken.address)) ||
+      !Number.isInteger(payToken.decimals)
+    ) {
+      return NextResponse.json(
+        { error: 'Invalid pay token' },
+        { status: 400 }
+      );
+    }
+
+    if (!/^\d+$/.test(input.amountPerTranche || '') || BigInt(input.amountPerTranche) === 0n) {
+      return NextResponse.json(
+        { error: 'Amount per tranche must be greater than 0' },
+        { status: 400 }
+      );
+    }
+
+    if (!DCA_CADENCES.some((cadence) => cadence.value === input.cadence)) {
+      return NextResponse.json(
+        { error: 'Invalid cadence' },
+        { status: 400 }
+      );
+    }
+
+    const plan = await createDcaPlan(fid, {
+      walletAddress: input.walletAddress,
+      target: input.target,
+      coinAddress: input.coinAddress,
+      strategy: input.target === 'basket' ? input.strategy : 'equal',
+      payToken: { address: payToken.address, symbol: payToken.symbol, decimals: payToken.decimals },
+      amountPerTranche: input.amountPerTranche,
+      cadence: input.cadence,
+    });
+
+    return NextResponse.json({ plan });
+  } catch (error) {
+    console.error('Error creating DCA plan:', error);
+    return NextResponse.json(
+      { error: 'Failed to create DCA plan' },
+      { status: 500 }
+    );
+  }
+}
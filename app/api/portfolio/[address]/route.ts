@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { getCallerAddresses } from '@/lib/auth';
+import { NeynarUnavailableError } from '@/lib/farcaster';
+import { getPortfolio } from '@/lib/portfolio';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Gets a wallet's holdings across all directory coins with value, cost basis and P&L
+ * Only for a wallet verified on the signed-in FID, since cost basis comes from its recorded trades
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { address: string } }
+) {
+  if (!isAddress(params.address)) {
+    return NextResponse.json(
+      { error: 'Invalid wallet address' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const caller = await getCallerAddresses(request, params.address);
+    if ('response' in caller) {
+      return caller.response;
+    }
+
+    const portfolio = await getPortfolio(params.address);
+    return NextResponse.json(portfolio);
+  } catch (error) {
+    if (error instanceof NeynarUnavailableError) {
+      return NextResponse.json(
+        { error: 'Farcaster is unavailable right now, please try again shortly' },
+        { status: 503 }
+      );
+    }
+
+    console.error('Error fetching portfolio:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch portfolio' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Address } from 'viem';
+import { ProfileFormData } from '@/types/profile';
+import { getAuthenticatedFid } from '@/lib/auth';
+import { getFarcasterUser, NeynarUnavailableError } from '@/lib/farcaster';
+import { getServiceSupabase } from '@/lib/supabase';
+import { fetchTokenSymbol } from '@/lib/token-helpers';
+import {
+  validateERC20Contract,
+  validateXHandle,
+  validateTelegramHandle,
+  normalizeTelegramHandle,
+  validateZoraUrl,
+} from '@/lib/validation';
+
+const PLACEHOLDER_PFP_URL = 'https://i.imgur.com/placeholder.png';
+
+/**
+ * Creates or updates the caller's profile
+ * The FID comes from the SIWF session or a verified Quick Auth token, never from the request body
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const fid = await getAuthenticatedFid(request);
+
+    if (!fid) {
+      return NextResponse.json(
+        { error: 'Please sign in with Farcaster first' },
+        { status: 401 }
+      );
+    }
+
+    const formData: ProfileFormData = await request.json();
+
+    if (!formData.creator_coin_address) {
+      return NextResponse.json(
+        { error: 'Creator coin address is required' },
+        { status: 400 }
+      );
+    }
+
+    // Validate social handles
+    if (formData.x_handle && !validateXHandle(formData.x_handle)) {
+      return NextResponse.json(
+        { error: 'Invalid X handle format' },
+        { status: 400 }
+      );
+    }
+
+    if (formData.telegram_handle && !validateTelegramHandle(formData.telegram_handle)) {
+      return NextResponse.json(
+        { error: 'Invalid Telegram handle format' },
+        { status: 400 }
+      );
+    }
+
+    if (formData.zora_page_url && !validateZoraUrl(formData.zora_page_url)) {
+      return NextResponse.json(
+        { error: 'Invalid Zora URL format' },
+        { status: 400 }
+      );
+    }
+
+    // Validate creator coin is an ERC-20 on Base
+    const validationResult = await validateERC20Contract(formData.creator_coin_address);
+
+    if (!validationResult.valid) {
+      return NextResponse.json(
+        { error: validationResult.error || 'Invalid ERC-20 contract address' },
+        { status: 400 }
+      );
+    }
+
+    // Username, display name and PFP come from Farcaster, not the client
+    const user = await getFarcasterUser(fid);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Farcaster user not found' },
+        { status: 404 }
+      );
+    }
+
+    // Fetch token ticker/symbol from the contract
+    let tokenTicker: string | null = validationResult.symbol || null;
+    try {
+      tokenTicker = (await fetchTokenSymbol(formData.creator_coin_address as Address)) || tokenTicker;
+    } catch (error) {
+      console.error('Error fetching token symbol:', error);
+      // Continue with the symbol read during validation
+    }
+
+    const profileData = {
+      fid,
+      username: user.username,
+      display_name: user.display_name || null,
+      pfp_url: user.pfp_url || PLACEHOLDER_PFP_URL,
+      pfp_cached_at: new Date().toISOString(),
+      creator_coin_address: formData.creator_coin_address,
+      chain_id: validationResult.chainId || 8453,
+      bio: formData.bio || null,
+      x_handle: formData.x_handle ? formData.x_handle.replace(/^@/, '') : null,
+      telegram_handle: formData.telegram_handle
+        ? normalizeTelegramHandle(formData.telegram_handle)
+        : null,
+      zora_page_url: formData.zora_page_url || null,
+      token_ticker: tokenTicker,
+      // Links may have changed; the refresh job re-checks them on its next run
+      x_handle_valid: true,
+      telegram_handle_valid: true,
+      zora_page_valid: true,
+      links_checked_at: null,
+    };
+
+    const { data: profile, error: dbError } = await getServiceSupabase()
+      .from('profiles')
+      .upsert(profileData, { onConflict: 'fid' })
+      .select()
+      .single();
+
+    if (dbError) {
+      console.error('Error saving profile:', dbError);
+      return NextResponse.json(
+        { error: 'Failed to save profile' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      profile,
+    });
+  } catch (error) {
+    if (error instanceof NeynarUnavailableError) {
+      console.error('Farcaster API unavailable during profile save:', error.message);
+      return NextResponse.json(
+        { error: 'Farcaster is unavailable right now, please try again shortly' },
+        { status: 503 }
+      );
+    }
+
+    console.error('Error in profile save:', error);
+    return NextResponse.json(
+      { error: 'Failed to save profile' },
+      { status: 500 }
+    );
+  }
+}
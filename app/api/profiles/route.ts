@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  queryProfiles,
+  InvalidCursorError,
+  PROFILE_SORTS,
+  DEFAULT_PAGE_SIZE,
+  ProfileSort,
+} from '@/lib/profiles';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Lists directory profiles
+ * Query params: q (search), sort (newest | alphabetical | market_cap | volume | liquidity), cursor, limit
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const sort = (searchParams.get('sort') || 'newest') as ProfileSort;
+    const limit = Number(searchParams.get('limit') || DEFAULT_PAGE_SIZE);
+
+    if (!PROFILE_SORTS.includes(sort)) {
+      return NextResponse.json(
+        { error: `Invalid sort: must be one of ${PROFILE_SORTS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(limit) || limit <= 0) {
+      return NextResponse.json(
+        { error: 'Invalid limit: must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    const page = await queryProfiles({
+      search: searchParams.get('q') || undefined,
+      sort,
+      cursor: searchParams.get('cursor'),
+      limit,
+    });
+
+    return NextResponse.json(page);
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return NextResponse.json(
+        { error: 'Invalid cursor' },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error listing profiles:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch profiles' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,13 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { SLIPPAGE_TIERS, isNativeEth, isValidTokenAddress } from '@/lib/swap-constants';
+import { fetchZoraQuote, getQuoteDetails } from '@/lib/quote-aggregator';
 
-const ZORA_API_BASE_URL = 'https://api-sdk.zora.engineering';
-const BASE_CHAIN_ID = 8453;
-const ZORA_QUOTE_SLIPPAGE = 0.05;
-
+/**
+ * Quotes a swap through the Zora API
+ * Plain quotes are Zora-only, since their callers (Buy All) execute through the Zora SDK; when
+ * Zora is unavailable they fail rather than return a V4 quote those callers couldn't execute.
+ * With `details: true`, quotes every enabled provider instead and returns `{ details }`: each
+ * provider's quote ranked by output net of gas, plus the mid-price, price impact, minimum output
+ * at `slippage` (a decimal, defaulting to the first auto tier), the coin's pool and the route.
+ */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { sellToken, buyToken, sellAmount, takerAddress } = body;
+    const { sellToken, buyToken, sellAmount, takerAddress, details, slippage = SLIPPAGE_TIERS[0] } = body;
 
     // Validate required parameters
     if (!sellToken || !buyToken || !sellAmount || !takerAddress) {
@@ -17,30 +23,47 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate sellAmount is a valid numeric string
-    if (isNaN(Number(sellAmount)) || Number(sellAmount) <= 0) {
+    // Tokens are ERC-20 addresses, or "eth" for native ETH
+    for (const token of [sellToken, buyToken]) {
+      if (!isNativeEth(token) && !isValidTokenAddress(token)) {
+        return NextResponse.json(
+          { error: `Invalid token: ${token}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Validate sellAmount is a positive integer string in base units
+    if (typeof sellAmount !== 'string' || !/^\d+$/.test(sellAmount) || BigInt(sellAmount) === 0n) {
+      return NextResponse.json(
+        { error: 'Invalid sellAmount: must be a positive integer in base units' },
+        { status: 400 }
+      );
+    }
+
+    if (details && (typeof slippage !== 'number' || slippage <= 0 || slippage >= 1)) {
       return NextResponse.json(
-        { error: 'Invalid sellAmount: must be a positive number' },
+        { error: 'Invalid slippage: must be a decimal between 0 and 1' },
         { status: 400 }
       );
     }
 
-    // Build request body matching Zora API schema
-    const requestBody = {
-      tokenIn: {
-        type: "erc20",
-        address: sellToken,
-      },
-      tokenOut: {
-        type: "erc20",
-        address: buyToken,
-      },
-      amountIn: sellAmount.toString(),
-      chainId: BASE_CHAIN_ID,
-      sender: takerAddress,
-      recipient: takerAddress,
-      slippage: ZORA_QUOTE_SLIPPAGE,
-    };
+    if (details) {
+      const quoteDetails = await getQuoteDetails({
+        sellToken,
+        buyToken,
+        sellAmount: BigInt(sellAmount),
+        takerAddress,
+        slippage,
+      });
+
+      console.log('[Quote API] Quote details:', {
+        provider: quoteDetails?.provider,
+        quotes: quoteDetails?.quotes.length ?? 0,
+      });
+
+      return NextResponse.json({ details: quoteDetails });
+    }
 
     // Server-side: ZORA_API_KEY is available here
     const apiKey = process.env.ZORA_API_KEY;
@@ -53,11 +76,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json',
-      'api-key': apiKey,
-    };
-
     console.log('[Quote API] Fetching quote from Zora:', {
       sellToken,
       buyToken,
@@ -65,11 +83,7 @@ export async function POST(request: NextRequest) {
       hasApiKey: !!apiKey,
     });
 
-    const response = await fetch(`${ZORA_API_BASE_URL}/quote`, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(requestBody),
-    });
+    const response = await fetchZoraQuote(sellToken, buyToken, sellAmount.toString(), takerAddress, apiKey);
 
     console.log('[Quote API] Zora response status:', response.status);
 
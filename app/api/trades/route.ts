@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress, isHash } from 'viem';
+import { getCallerAddresses } from '@/lib/auth';
+import { NeynarUnavailableError } from '@/lib/farcaster';
+import { getTradeHistory, recordTrades, TradeNotFoundError } from '@/lib/trades';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Gets a wallet's trade history, newest first
+ * Only for a wallet verified on the signed-in FID
+ */
+export async function GET(request: NextRequest) {
+  const wallet = request.nextUrl.searchParams.get('wallet');
+  if (!wallet || !isAddress(wallet)) {
+    return NextResponse.json(
+      { error: 'Invalid wallet address' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const caller = await getCallerAddresses(request, wallet);
+    if ('response' in caller) {
+      return caller.response;
+    }
+
+    const trades = await getTradeHistory(wallet);
+    return NextResponse.json({ trades });
+  } catch (error) {
+    if (error instanceof NeynarUnavailableError) {
+      return NextResponse.json(
+        { error: 'Farcaster is unavailable right now, please try again shortly' },
+        { status: 503 }
+      );
+    }
+
+    console.error('Error fetching trade history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch trade history' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Records the creator coin trades made by a confirmed transaction
+ * Amounts are decoded from the wallet's own transfers in the on-chain receipt, so only real
+ * transfers can be recorded. The wallet must be verified on the signed-in FID; the transaction's
+ * sender may be anyone, e.g. the bundler of a smart wallet transaction.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { txHash, walletAddress, slippage } = await request.json();
+
+    if (!txHash || !isHash(txHash)) {
+      return NextResponse.json(
+        { error: 'Invalid transaction hash' },
+        { status: 400 }
+      );
+    }
+
+    if (!walletAddress || !isAddress(walletAddress)) {
+      return NextResponse.json(
+        { error: 'Invalid wallet address' },
+        { status: 400 }
+      );
+    }
+
+    if (slippage !== undefined && (typeof slippage !== 'number' || slippage < 0 || slippage > 1)) {
+      return NextResponse.json(
+        { error: 'Slippage must be a decimal between 0 and 1' },
+        { status: 400 }
+      );
+    }
+
+    const caller = await getCallerAddresses(request, walletAddress);
+    if ('response' in caller) {
+      return caller.response;
+    }
+
+    const trades = await recordTrades(txHash, walletAddress, slippage);
+
+    return NextResponse.json({ success: true, trades });
+  } catch (error) {
+    if (error instanceof NeynarUnavailableError) {
+      return NextResponse.json(
+        { error: 'Farcaster is unavailable right now, please try again shortly' },
+        { status: 503 }
+      );
+    }
+
+    if (error instanceof TradeNotFoundError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 422 }
+      );
+    }
+
+    console.error('Error recording trade:', error);
+    return NextResponse.json(
+      { error: 'Failed to record trade' },
+      { status: 500 }
+    );
+  }
+}
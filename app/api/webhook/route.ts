@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseWebhookEvent, verifyAppKeyWithNeynar, ParseWebhookEvent } from '@farcaster/frame-node';
+import {
+  deleteNotificationDetails,
+  isAllowedNotificationUrl,
+  saveNotificationDetails,
+} from '@/lib/notifications';
+
+/**
+ * Receives a Farcaster client's mini app events (the manifest's webhookUrl)
+ * Each event is signed with the user's app key, which is checked against their FID on a hub, so
+ * notification tokens are only ever stored for the user a client issued them to.
+ */
+export async function POST(request: NextRequest) {
+  let fid: number;
+  let appFid: number;
+  let event: Awaited<ReturnType<typeof parseWebhookEvent>>['event'];
+
+  try {
+    ({ fid, appFid, event } = await parseWebhookEvent(await request.json(), verifyAppKeyWithNeynar));
+  } catch (e) {
+    const error = e as ParseWebhookEvent.ErrorType;
+
+    switch (error.name) {
+      case 'VerifyJsonFarcasterSignature.InvalidDataError':
+      case 'VerifyJsonFarcasterSignature.InvalidEventDataError':
+        return NextResponse.json(
+          { error: 'Invalid webhook event' },
+          { status: 400 }
+        );
+      case 'VerifyJsonFarcasterSignature.InvalidAppKeyError':
+        return NextResponse.json(
+          { error: 'Invalid app key' },
+          { status: 401 }
+        );
+      default:
+        console.error('[Webhook] Error verifying event:', error);
+        return NextResponse.json(
+          { error: 'Failed to verify webhook event' },
+          { status: 500 }
+        );
+    }
+  }
+
+  try {
+    switch (event.event) {
+      case 'frame_added':
+      case 'notifications_enabled':
+        if (!event.notificationDetails) break;
+        if (!isAllowedNotificationUrl(event.notificationDetails.url)) {
+          console.error(`[Webhook] Ignoring unknown notification URL for FID ${fid}:`, event.notificationDetails.url);
+          break;
+        }
+        await saveNotificationDetails(fid, appFid, event.notificationDetails);
+        break;
+      case 'frame_removed':
+      case 'notifications_disabled':
+        await deleteNotificationDetails(fid, appFid);
+        break;
+    }
+
+    console.log(`[Webhook] ${event.event} for FID ${fid} from client ${appFid}`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error handling webhook event:', error);
+    return NextResponse.json(
+      { error: 'Failed to handle webhook event' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,523 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAccount, useConnect, useWalletClient, usePublicClient } from 'wagmi';
+import { parseUnits, formatUnits } from 'viem';
+import { base } from 'wagmi/chains';
+import { Profile } from '@/types/profile';
+import { frameConnector } from '@/lib/wagmi';
+import { useFarcasterContext } from '@/lib/useFarcasterContext';
+import { ensureFarcasterSession } from '@/lib/farcaster-sign-in';
+import { enableNotifications } from '@/lib/notifications-client';
+import { fetchAllProfiles } from '@/lib/profiles-client';
+import {
+  BASE_PAY_TOKENS,
+  USDC_PAY_TOKEN,
+  DEFAULT_SLIPPAGE_MODE,
+  DEFAULT_CUSTOM_SLIPPAGE,
+  PayToken,
+} from '@/lib/swap-constants';
+import { ALLOCATION_STRATEGIES, AllocationStrategy } from '@/lib/buy-all-allocation';
+import {
+  DCA_CADENCES,
+  DCA_BASKET_STRATEGIES,
+  DcaCadence,
+  DcaPlanWithHistory,
+  DcaTarget,
+  isTrancheDue,
+  systemClock,
+} from '@/lib/dca-schedule';
+import { fetchDcaPlans, createDcaPlan, setDcaPlanActive, deleteDcaPlan } from '@/lib/dca-client';
+import { executeDcaTranche } from '@/lib/dca-helpers';
+import { Header } from '@/components/ui/Header';
+import { Loading } from '@/components/ui/Loading';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { PayTokenSelector } from '@/components/ui/PayTokenSelector';
+
+const selectStyle: React.CSSProperties = {
+  width: '100%',
+  padding: 'var(--spacing-sm) var(--spacing-md)',
+  fontSize: 'var(--text-base)',
+  color: 'var(--deep-blue)',
+  border: '2px solid var(--toby-blue)',
+  borderRadius: 'var(--radius-md)',
+  background: 'var(--white)',
+  outline: 'none',
+};
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  fontSize: 'var(--text-sm)',
+  fontWeight: 'var(--font-semibold)',
+  color: 'var(--deep-blue)',
+  marginBottom: 'var(--spacing-sm)',
+};
+
+function formatPayAmount(baseUnits: string, token: PayToken): string {
+  const amount = Number(formatUnits(BigInt(baseUnits), token.decimals));
+  return `${new Intl.NumberFormat('en-US', { maximumFractionDigits: 6 }).format(amount)} ${token.symbol}`;
+}
+
+function formatCoinAmount(baseUnits: string): string {
+  const amount = Number(formatUnits(BigInt(baseUnits), 18));
+  return new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 2 }).format(amount);
+}
+
+export default function DcaPage() {
+  const { address, isConnected, chain } = useAccount();
+  const { connect } = useConnect();
+  const { data: walletClient } = useWalletClient();
+  const publicClient = usePublicClient();
+  const farcasterContext = useFarcasterContext();
+
+  const [plans, setPlans] = useState<DcaPlanWithHistory[] | null>(null);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [needsSignIn, setNeedsSignIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [highlightedPlan, setHighlightedPlan] = useState<string | null>(null);
+
+  // New plan form
+  const [target, setTarget] = useState<DcaTarget>('basket');
+  const [coinAddress, setCoinAddress] = useState<string>('');
+  const [strategy, setStrategy] = useState<AllocationStrategy>('equal');
+  const [payToken, setPayToken] = useState<PayToken>(USDC_PAY_TOKEN);
+  const [amount, setAmount] = useState<string>('10');
+  const [cadence, setCadence] = useState<DcaCadence>('weekly');
+  const [creating, setCreating] = useState(false);
+
+  // Tranche in progress
+  const [buyingPlan, setBuyingPlan] = useState<string | null>(null);
+  const [progress, setProgress] = useState<string>('');
+
+  const coinsByAddress = useMemo(
+    () => new Map(profiles.map((profile) => [profile.creator_coin_address.toLowerCase(), profile])),
+    [profiles]
+  );
+
+  const fetchPlans = useCallback(async () => {
+    setLoading(true);
+    try {
+      const fetchedPlans = await fetchDcaPlans();
+      setPlans(fetchedPlans);
+      setNeedsSignIn(fetchedPlans === null);
+    } catch (err) {
+      console.error('Error fetching DCA plans:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch DCA plans');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPlans();
+    fetchAllProfiles()
+      .then(setProfiles)
+      .catch((err) => console.error('Error fetching profiles:', err));
+
+    // Reminder notifications open /dca?plan=<id>
+    setHighlightedPlan(new URLSearchParams(window.location.search).get('plan'));
+  }, [fetchPlans]);
+
+  const handleSignIn = async () => {
+    if (!farcasterContext.fid) {
+      setError('Open KnownToads in a Farcaster client to sign in');
+      return;
+    }
+
+    try {
+      await ensureFarcasterSession(farcasterContext.fid);
+      await fetchPlans();
+    } catch (err) {
+      console.error('Error signing in:', err);
+      setError(err instanceof Error ? err.message : 'Failed to sign in');
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!address) return;
+
+    if (target === 'coin' && !coinAddress) {
+      setError('Pick a toad to DCA into');
+      return;
+    }
+
+    let amountPerTranche: bigint;
+    try {
+      amountPerTranche = parseUnits(amount, payToken.decimals);
+    } catch {
+      setError('Enter a valid amount');
+      return;
+    }
+
+    if (amountPerTranche <= 0n) {
+      setError('Enter a valid amount');
+      return;
+    }
+
+    setCreating(true);
+    setError(null);
+    try {
+      const notificationsEnabled = await enableNotifications();
+      if (!notificationsEnabled) {
+        console.log('[DCA] Notifications not enabled; reminders will only show in the app');
+      }
+
+      await createDcaPlan({
+        walletAddress: address,
+        target,
+        coinAddress: target === 'coin' ? coinAddress : undefined,
+        strategy,
+        payToken,
+        amountPerTranche: amountPerTranche.toString(),
+        cadence,
+      });
+      await fetchPlans();
+    } catch (err) {
+      console.error('Error creating DCA plan:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create DCA plan');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleBuyTranche = async (plan: DcaPlanWithHistory) => {
+    if (chain?.id !== base.id) {
+      setError('Please switch to Base network');
+      return;
+    }
+
+    if (!walletClient || !walletClient.account || !publicClient) {
+      setError('Wallet not properly connected');
+      return;
+    }
+
+    if (plan.wallet_address !== walletClient.account.address.toLowerCase()) {
+      setError('Switch to the wallet this plan was created with');
+      return;
+    }
+
+    setBuyingPlan(plan.id);
+    setError(null);
+    try {
+      const result = await executeDcaTranche(
+        plan,
+        profiles,
+        walletClient,
+        walletClient.account,
+        publicClient,
+        DEFAULT_SLIPPAGE_MODE,
+        DEFAULT_CUSTOM_SLIPPAGE,
+        (completed, total, current) => {
+          const coin = coinsByAddress.get(current.toLowerCase());
+          setProgress(`${completed} of ${total}${current ? ` · ${coin ? `@${coin.username}` : current}` : ''}`);
+        }
+      );
+
+      if (!result.plan) {
+        setError(result.failed[0]?.error || 'Nothing was bought');
+      } else if (result.failed.length > 0) {
+        setError(`${result.failed.length} coin(s) failed; the rest were bought`);
+      }
+      await fetchPlans();
+    } catch (err) {
+      console.error('Error buying DCA tranche:', err);
+      setError(err instanceof Error ? err.message : 'Failed to buy tranche');
+    } finally {
+      setBuyingPlan(null);
+      setProgress('');
+    }
+  };
+
+  const handleToggleActive = async (plan: DcaPlanWithHistory) => {
+    try {
+      await setDcaPlanActive(plan.id, !plan.active);
+      await fetchPlans();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update plan');
+    }
+  };
+
+  const handleDelete = async (plan: DcaPlanWithHistory) => {
+    if (!window.confirm('Delete this plan and its history?')) return;
+    try {
+      await deleteDcaPlan(plan.id);
+      await fetchPlans();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete plan');
+    }
+  };
+
+  const describePlan = (plan: DcaPlanWithHistory): string => {
+    const cadenceLabel = DCA_CADENCES.find((option) => option.value === plan.cadence)?.label || plan.cadence;
+    const amountLabel = formatPayAmount(plan.amount_per_tranche, plan.pay_token);
+
+    if (plan.target === 'coin' && plan.coin_address) {
+      const coin = coinsByAddress.get(plan.coin_address);
+      return `${cadenceLabel}: ${amountLabel} of ${coin ? `$${coin.token_ticker || coin.username}` : plan.coin_address}`;
+    }
+
+    const strategyLabel = ALLOCATION_STRATEGIES.find((option) => option.value === plan.strategy)?.label;
+    return `${cadenceLabel}: ${amountLabel} across the gang (${strategyLabel})`;
+  };
+
+  if (!isConnected) {
+    return (
+      <div style={{ minHeight: '100vh' }}>
+        <Header />
+        <div style={{ maxWidth: '900px', margin: '0 auto', padding: 'var(--spacing-xl)' }}>
+          <div className="toad-card" style={{ padding: 'var(--spacing-2xl)', textAlign: 'center' }}>
+            <h1 style={{
+              fontSize: 'var(--text-3xl)',
+              fontWeight: 'var(--font-bold)',
+              color: 'var(--deep-blue)',
+              marginBottom: 'var(--spacing-md)',
+            }}>
+              Connect your wallet
+            </h1>
+            <p style={{
+              color: 'var(--text-secondary)',
+              marginBottom: 'var(--spacing-xl)',
+            }}>
+              Connect to set up recurring toad coin buys.
+            </p>
+            <Button onClick={() => connect({ connector: frameConnector() })}>
+              Connect Wallet
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const now = systemClock.now();
+
+  return (
+    <div style={{ minHeight: '100vh' }}>
+      <Header />
+      <div style={{ maxWidth: '600px', margin: '0 auto', padding: 'var(--spacing-md) var(--spacing-sm)' }}>
+        <h1 style={{
+          fontSize: 'var(--text-3xl)',
+          fontWeight: 'var(--font-bold)',
+          color: 'var(--deep-blue)',
+          textAlign: 'center',
+          marginBottom: 'var(--spacing-md)',
+        }}>
+          DCA
+        </h1>
+
+        {error && (
+          <p style={{ color: '#dc2626', textAlign: 'center', marginBottom: 'var(--spacing-md)' }}>{error}</p>
+        )}
+
+        {loading && !plans && <Loading />}
+
+        {needsSignIn && !loading && (
+          <div className="toad-card" style={{ textAlign: 'center', marginBottom: 'var(--spacing-lg)' }}>
+            <p style={{ color: 'var(--text-secondary)', marginBottom: 'var(--spacing-md)' }}>
+              Sign in with Farcaster to create plans and get reminders when a buy is due.
+            </p>
+            <Button onClick={handleSignIn}>Sign In</Button>
+          </div>
+        )}
+
+        {plans && (
+          <>
+            {/* New Plan */}
+            <div className="toad-card" style={{ marginBottom: 'var(--spacing-lg)' }}>
+              <h2 style={{
+                fontSize: 'var(--text-xl)',
+                fontWeight: 'var(--font-semibold)',
+                color: 'var(--deep-blue)',
+                marginBottom: 'var(--spacing-md)',
+              }}>
+                New Plan
+              </h2>
+
+              <div style={{ marginBottom: 'var(--spacing-lg)' }}>
+                <label style={labelStyle}>Buy</label>
+                <select
+                  value={target}
+                  onChange={(e) => setTarget(e.target.value as DcaTarget)}
+                  style={selectStyle}
+                >
+                  <option value="basket">The whole gang (Buy All)</option>
+                  <option value="coin">One toad</option>
+                </select>
+              </div>
+
+              {target === 'coin' ? (
+                <div style={{ marginBottom: 'var(--spacing-lg)' }}>
+                  <label style={labelStyle}>Toad</label>
+                  <select value={coinAddress} onChange={(e) => setCoinAddress(e.target.value)} style={selectStyle}>
+                    <option value="">Pick a toad</option>
+                    {profiles.map((profile) => (
+                      <option key={profile.fid} value={profile.creator_coin_address}>
+                        @{profile.username}{profile.token_ticker ? ` ($${profile.token_ticker})` : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ) : (
+                <div style={{ marginBottom: 'var(--spacing-lg)' }}>
+                  <label style={labelStyle}>Split</label>
+                  <select
+                    value={strategy}
+                    onChange={(e) => setStrategy(e.target.value as AllocationStrategy)}
+                    style={selectStyle}
+                  >
+                    {ALLOCATION_STRATEGIES.filter((option) => DCA_BASKET_STRATEGIES.includes(option.value)).map(
+                      (option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label} - {option.description}
+                        </option>
+                      )
+                    )}
+                  </select>
+                </div>
+              )}
+
+              <PayTokenSelector
+                tokens={[...BASE_PAY_TOKENS]}
+                value={payToken}
+                onChange={setPayToken}
+              />
+
+              <div style={{ marginBottom: 'var(--spacing-lg)' }}>
+                <Input
+                  label={`Amount per buy (${payToken.symbol})`}
+                  type="text"
+                  inputMode="decimal"
+                  value={amount}
+                  onChange={(e) => {
+                    if (/^\d*\.?\d*$/.test(e.target.value)) setAmount(e.target.value);
+                  }}
+                />
+              </div>
+
+              <div style={{ marginBottom: 'var(--spacing-lg)' }}>
+                <label style={labelStyle}>Every</label>
+                <select
+                  value={cadence}
+                  onChange={(e) => setCadence(e.target.value as DcaCadence)}
+                  style={selectStyle}
+                >
+                  {DCA_CADENCES.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <Button onClick={handleCreate} disabled={creating} style={{ width: '100%' }}>
+                {creating ? 'Creating...' : 'Create Plan'}
+              </Button>
+              <p style={{
+                fontSize: 'var(--text-xs)',
+                color: 'var(--text-secondary)',
+                textAlign: 'center',
+                marginTop: 'var(--spacing-sm)',
+              }}>
+                Nothing is bought automatically. You&apos;ll get a Farcaster notification when each buy is due.
+              </p>
+            </div>
+
+            {plans.length === 0 && <EmptyState message="No DCA plans yet!" />}
+
+            {/* Plans */}
+            <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-md)' }}>
+              {plans.map((plan) => {
+                const due = isTrancheDue(plan, now);
+                const isBuying = buyingPlan === plan.id;
+
+                return (
+                  <div
+                    key={plan.id}
+                    className="toad-card toad-card-compact"
+                    style={highlightedPlan === plan.id ? { border: '2px solid var(--toby-blue)' } : undefined}
+                  >
+                    <div style={{ fontWeight: 'var(--font-semibold)', marginBottom: 'var(--spacing-xs)' }}>
+                      {describePlan(plan)}
+                    </div>
+                    <div style={{ fontSize: 'var(--text-xs)', color: 'var(--text-secondary)' }}>
+                      {!plan.active
+                        ? 'Paused'
+                        : due
+                          ? 'Due now'
+                          : `Next buy ${new Date(plan.next_due_at).toLocaleString()}`}
+                      {' · '}
+                      {plan.fills.length} purchase{plan.fills.length !== 1 ? 's' : ''} so far
+                    </div>
+
+                    {/* Average entry per coin */}
+                    {plan.coins.length > 0 && (
+                      <div style={{ marginTop: 'var(--spacing-sm)', fontSize: 'var(--text-xs)' }}>
+                        {plan.coins.map((summary) => {
+                          const coin = coinsByAddress.get(summary.coinAddress);
+                          return (
+                            <div
+                              key={summary.coinAddress}
+                              style={{ display: 'flex', justifyContent: 'space-between', gap: 'var(--spacing-sm)' }}
+                            >
+                              <span>
+                                {coin ? `@${coin.username}` : summary.coinAddress.slice(0, 10)} ·{' '}
+                                {formatCoinAmount(summary.totalCoins)} for {formatPayAmount(summary.totalIn, plan.pay_token)}
+                              </span>
+                              <span style={{ color: 'var(--text-secondary)' }}>
+                                avg{' '}
+                                {summary.averageEntryPrice !== null
+                                  ? `${summary.averageEntryPrice.toPrecision(4)} ${plan.pay_token.symbol}`
+                                  : '—'}
+                              </span>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
+
+                    {isBuying && progress && (
+                      <div style={{ fontSize: 'var(--text-xs)', color: '#1e40af', marginTop: 'var(--spacing-sm)' }}>
+                        ⏳ Buying... {progress}
+                      </div>
+                    )}
+
+                    <div style={{ display: 'flex', gap: 'var(--spacing-xs)', marginTop: 'var(--spacing-sm)' }}>
+                      {plan.active && due && (
+                        <Button
+                          onClick={() => handleBuyTranche(plan)}
+                          disabled={buyingPlan !== null}
+                          style={{ fontSize: 'var(--text-xs)', padding: '0.15rem var(--spacing-sm)' }}
+                        >
+                          {isBuying ? 'Buying...' : 'Buy Now'}
+                        </Button>
+                      )}
+                      <Button
+                        variant="secondary"
+                        onClick={() => handleToggleActive(plan)}
+                        disabled={isBuying}
+                        style={{ fontSize: 'var(--text-xs)', padding: '0.15rem var(--spacing-sm)' }}
+                      >
+                        {plan.active ? 'Pause' : 'Resume'}
+                      </Button>
+                      <Button
+                        variant="secondary"
+                        onClick={() => handleDelete(plan)}
+                        disabled={isBuying}
+                        style={{ fontSize: 'var(--text-xs)', padding: '0.15rem var(--spacing-sm)' }}
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
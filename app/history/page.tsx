@@ -0,0 +1,220 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useAccount, useConnect } from 'wagmi';
+import { formatUnits } from 'viem';
+import { frameConnector } from '@/lib/wagmi';
+import type { TradeHistoryEntry } from '@/lib/trades';
+import { fetchTradeHistory } from '@/lib/trades-client';
+import { ensureFarcasterSession } from '@/lib/farcaster-sign-in';
+import { useFarcasterContext } from '@/lib/useFarcasterContext';
+import { BASE_PAY_TOKENS, USDC_PAY_TOKEN, isSameToken } from '@/lib/swap-constants';
+import { formatSlippage } from '@/lib/zora-trade-helpers';
+import { Header } from '@/components/ui/Header';
+import { Loading } from '@/components/ui/Loading';
+import { Button } from '@/components/ui/Button';
+import { EmptyState } from '@/components/ui/EmptyState';
+
+const COIN_DECIMALS = 18; // Zora coins are standard 18-decimal ERC-20s
+
+function formatAmount(baseUnits: string, decimals: number): string {
+  const amount = Number(formatUnits(BigInt(baseUnits), decimals));
+  return new Intl.NumberFormat('en-US', {
+    notation: amount >= 10_000 ? 'compact' : 'standard',
+    maximumFractionDigits: amount >= 1 ? 2 : 6,
+  }).format(amount);
+}
+
+/**
+ * Symbol and decimals for a trade's pay token; creator coins paid with show by address
+ */
+function describePayToken(address: string): { symbol: string; decimals: number } {
+  const known = BASE_PAY_TOKENS.find((token) => isSameToken(token.address, address));
+  if (known) return { symbol: known.symbol, decimals: known.decimals };
+  return { symbol: `${address.slice(0, 6)}…${address.slice(-4)}`, decimals: COIN_DECIMALS };
+}
+
+export default function HistoryPage() {
+  const { address, isConnected } = useAccount();
+  const { connect } = useConnect();
+  const farcasterContext = useFarcasterContext();
+  const [trades, setTrades] = useState<TradeHistoryEntry[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [needsSignIn, setNeedsSignIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    if (!address) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const fetchedTrades = await fetchTradeHistory(address);
+      setTrades(fetchedTrades);
+      setNeedsSignIn(fetchedTrades === null);
+    } catch (err) {
+      console.error('Error fetching trade history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch trade history');
+    } finally {
+      setLoading(false);
+    }
+  }, [address]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const handleSignIn = async () => {
+    if (!farcasterContext.fid) {
+      setError('Open KnownToads in a Farcaster client to sign in');
+      return;
+    }
+
+    try {
+      await ensureFarcasterSession(farcasterContext.fid);
+      await fetchHistory();
+    } catch (err) {
+      console.error('Error signing in:', err);
+      setError(err instanceof Error ? err.message : 'Failed to sign in');
+    }
+  };
+
+  if (!isConnected) {
+    return (
+      <div style={{ minHeight: '100vh' }}>
+        <Header />
+        <div style={{ maxWidth: '900px', margin: '0 auto', padding: 'var(--spacing-xl)' }}>
+          <div className="toad-card" style={{ padding: 'var(--spacing-2xl)', textAlign: 'center' }}>
+            <h1 style={{
+              fontSize: 'var(--text-3xl)',
+              fontWeight: 'var(--font-bold)',
+              color: 'var(--deep-blue)',
+              marginBottom: 'var(--spacing-md)',
+            }}>
+              Connect your wallet
+            </h1>
+            <p style={{
+              color: 'var(--text-secondary)',
+              marginBottom: 'var(--spacing-xl)',
+            }}>
+              Connect to see the swaps you made on KnownToads.
+            </p>
+            <Button onClick={() => connect({ connector: frameConnector() })}>
+              Connect Wallet
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ minHeight: '100vh' }}>
+      <Header />
+      <div style={{ maxWidth: '600px', margin: '0 auto', padding: 'var(--spacing-md) var(--spacing-sm)' }}>
+        <h1 style={{
+          fontSize: 'var(--text-3xl)',
+          fontWeight: 'var(--font-bold)',
+          color: 'var(--deep-blue)',
+          textAlign: 'center',
+          marginBottom: 'var(--spacing-md)',
+        }}>
+          History
+        </h1>
+
+        {loading && !trades && <Loading />}
+
+        {needsSignIn && !loading && (
+          <div className="toad-card" style={{ textAlign: 'center', marginBottom: 'var(--spacing-lg)' }}>
+            <p style={{ color: 'var(--text-secondary)', marginBottom: 'var(--spacing-md)' }}>
+              Sign in with Farcaster to see the swaps made from your verified wallets.
+            </p>
+            <Button onClick={handleSignIn}>Sign In</Button>
+          </div>
+        )}
+
+        {error && (
+          <div style={{ textAlign: 'center', marginBottom: 'var(--spacing-md)' }}>
+            <p style={{ color: '#dc2626', marginBottom: 'var(--spacing-sm)' }}>{error}</p>
+            <Button variant="secondary" onClick={fetchHistory}>Try Again</Button>
+          </div>
+        )}
+
+        {trades && trades.length === 0 && (
+          <EmptyState message="No swaps yet! Buys and sells made here show up once confirmed." />
+        )}
+
+        {trades && (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-md)' }}>
+            {trades.map((trade) => {
+              const payToken = describePayToken(trade.pay_token);
+              const coinLabel = `$${trade.token_ticker || trade.username || 'TOKEN'}`;
+              const coinAmount = `${formatAmount(trade.coin_amount, COIN_DECIMALS)} ${coinLabel}`;
+              const payAmount = `${formatAmount(trade.pay_amount, payToken.decimals)} ${payToken.symbol}`;
+              const isBuy = trade.side === 'buy';
+
+              return (
+                <div key={`${trade.tx_hash}-${trade.coin_address}`} className="toad-card toad-card-compact">
+                  <div style={{
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    gap: 'var(--spacing-sm)',
+                    fontSize: 'var(--text-sm)',
+                  }}>
+                    <span>
+                      <span style={{
+                        fontWeight: 'var(--font-bold)',
+                        color: isBuy ? '#16a34a' : '#dc2626',
+                        marginRight: 'var(--spacing-xs)',
+                      }}>
+                        {isBuy ? 'Buy' : 'Sell'}
+                      </span>
+                      {trade.fid ? (
+                        <Link href={`/toad/${trade.fid}`} className="social-link">
+                          @{trade.username}
+                        </Link>
+                      ) : (
+                        coinLabel
+                      )}
+                    </span>
+                    <span style={{ fontSize: 'var(--text-xs)', color: '#16a34a' }}>✓ Confirmed</span>
+                  </div>
+
+                  <div style={{ fontSize: 'var(--text-sm)', marginTop: 'var(--spacing-xs)' }}>
+                    {isBuy ? `${payAmount} → ${coinAmount}` : `${coinAmount} → ${payAmount}`}
+                  </div>
+
+                  <div style={{
+                    display: 'flex',
+                    flexWrap: 'wrap',
+                    justifyContent: 'space-between',
+                    gap: 'var(--spacing-sm)',
+                    fontSize: 'var(--text-xs)',
+                    color: 'var(--text-secondary)',
+                    marginTop: 'var(--spacing-xs)',
+                  }}>
+                    <span>
+                      {new Date(trade.block_timestamp).toLocaleString()}
+                      {trade.usdc_amount !== null &&
+                        ` · ${isBuy ? 'Cost' : 'Proceeds'} $${formatAmount(trade.usdc_amount, USDC_PAY_TOKEN.decimals)}`}
+                      {trade.slippage !== null && ` · ${formatSlippage(trade.slippage)} slippage`}
+                    </span>
+                    <a
+                      href={`https://basescan.org/tx/${trade.tx_hash}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      style={{ color: 'var(--toby-blue)', textDecoration: 'underline' }}
+                    >
+                      BaseScan
+                    </a>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
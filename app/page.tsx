@@ -1,73 +1,29 @@
-'use client';
-
-import React, { useState, useEffect } from 'react';
-import { Profile } from '@/types/profile';
-import { supabase } from '@/lib/supabase';
-import { ToadGrid } from '@/components/directory/ToadGrid';
-import { SearchBar } from '@/components/directory/SearchBar';
+import { Suspense } from 'react';
 import { Header } from '@/components/ui/Header';
 import { Loading } from '@/components/ui/Loading';
-import Link from 'next/link';
-import { Button } from '@/components/ui/Button';
-import { ShareButton } from '@/components/ShareButton';
-import { BuyAllModal } from '@/components/ui/BuyAllModal';
-
-export default function HomePage() {
-  const [profiles, setProfiles] = useState<Profile[]>([]);
-  const [filteredProfiles, setFilteredProfiles] = useState<Profile[]>([]);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [sortBy, setSortBy] = useState<'newest' | 'alphabetical'>('newest');
-  const [loading, setLoading] = useState(true);
-  const [isBuyAllModalOpen, setIsBuyAllModalOpen] = useState(false);
-
-  useEffect(() => {
-    fetchProfiles();
-  }, []);
-
-  useEffect(() => {
-    filterAndSortProfiles();
-  }, [profiles, searchQuery, sortBy]);
-
-  async function fetchProfiles() {
-    try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-
-      setProfiles(data || []);
-    } catch (error) {
-      console.error('Error fetching profiles:', error);
-    } finally {
-      setLoading(false);
-    }
+import { Directory } from '@/components/directory/Directory';
+import { queryProfiles, ProfilesPage } from '@/lib/profiles';
+
+// Regenerate the server-rendered first page at most once a minute
+export const revalidate = 60;
+
+/**
+ * Fetches the first directory page on the server so it is crawlable
+ * and streamed in behind the hero section
+ */
+async function DirectoryWithFirstPage() {
+  let initialPage: ProfilesPage = { profiles: [], nextCursor: null };
+
+  try {
+    initialPage = await queryProfiles({ sort: 'newest' });
+  } catch (error) {
+    console.error('Error fetching profiles:', error);
   }
 
-  function filterAndSortProfiles() {
-    let filtered = profiles;
-
-    // Filter by search query
-    if (searchQuery) {
-      filtered = filtered.filter((profile) =>
-        profile.username.toLowerCase().includes(searchQuery.toLowerCase())
-      );
-    }
-
-    // Sort
-    if (sortBy === 'alphabetical') {
-      filtered = [...filtered].sort((a, b) =>
-        a.username.localeCompare(b.username)
-      );
-    } else {
-      // 'newest' - already sorted by created_at desc from query
-      filtered = [...filtered];
-    }
-
-    setFilteredProfiles(filtered);
-  }
+  return <Directory initialPage={initialPage} />;
+}
 
+export default function HomePage() {
   return (
     <div style={{ minHeight: '100vh' }}>
       <Header />
@@ -89,67 +45,12 @@ export default function HomePage() {
           }}>
             The Toadgang Community Directory
           </p>
-          <div style={{ 
-            display: 'flex', 
-            gap: 'var(--spacing-md)', 
-            justifyContent: 'center',
-            flexWrap: 'wrap',
-          }}>
-            <Button onClick={() => setIsBuyAllModalOpen(true)}>
-              🐸 Buy All Coins
-            </Button>
-            <Link href="/profile/edit">
-              <Button>Join the Gang</Button>
-            </Link>
-            <ShareButton
-              url="https://farcaster.xyz/miniapps/bjXOyJfzJCxU/knowntoads"
-              text="🐸 Share KnownToads"
-            />
-          </div>
         </div>
 
-        {/* Search and Filter */}
-        <div style={{ marginBottom: 'var(--spacing-md)' }}>
-          <SearchBar
-            value={searchQuery}
-            onChange={setSearchQuery}
-            placeholder="Search toads by username..."
-          />
-          <div style={{ 
-            display: 'flex', 
-            justifyContent: 'center',
-            gap: 'var(--spacing-md)',
-            marginTop: 'var(--spacing-sm)',
-          }}>
-            <Button
-              variant={sortBy === 'newest' ? 'primary' : 'secondary'}
-              onClick={() => setSortBy('newest')}
-              style={{ padding: 'var(--spacing-sm) var(--spacing-lg)', fontSize: 'var(--text-base)' }}
-            >
-              Newest
-            </Button>
-            <Button
-              variant={sortBy === 'alphabetical' ? 'primary' : 'secondary'}
-              onClick={() => setSortBy('alphabetical')}
-              style={{ padding: 'var(--spacing-sm) var(--spacing-lg)', fontSize: 'var(--text-base)' }}
-            >
-              A-Z
-            </Button>
-          </div>
-        </div>
-
-        {/* Loading State */}
-        {loading && <Loading />}
-
-        {/* Profiles Grid */}
-        {!loading && <ToadGrid profiles={filteredProfiles} />}
-
-        {/* Buy All Modal */}
-        <BuyAllModal
-          isOpen={isBuyAllModalOpen}
-          onClose={() => setIsBuyAllModalOpen(false)}
-          profiles={profiles}
-        />
+        {/* Search, Filter and Profiles Grid */}
+        <Suspense fallback={<Loading />}>
+          <DirectoryWithFirstPage />
+        </Suspense>
 
         {/* Footer */}
         <div style={{ 
@@ -0,0 +1,265 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { useAccount, useConnect } from 'wagmi';
+import { formatUnits } from 'viem';
+import { frameConnector } from '@/lib/wagmi';
+import type { Portfolio } from '@/lib/portfolio';
+import { ensureFarcasterSession } from '@/lib/farcaster-sign-in';
+import { useFarcasterContext } from '@/lib/useFarcasterContext';
+import { formatUsdCompact, formatUsdPrice } from '@/lib/format-helpers';
+import { BASE_CHAIN_ID } from '@/lib/swap-constants';
+import { Header } from '@/components/ui/Header';
+import { Loading } from '@/components/ui/Loading';
+import { Button } from '@/components/ui/Button';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { SwapButton } from '@/components/ui/SwapButton';
+
+function formatTokenAmount(baseUnits: string): string {
+  const amount = Number(formatUnits(BigInt(baseUnits), 18));
+  return new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 2 }).format(amount);
+}
+
+function formatPnl(value: number): string {
+  return `${value >= 0 ? '+' : '-'}${formatUsdCompact(Math.abs(value))}`;
+}
+
+function pnlColor(value: number): string {
+  return value >= 0 ? '#16a34a' : '#dc2626';
+}
+
+export default function PortfolioPage() {
+  const { address, isConnected } = useAccount();
+  const { connect } = useConnect();
+  const farcasterContext = useFarcasterContext();
+  const [portfolio, setPortfolio] = useState<Portfolio | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [needsSignIn, setNeedsSignIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPortfolio = useCallback(async () => {
+    if (!address) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/portfolio/${address}`);
+      setNeedsSignIn(response.status === 401);
+      if (response.status === 401) {
+        setPortfolio(null);
+        return;
+      }
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch portfolio');
+      }
+      setPortfolio(data);
+    } catch (err) {
+      console.error('Error fetching portfolio:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch portfolio');
+    } finally {
+      setLoading(false);
+    }
+  }, [address]);
+
+  useEffect(() => {
+    fetchPortfolio();
+  }, [fetchPortfolio]);
+
+  const handleSignIn = async () => {
+    if (!farcasterContext.fid) {
+      setError('Open KnownToads in a Farcaster client to sign in');
+      return;
+    }
+
+    try {
+      await ensureFarcasterSession(farcasterContext.fid);
+      await fetchPortfolio();
+    } catch (err) {
+      console.error('Error signing in:', err);
+      setError(err instanceof Error ? err.message : 'Failed to sign in');
+    }
+  };
+
+  if (!isConnected) {
+    return (
+      <div style={{ minHeight: '100vh' }}>
+        <Header />
+        <div style={{ maxWidth: '900px', margin: '0 auto', padding: 'var(--spacing-xl)' }}>
+          <div className="toad-card" style={{ padding: 'var(--spacing-2xl)', textAlign: 'center' }}>
+            <h1 style={{
+              fontSize: 'var(--text-3xl)',
+              fontWeight: 'var(--font-bold)',
+              color: 'var(--deep-blue)',
+              marginBottom: 'var(--spacing-md)',
+            }}>
+              Connect your wallet
+            </h1>
+            <p style={{
+              color: 'var(--text-secondary)',
+              marginBottom: 'var(--spacing-xl)',
+            }}>
+              Connect to see your toad coin holdings.
+            </p>
+            <Button onClick={() => connect({ connector: frameConnector() })}>
+              Connect Wallet
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ minHeight: '100vh' }}>
+      <Header />
+      <div style={{ maxWidth: '600px', margin: '0 auto', padding: 'var(--spacing-md) var(--spacing-sm)' }}>
+        <h1 style={{
+          fontSize: 'var(--text-3xl)',
+          fontWeight: 'var(--font-bold)',
+          color: 'var(--deep-blue)',
+          textAlign: 'center',
+          marginBottom: 'var(--spacing-md)',
+        }}>
+          My Portfolio
+        </h1>
+
+        {loading && !portfolio && <Loading />}
+
+        {needsSignIn && !loading && (
+          <div className="toad-card" style={{ textAlign: 'center', marginBottom: 'var(--spacing-lg)' }}>
+            <p style={{ color: 'var(--text-secondary)', marginBottom: 'var(--spacing-md)' }}>
+              Sign in with Farcaster to see the holdings and P&amp;L of your verified wallets.
+            </p>
+            <Button onClick={handleSignIn}>Sign In</Button>
+          </div>
+        )}
+
+        {error && (
+          <div style={{ textAlign: 'center', marginBottom: 'var(--spacing-md)' }}>
+            <p style={{ color: '#dc2626', marginBottom: 'var(--spacing-sm)' }}>{error}</p>
+            <Button variant="secondary" onClick={fetchPortfolio}>Try Again</Button>
+          </div>
+        )}
+
+        {portfolio && (
+          <>
+            {/* Totals */}
+            <div className="toad-card" style={{
+              display: 'grid',
+              gridTemplateColumns: 'repeat(3, 1fr)',
+              gap: 'var(--spacing-sm)',
+              textAlign: 'center',
+              marginBottom: 'var(--spacing-lg)',
+            }}>
+              <div>
+                <div style={{ fontSize: 'var(--text-xs)', color: 'var(--text-secondary)' }}>Value</div>
+                <div style={{ fontSize: 'var(--text-xl)', fontWeight: 'var(--font-bold)' }}>
+                  {formatUsdCompact(portfolio.totalValueUsd)}
+                </div>
+              </div>
+              <div>
+                <div style={{ fontSize: 'var(--text-xs)', color: 'var(--text-secondary)' }}>Cost Basis</div>
+                <div style={{ fontSize: 'var(--text-xl)', fontWeight: 'var(--font-bold)' }}>
+                  {formatUsdCompact(portfolio.totalCostBasisUsd)}
+                </div>
+              </div>
+              <div>
+                <div style={{ fontSize: 'var(--text-xs)', color: 'var(--text-secondary)' }}>Unrealized P&L</div>
+                <div style={{
+                  fontSize: 'var(--text-xl)',
+                  fontWeight: 'var(--font-bold)',
+                  color: pnlColor(portfolio.totalUnrealizedPnlUsd),
+                }}>
+                  {formatPnl(portfolio.totalUnrealizedPnlUsd)}
+                </div>
+              </div>
+            </div>
+
+            {portfolio.positions.length === 0 && (
+              <EmptyState message="You don't hold any toad coins yet!" />
+            )}
+
+            {/* Positions */}
+            <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-md)' }}>
+              {portfolio.positions.map((position) => (
+                <div key={position.coinAddress} className="toad-card toad-card-compact">
+                  <div style={{ display: 'flex', gap: 'var(--spacing-sm)', alignItems: 'flex-start' }}>
+                    <Link href={`/toad/${position.fid}`}>
+                      <Image
+                        src={position.pfpUrl}
+                        alt={`${position.username}'s profile`}
+                        width={50}
+                        height={50}
+                        className="avatar avatar-compact"
+                        style={{ objectFit: 'cover', flexShrink: 0 }}
+                      />
+                    </Link>
+                    <div style={{ flex: 1, minWidth: 0, fontSize: 'var(--text-sm)' }}>
+                      <div style={{ display: 'flex', justifyContent: 'space-between', gap: 'var(--spacing-sm)' }}>
+                        <Link href={`/toad/${position.fid}`} className="social-link">
+                          @{position.username}
+                        </Link>
+                        <span style={{ fontWeight: 'var(--font-bold)' }}>
+                          {position.valueUsd !== null ? formatUsdCompact(position.valueUsd) : '—'}
+                        </span>
+                      </div>
+                      <div style={{
+                        display: 'flex',
+                        justifyContent: 'space-between',
+                        gap: 'var(--spacing-sm)',
+                        fontSize: 'var(--text-xs)',
+                        color: 'var(--text-secondary)',
+                      }}>
+                        <span>
+                          {formatTokenAmount(position.balance)}{' '}
+                          <span style={{ color: 'var(--token-accent)', fontWeight: 'bold' }}>
+                            ${position.tokenTicker || 'TOKEN'}
+                          </span>
+                          {position.priceUsd !== null && ` @ ${formatUsdPrice(position.priceUsd)}`}
+                        </span>
+                        {position.unrealizedPnlUsd !== null ? (
+                          <span style={{ color: pnlColor(position.unrealizedPnlUsd) }}>
+                            {formatPnl(position.unrealizedPnlUsd)}
+                          </span>
+                        ) : (
+                          <span>No recorded buys</span>
+                        )}
+                      </div>
+                      {position.costBasisUsd !== null && (
+                        <div style={{ fontSize: 'var(--text-xs)', color: 'var(--text-secondary)' }}>
+                          Cost basis {formatUsdCompact(position.costBasisUsd)}
+                          {position.trackedBalance !== position.balance &&
+                            ` (covers ${formatTokenAmount(position.trackedBalance)} bought here)`}
+                        </div>
+                      )}
+                      <div style={{ display: 'flex', gap: 'var(--spacing-xs)', marginTop: 'var(--spacing-xs)' }}>
+                        {(['buy', 'sell'] as const).map((mode) => (
+                          <SwapButton
+                            key={mode}
+                            tokenAddress={position.coinAddress}
+                            chainId={BASE_CHAIN_ID}
+                            tokenSymbol={position.tokenTicker || undefined}
+                            compactMode={true}
+                            mode={mode}
+                            style={{
+                              fontSize: 'var(--text-xs)',
+                              padding: '0.15rem var(--spacing-sm)',
+                            }}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
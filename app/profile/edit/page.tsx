@@ -13,14 +13,7 @@ import { Header } from '@/components/ui/Header';
 import { ProfileFormData } from '@/types/profile';
 import { supabase } from '@/lib/supabase';
 import { useFarcasterContext } from '@/lib/useFarcasterContext';
-import {
-  validateXHandle,
-  validateTelegramHandle,
-  normalizeTelegramHandle,
-  validateZoraUrl,
-} from '@/lib/validation';
-import { fetchTokenSymbol } from '@/lib/token-helpers';
-import type { Address } from 'viem';
+import { ensureFarcasterSession } from '@/lib/farcaster-sign-in';
 
 const PROFILE_REDIRECT_DELAY_MS = 3000;
 
@@ -83,87 +76,26 @@ export default function ProfileEditPage() {
     setSuccess(false);
 
     try {
-      if (!farcasterContext.fid || !farcasterContext.username) {
+      if (!farcasterContext.fid) {
         throw new Error('Please connect with Farcaster first');
       }
 
-      // Validate creator coin address via API
-      const validationResponse = await fetch('/api/validate/contract', {
+      // Sign in with Farcaster (also enforces the @toadgod1017 follow gate)
+      await ensureFarcasterSession(farcasterContext.fid);
+
+      // Save through the server, which takes the FID from the session
+      const response = await fetch('/api/profile', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ address: formData.creator_coin_address }),
+        body: JSON.stringify(formData),
       });
 
-      const validationResult = await validationResponse.json();
-
-      if (!validationResult.valid) {
-        throw new Error(
-          validationResult.error || 'Invalid ERC-20 contract address'
-        );
-      }
-
-      // Validate social handles
-      if (formData.x_handle && !validateXHandle(formData.x_handle)) {
-        throw new Error('Invalid X handle format');
-      }
-
-      if (
-        formData.telegram_handle &&
-        !validateTelegramHandle(formData.telegram_handle)
-      ) {
-        throw new Error('Invalid Telegram handle format');
-      }
-
-      if (
-        formData.zora_page_url &&
-        !validateZoraUrl(formData.zora_page_url)
-      ) {
-        throw new Error('Invalid Zora URL format');
-      }
-
-      // Normalize telegram handle
-      const normalizedTelegram = formData.telegram_handle
-        ? normalizeTelegramHandle(formData.telegram_handle)
-        : null;
-
-      // Clean X handle (remove @ if present)
-      const cleanedXHandle = formData.x_handle
-        ? formData.x_handle.replace(/^@/, '')
-        : null;
+      const result = await response.json();
 
-      // Fetch token ticker/symbol from the contract
-      let tokenTicker: string | null = null;
-      try {
-        // Validate address format before fetching
-        if (formData.creator_coin_address.startsWith('0x') && formData.creator_coin_address.length === 42) {
-          tokenTicker = await fetchTokenSymbol(formData.creator_coin_address as Address);
-        }
-      } catch (error) {
-        console.error('Error fetching token symbol:', error);
-        // Continue without token ticker - it can be fetched on demand
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save profile');
       }
 
-      // Save to Supabase
-      const profileData = {
-        fid: farcasterContext.fid,
-        username: farcasterContext.username,
-        pfp_url: farcasterContext.pfpUrl || 'https://i.imgur.com/placeholder.png',
-        pfp_cached_at: new Date().toISOString(),
-        creator_coin_address: formData.creator_coin_address,
-        chain_id: validationResult.chainId || 8453,
-        bio: formData.bio || null,
-        x_handle: cleanedXHandle,
-        telegram_handle: normalizedTelegram,
-        zora_page_url: formData.zora_page_url || null,
-        token_ticker: tokenTicker,
-      };
-
-      const { error: dbError } = await supabase
-        .from('profiles')
-        .upsert(profileData, { onConflict: 'fid' });
-
-      if (dbError) throw dbError;
-
       setSuccess(true);
       
       // Show success temporarily, then redirect
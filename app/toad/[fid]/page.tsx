@@ -7,6 +7,7 @@ import Link from 'next/link';
 import { Profile } from '@/types/profile';
 import { supabase } from '@/lib/supabase';
 import { SocialLinks } from '@/components/profile/SocialLinks';
+import { CoinStatsPanel } from '@/components/profile/CoinStatsPanel';
 import { Button } from '@/components/ui/Button';
 import { SwapButton } from '@/components/ui/SwapButton';
 import { ShareButton } from '@/components/ShareButton';
@@ -126,6 +127,14 @@ export default function ToadCardPage() {
             />
           </div>
 
+          {/* Market Data */}
+          <div className={styles.section}>
+            <h2 className={styles.sectionHeading}>
+              Market
+            </h2>
+            <CoinStatsPanel coinAddress={profile.creator_coin_address} />
+          </div>
+
           {/* Swap Button */}
           <div className={styles.section}>
             <SwapButton
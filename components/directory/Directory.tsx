@@ -0,0 +1,181 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import Link from 'next/link';
+import { Profile } from '@/types/profile';
+import type { ProfileSort, ProfilesPage } from '@/lib/profiles';
+import { fetchProfilesPage, fetchAllProfiles } from '@/lib/profiles-client';
+import { ToadGrid } from './ToadGrid';
+import { SearchBar } from './SearchBar';
+import { Loading } from '@/components/ui/Loading';
+import { Button } from '@/components/ui/Button';
+import { ShareButton } from '@/components/ShareButton';
+import { BuyAllModal } from '@/components/ui/BuyAllModal';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const SORT_OPTIONS: { value: ProfileSort; label: string }[] = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'alphabetical', label: 'A-Z' },
+  { value: 'market_cap', label: 'Market Cap' },
+  { value: 'volume', label: '24h Volume' },
+  { value: 'liquidity', label: 'Liquidity' },
+];
+
+interface DirectoryProps {
+  initialPage: ProfilesPage; // First page (newest, no search) rendered on the server
+}
+
+export function Directory({ initialPage }: DirectoryProps) {
+  const [profiles, setProfiles] = useState<Profile[]>(initialPage.profiles);
+  const [nextCursor, setNextCursor] = useState<string | null>(initialPage.nextCursor);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [resultsQuery, setResultsQuery] = useState(''); // Query the loaded results belong to
+  const [sortBy, setSortBy] = useState<ProfileSort>('newest');
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [isBuyAllModalOpen, setIsBuyAllModalOpen] = useState(false);
+  const [buyAllProfiles, setBuyAllProfiles] = useState<Profile[]>([]);
+  const isFirstQuery = useRef(true);
+  const requestId = useRef(0);
+
+  // Reload from the first page whenever search or sort changes
+  useEffect(() => {
+    // The server already rendered the default view
+    if (isFirstQuery.current) {
+      isFirstQuery.current = false;
+      return;
+    }
+
+    const currentRequest = ++requestId.current;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const page = await fetchProfilesPage({ search: searchQuery, sort: sortBy });
+        // Ignore responses for queries that have since changed
+        if (currentRequest !== requestId.current) return;
+        setProfiles(page.profiles);
+        setNextCursor(page.nextCursor);
+        setResultsQuery(searchQuery);
+      } catch (error) {
+        console.error('Error fetching profiles:', error);
+      } finally {
+        if (currentRequest === requestId.current) {
+          setLoading(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [searchQuery, sortBy]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+
+    const currentRequest = requestId.current;
+    setLoadingMore(true);
+    try {
+      const page = await fetchProfilesPage({ search: searchQuery, sort: sortBy, cursor: nextCursor });
+      if (currentRequest !== requestId.current) return;
+      setProfiles((prev) => [...prev, ...page.profiles]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error fetching more profiles:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [nextCursor, loadingMore, searchQuery, sortBy]);
+
+  // Buy All needs every coin in the directory, not just the loaded pages
+  const openBuyAllModal = async () => {
+    try {
+      setBuyAllProfiles(await fetchAllProfiles());
+    } catch (error) {
+      console.error('Error fetching all profiles:', error);
+      setBuyAllProfiles(profiles);
+    }
+    setIsBuyAllModalOpen(true);
+  };
+
+  return (
+    <>
+      <div style={{
+        display: 'flex',
+        gap: 'var(--spacing-md)',
+        justifyContent: 'center',
+        flexWrap: 'wrap',
+        marginBottom: 'var(--spacing-sm)',
+      }}>
+        <Button onClick={openBuyAllModal}>
+          🐸 Buy All Coins
+        </Button>
+        <Link href="/profile/edit">
+          <Button>Join the Gang</Button>
+        </Link>
+        <ShareButton
+          url="https://farcaster.xyz/miniapps/bjXOyJfzJCxU/knowntoads"
+          text="🐸 Share KnownToads"
+        />
+      </div>
+
+      {/* Search and Filter */}
+      <div style={{ marginBottom: 'var(--spacing-md)' }}>
+        <SearchBar
+          value={searchQuery}
+          onChange={setSearchQuery}
+          placeholder="Search toads by name, bio, ticker, handle or 0x address..."
+        />
+        {searchQuery.trim() ? (
+          <p style={{
+            textAlign: 'center',
+            marginTop: 'var(--spacing-sm)',
+            fontSize: 'var(--text-sm)',
+            color: 'var(--text-secondary)',
+          }}>
+            Sorted by best match
+          </p>
+        ) : (
+          <div style={{
+            display: 'flex',
+            justifyContent: 'center',
+            flexWrap: 'wrap',
+            gap: 'var(--spacing-sm)',
+            marginTop: 'var(--spacing-sm)',
+          }}>
+            {SORT_OPTIONS.map((option) => (
+              <Button
+                key={option.value}
+                variant={sortBy === option.value ? 'primary' : 'secondary'}
+                onClick={() => setSortBy(option.value)}
+                style={{ padding: 'var(--spacing-sm) var(--spacing-lg)', fontSize: 'var(--text-base)' }}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Loading State */}
+      {loading && <Loading />}
+
+      {/* Profiles Grid */}
+      {!loading && (
+        <ToadGrid
+          profiles={profiles}
+          hasMore={!!nextCursor}
+          isLoadingMore={loadingMore}
+          onLoadMore={loadMore}
+          searchQuery={resultsQuery}
+        />
+      )}
+
+      {/* Buy All Modal */}
+      <BuyAllModal
+        isOpen={isBuyAllModalOpen}
+        onClose={() => setIsBuyAllModalOpen(false)}
+        profiles={buyAllProfiles}
+      />
+    </>
+  );
+}
@@ -0,0 +1,34 @@
+import { getHighlightSegments } from '@/lib/search-highlight';
+
+interface HighlightedTextProps {
+  text: string;
+  query?: string;
+}
+
+export function HighlightedText({ text, query }: HighlightedTextProps) {
+  if (!query) {
+    return <>{text}</>;
+  }
+
+  return (
+    <>
+      {getHighlightSegments(text, query).map((segment, index) =>
+        segment.match ? (
+          <mark
+            key={index}
+            style={{
+              backgroundColor: 'var(--mint)',
+              color: 'inherit',
+              borderRadius: '2px',
+              padding: '0 1px',
+            }}
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
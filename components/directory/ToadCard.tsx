@@ -3,12 +3,18 @@ import Image from 'next/image';
 import type { Profile } from '@/types/profile';
 import { SocialLinks } from '@/components/profile/SocialLinks';
 import { SwapButton } from '@/components/ui/SwapButton';
+import { HighlightedText } from './HighlightedText';
+import { findMatchedField } from '@/lib/search-highlight';
+import { formatUsdCompact, formatUsdPrice } from '@/lib/format-helpers';
 
 interface ToadCardProps {
   profile: Profile;
+  searchQuery?: string; // Highlights matches when the directory is filtered
 }
 
-export function ToadCard({ profile }: ToadCardProps) {
+export function ToadCard({ profile, searchQuery }: ToadCardProps) {
+  const matchedField = searchQuery ? findMatchedField(profile, searchQuery) : null;
+
   return (
     <Link href={`/toad/${profile.fid}`}>
       <div className="toad-card toad-card-compact animate-fadeIn" style={{ cursor: 'pointer' }}>
@@ -30,9 +36,44 @@ export function ToadCard({ profile }: ToadCardProps) {
             flex: 1, 
             minWidth: 0  // Prevents flex item overflow for text truncation
           }}>
+            {profile.display_name && (
+              <div style={{
+                fontSize: 'var(--text-sm)',
+                fontWeight: 'var(--font-semibold)',
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                whiteSpace: 'nowrap',
+              }}>
+                <HighlightedText text={profile.display_name} query={searchQuery} />
+              </div>
+            )}
             <div style={{ fontSize: 'var(--text-xs)' }}>
-              <SocialLinks profile={profile} compactView={true} />
+              <SocialLinks profile={profile} compactView={true} highlightQuery={searchQuery} />
             </div>
+            {matchedField && (
+              <div style={{
+                fontSize: 'var(--text-xs)',
+                color: 'var(--text-secondary)',
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                whiteSpace: 'nowrap',
+              }}>
+                {matchedField.label}: <HighlightedText text={matchedField.text} query={searchQuery} />
+              </div>
+            )}
+            {profile.stats_updated_at && (
+              <div style={{
+                display: 'flex',
+                gap: 'var(--spacing-sm)',
+                flexWrap: 'wrap',
+                fontSize: 'var(--text-xs)',
+                color: 'var(--text-secondary)',
+              }}>
+                <span>{formatUsdPrice(profile.price_usd || 0)}</span>
+                <span>MC {formatUsdCompact(profile.market_cap_usd || 0)}</span>
+                <span>Vol {formatUsdCompact(profile.volume_24h_usd || 0)}</span>
+              </div>
+            )}
             <SwapButton
               tokenAddress={profile.creator_coin_address}
               chainId={profile.chain_id}
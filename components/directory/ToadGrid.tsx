@@ -1,28 +1,72 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
 import { ToadCard } from './ToadCard';
 import type { Profile } from '@/types/profile';
 import { EmptyState } from '@/components/ui/EmptyState';
 
 interface ToadGridProps {
   profiles: Profile[];
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void; // Called when the end of the grid scrolls into view
+  searchQuery?: string;
 }
 
-export function ToadGrid({ profiles }: ToadGridProps) {
+export function ToadGrid({ profiles, hasMore = false, isLoadingMore = false, onLoadMore, searchQuery }: ToadGridProps) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Infinite scroll: load the next page when the sentinel becomes visible
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || !onLoadMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting && !isLoadingMore) {
+          onLoadMore();
+        }
+      },
+      { rootMargin: '400px' }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, isLoadingMore, onLoadMore]);
+
   if (profiles.length === 0) {
-    return <EmptyState message="No toads found in the pond yet!" />;
+    return (
+      <EmptyState message={searchQuery ? 'No toads match your search' : 'No toads found in the pond yet!'} />
+    );
   }
 
   return (
-    <div style={{
-      display: 'grid',
-      gridTemplateColumns: '1fr',
-      gap: 'var(--spacing-xl)',
-      padding: 'var(--spacing-md) var(--spacing-sm)',
-      maxWidth: '600px',
-      margin: '0 auto',
-    }}>
-      {profiles.map((profile) => (
-        <ToadCard key={profile.fid} profile={profile} />
-      ))}
-    </div>
+    <>
+      <div style={{
+        display: 'grid',
+        gridTemplateColumns: '1fr',
+        gap: 'var(--spacing-xl)',
+        padding: 'var(--spacing-md) var(--spacing-sm)',
+        maxWidth: '600px',
+        margin: '0 auto',
+      }}>
+        {profiles.map((profile) => (
+          <ToadCard key={profile.fid} profile={profile} searchQuery={searchQuery} />
+        ))}
+      </div>
+      {hasMore && (
+        <div
+          ref={sentinelRef}
+          style={{
+            textAlign: 'center',
+            padding: 'var(--spacing-md)',
+            color: 'var(--text-secondary)',
+            fontSize: 'var(--text-sm)',
+          }}
+        >
+          {isLoadingMore ? '⏳ Loading more toads...' : ''}
+        </div>
+      )}
+    </>
   );
 }
@@ -0,0 +1,85 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import type { CoinStats } from '@/types/profile';
+import { formatUsdCompact, formatUsdPrice } from '@/lib/format-helpers';
+
+interface CoinStatsPanelProps {
+  coinAddress: string;
+}
+
+export function CoinStatsPanel({ coinAddress }: CoinStatsPanelProps) {
+  const [stats, setStats] = useState<CoinStats | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchStats() {
+      try {
+        const response = await fetch(`/api/coin-stats/${coinAddress}`);
+        // Not computed by the refresh cron yet
+        if (response.status === 404) return;
+
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch coin stats');
+        }
+        if (!cancelled) setStats(data.stats);
+      } catch (error) {
+        console.error('Error fetching coin stats:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    fetchStats();
+    return () => {
+      cancelled = true;
+    };
+  }, [coinAddress]);
+
+  if (loading) {
+    return <p style={{ color: 'var(--text-secondary)', fontSize: 'var(--text-sm)' }}>⏳ Loading market data...</p>;
+  }
+
+  if (!stats) {
+    return <p style={{ color: 'var(--text-secondary)', fontSize: 'var(--text-sm)' }}>Market data unavailable</p>;
+  }
+
+  const items: { label: string; value: string }[] = [
+    { label: 'Price', value: stats.price_usd !== null ? formatUsdPrice(stats.price_usd) : '—' },
+    { label: 'Market Cap', value: stats.market_cap_usd !== null ? formatUsdCompact(stats.market_cap_usd) : '—' },
+    { label: 'FDV', value: stats.fdv_usd !== null ? formatUsdCompact(stats.fdv_usd) : '—' },
+    { label: 'Liquidity', value: stats.liquidity_usd !== null ? formatUsdCompact(stats.liquidity_usd) : '—' },
+    { label: '24h Volume', value: stats.volume_24h_usd !== null ? formatUsdCompact(stats.volume_24h_usd) : '—' },
+  ];
+
+  return (
+    <div>
+      <div style={{
+        display: 'grid',
+        gridTemplateColumns: 'repeat(auto-fit, minmax(120px, 1fr))',
+        gap: 'var(--spacing-sm)',
+      }}>
+        {items.map((item) => (
+          <div
+            key={item.label}
+            style={{
+              background: 'var(--white)',
+              border: '1px solid var(--toby-blue)',
+              borderRadius: 'var(--radius-sm)',
+              padding: 'var(--spacing-sm) var(--spacing-md)',
+            }}
+          >
+            <div style={{ fontSize: 'var(--text-xs)', color: 'var(--text-secondary)' }}>{item.label}</div>
+            <div style={{ fontSize: 'var(--text-lg)', fontWeight: 'var(--font-bold)' }}>{item.value}</div>
+          </div>
+        ))}
+      </div>
+      <p style={{ marginTop: 'var(--spacing-xs)', fontSize: 'var(--text-xs)', color: 'var(--text-secondary)' }}>
+        Updated {new Date(stats.updated_at).toLocaleTimeString()}
+      </p>
+    </div>
+  );
+}
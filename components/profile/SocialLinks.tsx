@@ -3,6 +3,7 @@
 import React, { useState, useEffect } from 'react';
 import Image from 'next/image';
 import { WarningIcon } from '../ui/WarningIcon';
+import { HighlightedText } from '../directory/HighlightedText';
 import { fetchTokenSymbolWithRetry } from '@/lib/token-helpers';
 import type { Profile } from '@/types/profile';
 
@@ -24,6 +25,7 @@ interface SocialLinksProps {
   creatorCoinAddress?: string | null;
   creatorCoinTicker?: string | null;
   compactView?: boolean; // New prop for directory view
+  highlightQuery?: string; // Directory search query to highlight in the username
 }
 
 export function SocialLinks({
@@ -37,6 +39,7 @@ export function SocialLinks({
   creatorCoinAddress,
   creatorCoinTicker,
   compactView = false, // Default to false for detail views
+  highlightQuery,
 }: SocialLinksProps) {
   const [tokenTicker, setTokenTicker] = useState<string | null>(null);
   const [isLoadingTicker, setIsLoadingTicker] = useState(false);
@@ -159,7 +162,7 @@ export function SocialLinks({
               style={{ display: 'inline-flex', alignItems: 'center', gap: 'var(--spacing-xs)', fontSize: 'var(--text-xs)' }}
             >
               <Image src="/farcaster-logo.svg" alt="Farcaster" width={16} height={16} />
-              <span>@{farcasterLink.handle}</span>
+              <span>@<HighlightedText text={farcasterLink.handle || ''} query={highlightQuery} /></span>
             </a>
           </div>
         )}
@@ -1,25 +1,68 @@
 'use client';
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { createPortal } from 'react-dom';
-import { useAccount, useWalletClient, usePublicClient, useReadContract } from 'wagmi';
+import { useAccount, useWalletClient, usePublicClient } from 'wagmi';
 import { parseUnits, formatUnits } from 'viem';
 import { base } from 'wagmi/chains';
 import { Profile } from '@/types/profile';
-import { USDC_ADDRESS, SLIPPAGE_TIERS, DEFAULT_SLIPPAGE_MODE, DEFAULT_CUSTOM_SLIPPAGE } from '@/lib/swap-constants';
-import { SlippageMode, formatSlippage } from '@/lib/zora-trade-helpers';
-import { getBuyAllQuote, executeBuyAll, BuyAllQuote, BuyAllResult } from '@/lib/buy-all-helpers';
-
-// ERC-20 ABI for balance check
-const ERC20_ABI = [
-  {
-    name: 'balanceOf',
-    type: 'function',
-    stateMutability: 'view',
-    inputs: [{ name: 'account', type: 'address' }],
-    outputs: [{ name: '', type: 'uint256' }],
-  },
-] as const;
+import {
+  USDC_ADDRESS,
+  USDC_PAY_TOKEN,
+  ETH_PAY_TOKEN,
+  BASE_PAY_TOKENS,
+  SLIPPAGE_TIERS,
+  DEFAULT_SLIPPAGE_MODE,
+  DEFAULT_CUSTOM_SLIPPAGE,
+  PayToken,
+  isNativeEth,
+  isSameToken,
+} from '@/lib/swap-constants';
+import { SlippageMode, formatSlippage, getMaxSlippage } from '@/lib/zora-trade-helpers';
+import {
+  getBuyAllQuote,
+  getValidCoins,
+  getBuyAllExecutionMode,
+  executeBuyAll,
+  BuyAllQuote,
+  BuyAllResult,
+  BuyAllExecutionMode,
+} from '@/lib/buy-all-helpers';
+import {
+  ALLOCATION_STRATEGIES,
+  DEFAULT_NEWEST_COUNT,
+  AllocationStrategy,
+  getOwnedCoins,
+} from '@/lib/buy-all-allocation';
+import {
+  MAX_PRICE_IMPACT,
+  CoinPreflight,
+  CoinPreflightQuote,
+  runBuyAllPreflight,
+  assessPreflight,
+} from '@/lib/buy-all-preflight';
+import {
+  BuyAllRun,
+  createBuyAllRun,
+  updateRunCoins,
+  resetRunCoins,
+  getRemainingCoins,
+  getFailedCoins,
+  getSubmittedCoins,
+  resolveSubmittedCoins,
+  getRunQuote,
+  getFailedQuote,
+  isRunFinished,
+  saveBuyAllRun,
+  loadBuyAllRun,
+  clearBuyAllRun,
+} from '@/lib/buy-all-runs';
+import { fetchBuyAllRun } from '@/lib/buy-all-runs-client';
+import { fetchQuoteAmountOut } from '@/lib/quote-client';
+import { getDirectoryPayTokens, usePayTokenBalance } from '@/lib/usePayTokens';
+import { formatUsdPrice } from '@/lib/format-helpers';
+import { estimateBuyAllFee, formatNetworkFee, BuyAllNetworkFee } from '@/lib/gas-helpers';
+import { PayTokenSelector } from './PayTokenSelector';
 
 interface BuyAllModalProps {
   isOpen: boolean;
@@ -29,17 +72,31 @@ interface BuyAllModalProps {
 
 type BuyAllStep = 'input' | 'buying' | 'success' | 'error';
 
-const MIN_AMOUNT = 5; // Minimum $5 USDC
+const MIN_AMOUNT = 5; // Minimum $5 USDC, or its USD value in another pay token
 
 export function BuyAllModal({ isOpen, onClose, profiles }: BuyAllModalProps) {
   const [amount, setAmount] = useState<string>(MIN_AMOUNT.toString());
+  const [payToken, setPayToken] = useState<PayToken>(USDC_PAY_TOKEN);
+  const [usdEstimate, setUsdEstimate] = useState<number | null>(MIN_AMOUNT);
   const [step, setStep] = useState<BuyAllStep>('input');
   const [error, setError] = useState<string | null>(null);
   const [quote, setQuote] = useState<BuyAllQuote | null>(null);
   const [result, setResult] = useState<BuyAllResult | null>(null);
+  const [lastQuote, setLastQuote] = useState<BuyAllQuote | null>(null);
+  const [savedRun, setSavedRun] = useState<BuyAllRun | null>(null);
+  const [checkingRun, setCheckingRun] = useState(false);
   const [slippageMode, setSlippageMode] = useState<SlippageMode>(DEFAULT_SLIPPAGE_MODE);
   const [customSlippage, setCustomSlippage] = useState<number>(DEFAULT_CUSTOM_SLIPPAGE);
   const [mounted, setMounted] = useState(false);
+  const [executionMode, setExecutionMode] = useState<BuyAllExecutionMode>('sequential');
+  const [strategy, setStrategy] = useState<AllocationStrategy>('equal');
+  const [newestCount, setNewestCount] = useState<number>(DEFAULT_NEWEST_COUNT);
+  const [customWeights, setCustomWeights] = useState<Record<string, number>>({});
+  const [ownedCoins, setOwnedCoins] = useState<Set<string> | null>(null);
+  const [excludedCoins, setExcludedCoins] = useState<Set<string>>(new Set());
+  const [preflight, setPreflight] = useState<Map<string, CoinPreflightQuote> | null>(null);
+  const [isPreflighting, setIsPreflighting] = useState(false);
+  const [networkFee, setNetworkFee] = useState<BuyAllNetworkFee | null>(null);
   const [progress, setProgress] = useState<{ completed: number; total: number; current: string }>({
     completed: 0,
     total: 0,
@@ -51,39 +108,238 @@ export function BuyAllModal({ isOpen, onClose, profiles }: BuyAllModalProps) {
   const publicClient = usePublicClient();
   const account = walletClient?.account;
 
-  // Get USDC balance
-  const { data: usdcBalanceData } = useReadContract({
-    address: USDC_ADDRESS,
-    abi: ERC20_ABI,
-    functionName: 'balanceOf',
-    args: userAddress ? [userAddress] : undefined,
-    chainId: base.id,
-  });
+  const payTokens = useMemo(
+    () => [...BASE_PAY_TOKENS, ...getDirectoryPayTokens(profiles)],
+    [profiles]
+  );
+  const payBalance = usePayTokenBalance(payToken, userAddress);
+  const ethBalance = usePayTokenBalance(ETH_PAY_TOKEN, userAddress);
+  const isUsdc = payToken === USDC_PAY_TOKEN;
 
-  const usdcBalance = usdcBalanceData as bigint | undefined;
+  // Coins a strategy can pick from (the pay token itself is never bought)
+  const candidateCoins = useMemo(
+    () => getValidCoins(profiles).filter((coin) => !isSameToken(coin.address, payToken.address)),
+    [profiles, payToken]
+  );
 
   // Set mounted state for portal
   useEffect(() => {
     setMounted(true);
   }, []);
 
-  // Generate quote when amount or profiles change
+  // Check whether the wallet can send every purchase as one atomic batch
   useEffect(() => {
-    if (!amount || parseFloat(amount) < MIN_AMOUNT) {
+    if (!isOpen || !walletClient || !account) return;
+
+    let cancelled = false;
+    getBuyAllExecutionMode(walletClient, account).then((mode) => {
+      if (!cancelled) setExecutionMode(mode);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, walletClient, account]);
+
+  // Offer to pick up a run that was interrupted (this device first, then the server)
+  useEffect(() => {
+    if (!isOpen || !userAddress) return;
+
+    let cancelled = false;
+
+    // Coins sent before the app closed are settled first, so they aren't offered for another purchase
+    const offerRun = async (run: BuyAllRun) => {
+      setSavedRun(run);
+      if (!walletClient || !publicClient || getSubmittedCoins(run).length === 0) return;
+
+      const checked = await resolveSubmittedCoins(run, walletClient, publicClient);
+      if (cancelled) return;
+      saveBuyAllRun(checked);
+      setSavedRun(isRunFinished(checked) ? null : checked);
+    };
+
+    const localRun = loadBuyAllRun(userAddress);
+    if (localRun) {
+      void offerRun(localRun);
+      return () => {
+        cancelled = true;
+      };
+    }
+
+    setSavedRun(null);
+    fetchBuyAllRun(userAddress).then((run) => {
+      if (!cancelled && run) void offerRun(run);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, userAddress, walletClient, publicClient]);
+
+  // Holdings change with the wallet, so re-check them for the "don't own yet" strategy
+  useEffect(() => {
+    setOwnedCoins(null);
+  }, [userAddress]);
+
+  useEffect(() => {
+    if (strategy !== 'unowned' || ownedCoins || !userAddress || !publicClient) return;
+
+    let cancelled = false;
+    getOwnedCoins(publicClient, userAddress, getValidCoins(profiles).map((coin) => coin.address))
+      .then((owned) => {
+        if (!cancelled) setOwnedCoins(owned);
+      })
+      .catch((err) => {
+        console.error('[BuyAllModal] Error checking holdings:', err);
+        if (!cancelled) setError('Failed to check which coins you own');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [strategy, ownedCoins, userAddress, publicClient, profiles]);
+
+  // Generate quote when amount, pay token, allocation or profiles change
+  useEffect(() => {
+    if (!amount || parseFloat(amount) <= 0) {
+      setQuote(null);
+      return;
+    }
+
+    // Wait for holdings before allocating to unowned coins
+    if (strategy === 'unowned' && !ownedCoins) {
       setQuote(null);
       return;
     }
 
     try {
-      const amountInWei = parseUnits(amount, 6); // USDC has 6 decimals
-      const newQuote = getBuyAllQuote(profiles, amountInWei);
+      const amountInWei = parseUnits(amount, payToken.decimals);
+      const newQuote = getBuyAllQuote(profiles, amountInWei, payToken, {
+        strategy,
+        newestCount,
+        customWeights,
+        ownedCoins: ownedCoins || undefined,
+        excludedCoins,
+      });
       setQuote(newQuote);
+      setError(null);
     } catch (err) {
       console.error('Quote error:', err);
       setError(err instanceof Error ? err.message : 'Failed to generate quote');
       setQuote(null);
     }
-  }, [amount, profiles]);
+  }, [amount, payToken, profiles, strategy, newestCount, customWeights, ownedCoins, excludedCoins]);
+
+  // Pre-flight: quote every coin before anything is signed
+  useEffect(() => {
+    setPreflight(null);
+    if (!quote || !userAddress) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsPreflighting(true);
+      const results = await runBuyAllPreflight(quote, userAddress);
+      if (!cancelled) {
+        setPreflight(results);
+        setIsPreflighting(false);
+      }
+    }, 800); // Debounce: every keystroke changes every coin's amount
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      setIsPreflighting(false);
+    };
+  }, [quote, userAddress]);
+
+  // Network fee across every purchase
+  useEffect(() => {
+    setNetworkFee(null);
+    if (!quote || !userAddress || !publicClient) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const fee = await estimateBuyAllFee({
+          quote,
+          executionMode,
+          slippage: getMaxSlippage(slippageMode, customSlippage),
+          account: userAddress,
+          publicClient,
+        });
+        if (!cancelled) setNetworkFee(fee);
+      } catch (err) {
+        console.error('[BuyAllModal] Error estimating network fee:', err);
+      }
+    }, 800); // Debounce alongside pre-flight
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [quote, executionMode, slippageMode, customSlippage, userAddress, publicClient]);
+
+  // USD value of the amount, for the minimum check; other pay tokens are priced via a USDC quote
+  useEffect(() => {
+    if (!amount || parseFloat(amount) <= 0) {
+      setUsdEstimate(null);
+      return;
+    }
+
+    if (isUsdc) {
+      setUsdEstimate(parseFloat(amount));
+      return;
+    }
+
+    setUsdEstimate(null);
+    if (!userAddress) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const usdcOut = await fetchQuoteAmountOut({
+          sellToken: payToken.address,
+          buyToken: USDC_ADDRESS,
+          sellAmount: parseUnits(amount, payToken.decimals),
+          takerAddress: userAddress,
+        });
+        if (usdcOut !== null) {
+          setUsdEstimate(Number(formatUnits(usdcOut, USDC_PAY_TOKEN.decimals)));
+        }
+      } catch (err) {
+        console.error('[BuyAllModal] Error pricing pay token:', err);
+      }
+    }, 500); // Debounce for 500ms
+
+    return () => clearTimeout(timer);
+  }, [amount, payToken, isUsdc, userAddress]);
+
+  // Preset amount is in USDC, so other pay tokens start empty
+  const handlePayTokenChange = (token: PayToken) => {
+    setPayToken(token);
+    setAmount(token === USDC_PAY_TOKEN ? MIN_AMOUNT.toString() : '');
+    setError(null);
+  };
+
+  const toggleExcluded = (address: string) => {
+    setExcludedCoins((excluded) => {
+      const next = new Set(excluded);
+      const key = address.toLowerCase();
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleCustomWeightChange = (address: string, value: string) => {
+    const weight = parseFloat(value);
+    setCustomWeights((weights) => ({
+      ...weights,
+      [address.toLowerCase()]: isNaN(weight) || weight < 0 ? 0 : weight,
+    }));
+  };
 
   const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
@@ -95,32 +351,41 @@ export function BuyAllModal({ isOpen, onClose, profiles }: BuyAllModalProps) {
   };
 
   const handleBuyAll = async () => {
-    if (!isConnected) {
-      setError('Please connect your wallet');
+    if (!amount || usdEstimate === null || usdEstimate < MIN_AMOUNT) {
+      setError(`Minimum amount is $${MIN_AMOUNT} USDC`);
       return;
     }
 
-    if (chain?.id !== base.id) {
-      setError('Please switch to Base network');
+    if (!quote) {
+      setError('Unable to generate quote');
       return;
     }
 
-    const numAmount = parseFloat(amount);
-    if (!amount || numAmount < MIN_AMOUNT) {
-      setError(`Minimum amount is $${MIN_AMOUNT} USDC`);
+    await startRun(quote);
+  };
+
+  /**
+   * Buys a quote's coins, persisting each coin's outcome to a run
+   * Resumes and retries pass the run they continue; a new purchase starts one
+   */
+  const startRun = async (runQuote: BuyAllQuote, baseRun?: BuyAllRun) => {
+    if (!isConnected) {
+      setError('Please connect your wallet');
       return;
     }
 
-    if (!quote) {
-      setError('Unable to generate quote');
+    if (chain?.id !== base.id) {
+      setError('Please switch to Base network');
       return;
     }
 
-    const amountInWei = parseUnits(amount, 6);
-
-    // Check balance
-    if (usdcBalance && amountInWei > usdcBalance) {
-      setError('Insufficient USDC balance');
+    // Balance is only known for the selected pay token; a resumed run may pay with another
+    if (
+      isSameToken(runQuote.payToken.address, payToken.address) &&
+      payBalance !== undefined &&
+      runQuote.totalAmountIn > payBalance
+    ) {
+      setError(`Insufficient ${runQuote.payToken.symbol} balance`);
       return;
     }
 
@@ -129,13 +394,20 @@ export function BuyAllModal({ isOpen, onClose, profiles }: BuyAllModalProps) {
       return;
     }
 
+    let run = baseRun
+      ? resetRunCoins(baseRun, runQuote.coins.map((coin) => coin.address))
+      : createBuyAllRun(runQuote, account.address, executionMode);
+    saveBuyAllRun(run);
+    setSavedRun(run);
+
     try {
       setError(null);
+      setLastQuote(runQuote);
       setStep('buying');
-      setProgress({ completed: 0, total: quote.numberOfCoins, current: '' });
+      setProgress({ completed: 0, total: runQuote.numberOfCoins, current: '' });
 
       const buyResult = await executeBuyAll(
-        quote,
+        runQuote,
         walletClient,
         account,
         publicClient,
@@ -143,13 +415,24 @@ export function BuyAllModal({ isOpen, onClose, profiles }: BuyAllModalProps) {
         customSlippage,
         (completed, total, current) => {
           setProgress({ completed, total, current });
+        },
+        (coins, outcome) => {
+          run = updateRunCoins(run, coins.map((coin) => coin.address), outcome);
+          saveBuyAllRun(run);
         }
       );
 
       setResult(buyResult);
+      setSavedRun(isRunFinished(run) ? null : run);
       
       if (buyResult.successful.length > 0) {
         setStep('success');
+      } else if (buyResult.submitted.length > 0) {
+        setError('The batch is still pending. Its coins are kept out of Buy All until it lands or fails.');
+        setStep('error');
+      } else if (buyResult.mode === 'batched') {
+        setError(buyResult.failed[0]?.error || 'Batch failed');
+        setStep('error');
       } else {
         setError('All purchases failed');
         setStep('error');
@@ -161,20 +444,104 @@ export function BuyAllModal({ isOpen, onClose, profiles }: BuyAllModalProps) {
     }
   };
 
+  const handleResume = (coins: 'remaining' | 'failed') => {
+    if (!savedRun) return;
+    const runCoins = coins === 'remaining' ? getRemainingCoins(savedRun) : getFailedCoins(savedRun);
+    void startRun(getRunQuote(savedRun, runCoins), savedRun);
+  };
+
+  const handleRetryFailed = () => {
+    if (!lastQuote || !result || !savedRun) return;
+    void startRun(getFailedQuote(lastQuote, result), savedRun);
+  };
+
+  const handleCheckSubmitted = async () => {
+    if (!savedRun || !walletClient || !publicClient) return;
+    setCheckingRun(true);
+    try {
+      const checked = await resolveSubmittedCoins(savedRun, walletClient, publicClient);
+      saveBuyAllRun(checked);
+      setSavedRun(isRunFinished(checked) ? null : checked);
+    } finally {
+      setCheckingRun(false);
+    }
+  };
+
+  const handleDismissRun = () => {
+    if (!savedRun) return;
+    clearBuyAllRun(savedRun);
+    setSavedRun(null);
+  };
+
   const handleClose = () => {
     setStep('input');
     setError(null);
     setQuote(null);
     setResult(null);
+    setLastQuote(null);
+    setPayToken(USDC_PAY_TOKEN);
+    setStrategy('equal');
+    setCustomWeights({});
+    setExcludedCoins(new Set());
     setAmount(MIN_AMOUNT.toString());
     setProgress({ completed: 0, total: 0, current: '' });
+    setNetworkFee(null);
     onClose();
   };
 
   if (!isOpen || !mounted) return null;
 
   const isProcessing = step === 'buying';
-  const amountPerCoin = quote ? formatUnits(quote.totalUSDC / BigInt(quote.numberOfCoins), 6) : '0';
+  const strategyInfo = ALLOCATION_STRATEGIES.find((option) => option.value === strategy);
+
+  // USD per whole pay token, for price impact; other pay tokens are priced from the USD estimate
+  const payTokenUsdPrice = isUsdc
+    ? 1
+    : usdEstimate !== null && parseFloat(amount) > 0
+      ? usdEstimate / parseFloat(amount)
+      : null;
+
+  const coinChecks = new Map<string, CoinPreflight>();
+  if (quote && preflight) {
+    for (const coin of quote.coins) {
+      const result = preflight.get(coin.address.toLowerCase());
+      if (result) {
+        coinChecks.set(
+          coin.address.toLowerCase(),
+          assessPreflight(coin, result, quote.payToken.decimals, payTokenUsdPrice)
+        );
+      }
+    }
+  }
+  const flaggedCoins = quote
+    ? quote.coins.filter((coin) => {
+        const check = coinChecks.get(coin.address.toLowerCase());
+        return check && check.status !== 'ok';
+      })
+    : [];
+  const excludedList = candidateCoins.filter((coin) => excludedCoins.has(coin.address.toLowerCase()));
+  const preflightReady = !isConnected || (preflight !== null && !isPreflighting);
+
+  // Warn (without blocking) when the wallet can't cover every transaction's fee, plus the amount when paying with ETH
+  const hasInsufficientGas = networkFee !== null && quote !== null && ethBalance !== undefined &&
+    ethBalance < networkFee.feeWei + (isNativeEth(quote.payToken.address) ? quote.totalAmountIn : 0n);
+
+  const describeCheck = (check: CoinPreflight | undefined): string | null => {
+    if (!check) return null;
+    switch (check.status) {
+      case 'no_liquidity':
+        return 'No liquidity';
+      case 'error':
+        return 'Quote failed';
+      case 'high_impact':
+        return `${((check.priceImpact || 0) * 100).toFixed(1)}% price impact`;
+      default:
+        return null;
+    }
+  };
+  const formatPayAmount = (value: bigint) =>
+    `${isUsdc ? '$' : ''}${formatUnits(value, payToken.decimals)} ${payToken.symbol}`;
+  const meetsMinimum = usdEstimate !== null && usdEstimate >= MIN_AMOUNT;
 
   const modalContent = (
     <div
@@ -376,13 +743,16 @@ export function BuyAllModal({ isOpen, onClose, profiles }: BuyAllModalProps) {
               </div>
             )}
 
-            <button
-              onClick={handleClose}
-              className="btn-primary"
-              style={{ marginTop: 'var(--spacing-lg)', width: '100%' }}
-            >
-              Close
-            </button>
+            <div style={{ display: 'flex', gap: 'var(--spacing-md)', marginTop: 'var(--spacing-lg)' }}>
+              {result.failed.length > 0 && (
+                <button onClick={handleRetryFailed} className="btn-secondary" style={{ flex: 1 }}>
+                  Retry Failed Only ({result.failed.length})
+                </button>
+              )}
+              <button onClick={handleClose} className="btn-primary" style={{ flex: 1 }}>
+                Close
+              </button>
+            </div>
           </div>
         )}
 
@@ -408,7 +778,18 @@ export function BuyAllModal({ isOpen, onClose, profiles }: BuyAllModalProps) {
             >
               {error}
             </p>
-            {result && result.failed.length > 0 && (
+            {result?.mode === 'batched' && (
+              <p
+                style={{
+                  fontSize: 'var(--text-sm)',
+                  color: 'var(--text-secondary)',
+                  marginBottom: 'var(--spacing-lg)',
+                }}
+              >
+                No coins were purchased. The batch is all or nothing, so nothing was spent.
+              </p>
+            )}
+            {result?.mode === 'sequential' && result.failed.length > 0 && (
               <div
                 style={{
                   background: '#fee2e2',
@@ -444,9 +825,16 @@ export function BuyAllModal({ isOpen, onClose, profiles }: BuyAllModalProps) {
                 ))}
               </div>
             )}
-            <button onClick={() => setStep('input')} className="btn-primary" style={{ width: '100%' }}>
-              Try Again
-            </button>
+            <div style={{ display: 'flex', gap: 'var(--spacing-md)' }}>
+              {result && result.failed.length > 0 && (
+                <button onClick={handleRetryFailed} className="btn-secondary" style={{ flex: 1 }}>
+                  Retry Failed Only ({result.failed.length})
+                </button>
+              )}
+              <button onClick={() => setStep('input')} className="btn-primary" style={{ flex: 1 }}>
+                Try Again
+              </button>
+            </div>
           </div>
         )}
 
@@ -484,6 +872,78 @@ export function BuyAllModal({ isOpen, onClose, profiles }: BuyAllModalProps) {
               </div>
             )}
 
+            {/* Unfinished Run */}
+            {savedRun && step === 'input' && (
+              <div
+                style={{
+                  background: '#fef3c7',
+                  padding: 'var(--spacing-md)',
+                  borderRadius: 'var(--radius-md)',
+                  marginBottom: 'var(--spacing-lg)',
+                  fontSize: 'var(--text-sm)',
+                  color: '#92400e',
+                }}
+              >
+                <p style={{ marginBottom: 'var(--spacing-xs)' }}>
+                  <strong>Your last Buy All didn&apos;t finish</strong>
+                </p>
+                <p style={{ fontSize: 'var(--text-xs)', marginBottom: 'var(--spacing-sm)' }}>
+                  Started {new Date(savedRun.createdAt).toLocaleString()} with {savedRun.payToken.symbol}:{' '}
+                  {savedRun.coins.filter((coin) => coin.status === 'success').length} bought,{' '}
+                  {savedRun.coins.filter((coin) => coin.status === 'pending').length} remaining,{' '}
+                  {getSubmittedCoins(savedRun).length} awaiting confirmation,{' '}
+                  {savedRun.coins.filter((coin) => coin.status === 'failed').length} failed.
+                  Coins awaiting confirmation were sent before the app closed and aren&apos;t bought again.
+                </p>
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: 'var(--spacing-sm)' }}>
+                  {getRemainingCoins(savedRun).length > 0 && (
+                    <button
+                      onClick={() => handleResume('remaining')}
+                      className="btn-primary"
+                      style={{ fontSize: 'var(--text-xs)', padding: 'var(--spacing-xs) var(--spacing-sm)' }}
+                      disabled={!isConnected}
+                    >
+                      Resume remaining {getRemainingCoins(savedRun).length} coins
+                    </button>
+                  )}
+                  {getFailedCoins(savedRun).length > 0 && (
+                    <button
+                      onClick={() => handleResume('failed')}
+                      className="btn-secondary"
+                      style={{ fontSize: 'var(--text-xs)', padding: 'var(--spacing-xs) var(--spacing-sm)' }}
+                      disabled={!isConnected}
+                    >
+                      Retry failed only ({getFailedCoins(savedRun).length})
+                    </button>
+                  )}
+                  {getSubmittedCoins(savedRun).length > 0 && (
+                    <button
+                      onClick={handleCheckSubmitted}
+                      className="btn-secondary"
+                      style={{ fontSize: 'var(--text-xs)', padding: 'var(--spacing-xs) var(--spacing-sm)' }}
+                      disabled={!isConnected || checkingRun}
+                    >
+                      {checkingRun ? 'Checking...' : `Check status (${getSubmittedCoins(savedRun).length})`}
+                    </button>
+                  )}
+                  <button
+                    onClick={handleDismissRun}
+                    style={{
+                      background: 'none',
+                      border: 'none',
+                      padding: 0,
+                      fontSize: 'var(--text-xs)',
+                      color: '#92400e',
+                      textDecoration: 'underline',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    Dismiss
+                  </button>
+                </div>
+              </div>
+            )}
+
             {/* Description */}
             <div
               style={{
@@ -496,14 +956,23 @@ export function BuyAllModal({ isOpen, onClose, profiles }: BuyAllModalProps) {
               }}
             >
               <p style={{ marginBottom: 'var(--spacing-xs)' }}>
-                <strong>Buy equal shares of all creator coins in the directory!</strong>
+                <strong>Buy a share of every creator coin in the directory!</strong>
               </p>
               <p style={{ fontSize: 'var(--text-xs)', color: 'var(--text-secondary)' }}>
-                This will execute multiple transactions (one per coin). Each purchase happens
-                sequentially with progress tracking.
+                {executionMode === 'batched'
+                  ? 'Every purchase is sent as one transaction: either all coins are bought or none are.'
+                  : 'This will execute multiple transactions (one per coin). Each purchase happens sequentially with progress tracking. If you stop midway, coins already bought are kept.'}
               </p>
             </div>
 
+            {/* Pay With */}
+            <PayTokenSelector
+              tokens={payTokens}
+              value={payToken}
+              onChange={handlePayTokenChange}
+              disabled={isProcessing}
+            />
+
             {/* Amount Input */}
             <div style={{ marginBottom: 'var(--spacing-lg)' }}>
               <label
@@ -515,13 +984,13 @@ export function BuyAllModal({ isOpen, onClose, profiles }: BuyAllModalProps) {
                   marginBottom: 'var(--spacing-sm)',
                 }}
               >
-                Total Amount (USDC)
+                Total Amount ({payToken.symbol})
               </label>
               <input
                 type="text"
                 value={amount}
                 onChange={handleAmountChange}
-                placeholder={`Min: ${MIN_AMOUNT}`}
+                placeholder={isUsdc ? `Min: ${MIN_AMOUNT}` : `Min: $${MIN_AMOUNT} worth`}
                 disabled={isProcessing}
                 style={{
                   width: '100%',
@@ -534,7 +1003,7 @@ export function BuyAllModal({ isOpen, onClose, profiles }: BuyAllModalProps) {
                   background: isProcessing ? 'var(--ice-blue)' : 'var(--white)',
                 }}
               />
-              {usdcBalance !== undefined && (
+              {payBalance !== undefined && (
                 <div
                   style={{
                     fontSize: 'var(--text-sm)',
@@ -542,7 +1011,160 @@ export function BuyAllModal({ isOpen, onClose, profiles }: BuyAllModalProps) {
                     marginTop: 'var(--spacing-xs)',
                   }}
                 >
-                  Balance: {formatUnits(usdcBalance, 6)} USDC
+                  Balance: {formatUnits(payBalance, payToken.decimals)} {payToken.symbol}
+                </div>
+              )}
+              {!isUsdc && amount && parseFloat(amount) > 0 && (
+                <div
+                  style={{
+                    fontSize: 'var(--text-sm)',
+                    color: 'var(--text-secondary)',
+                    marginTop: 'var(--spacing-xs)',
+                  }}
+                >
+                  {usdEstimate !== null ? `≈ ${formatUsdPrice(usdEstimate)}` : 'Estimating USD value...'}
+                </div>
+              )}
+            </div>
+
+            {/* Allocation Strategy */}
+            <div style={{ marginBottom: 'var(--spacing-lg)' }}>
+              <label
+                style={{
+                  display: 'block',
+                  fontSize: 'var(--text-sm)',
+                  fontWeight: 'var(--font-semibold)',
+                  color: 'var(--deep-blue)',
+                  marginBottom: 'var(--spacing-sm)',
+                }}
+              >
+                Allocation
+              </label>
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: 'var(--spacing-sm)' }}>
+                {ALLOCATION_STRATEGIES.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => setStrategy(option.value)}
+                    disabled={isProcessing}
+                    style={{
+                      padding: 'var(--spacing-xs) var(--spacing-md)',
+                      fontSize: 'var(--text-sm)',
+                      fontWeight: 'var(--font-semibold)',
+                      border: `2px solid ${strategy === option.value ? 'var(--toby-blue)' : '#d1d5db'}`,
+                      borderRadius: 'var(--radius-md)',
+                      background: strategy === option.value ? 'var(--ice-blue)' : 'var(--white)',
+                      color: strategy === option.value ? 'var(--deep-blue)' : 'var(--text-secondary)',
+                      cursor: isProcessing ? 'not-allowed' : 'pointer',
+                      transition: 'all var(--transition-fast)',
+                    }}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              <div
+                style={{
+                  fontSize: 'var(--text-xs)',
+                  color: 'var(--text-secondary)',
+                  marginTop: 'var(--spacing-xs)',
+                }}
+              >
+                {strategyInfo?.description}
+                {strategy === 'unowned' && !ownedCoins && userAddress && ' • Checking your holdings...'}
+                {strategy === 'unowned' && !userAddress && ' • Connect your wallet to check holdings'}
+              </div>
+
+              {strategy === 'newest' && (
+                <div
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: 'var(--spacing-sm)',
+                    marginTop: 'var(--spacing-sm)',
+                    fontSize: 'var(--text-sm)',
+                    color: 'var(--text-secondary)',
+                  }}
+                >
+                  <span>Newest</span>
+                  <input
+                    type="number"
+                    value={newestCount}
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value, 10);
+                      if (!isNaN(value) && value >= 1) {
+                        setNewestCount(value);
+                      }
+                    }}
+                    min="1"
+                    step="1"
+                    disabled={isProcessing}
+                    style={{
+                      width: '80px',
+                      padding: 'var(--spacing-xs) var(--spacing-sm)',
+                      fontSize: 'var(--text-sm)',
+                      border: '1px solid #d1d5db',
+                      borderRadius: 'var(--radius-md)',
+                      outline: 'none',
+                    }}
+                  />
+                  <span>toads</span>
+                </div>
+              )}
+
+              {strategy === 'custom' && (
+                <div
+                  style={{
+                    marginTop: 'var(--spacing-sm)',
+                    maxHeight: '200px',
+                    overflowY: 'auto',
+                    border: '1px solid #d1d5db',
+                    borderRadius: 'var(--radius-md)',
+                    padding: 'var(--spacing-sm)',
+                  }}
+                >
+                  <div
+                    style={{
+                      fontSize: 'var(--text-xs)',
+                      color: 'var(--text-secondary)',
+                      marginBottom: 'var(--spacing-xs)',
+                    }}
+                  >
+                    Weights are relative. Set 0 to skip a coin.
+                  </div>
+                  {candidateCoins.map((coin) => (
+                    <div
+                      key={coin.address}
+                      style={{
+                        display: 'flex',
+                        justifyContent: 'space-between',
+                        alignItems: 'center',
+                        gap: 'var(--spacing-sm)',
+                        padding: 'var(--spacing-xs) 0',
+                        fontSize: 'var(--text-xs)',
+                        color: 'var(--text-secondary)',
+                      }}
+                    >
+                      <span>
+                        {coin.username} ({coin.symbol})
+                      </span>
+                      <input
+                        type="number"
+                        value={customWeights[coin.address.toLowerCase()] ?? 1}
+                        onChange={(e) => handleCustomWeightChange(coin.address, e.target.value)}
+                        min="0"
+                        step="1"
+                        disabled={isProcessing}
+                        style={{
+                          width: '64px',
+                          padding: '2px var(--spacing-xs)',
+                          fontSize: 'var(--text-xs)',
+                          border: '1px solid #d1d5db',
+                          borderRadius: 'var(--radius-sm)',
+                          outline: 'none',
+                        }}
+                      />
+                    </div>
+                  ))}
                 </div>
               )}
             </div>
@@ -579,10 +1201,10 @@ export function BuyAllModal({ isOpen, onClose, profiles }: BuyAllModalProps) {
                   }}
                 >
                   <span style={{ color: 'var(--text-secondary)', fontSize: 'var(--text-sm)' }}>
-                    Per coin:
+                    Allocation:
                   </span>
                   <span style={{ fontWeight: 'var(--font-semibold)', color: 'var(--deep-blue)' }}>
-                    ${amountPerCoin} USDC
+                    {strategyInfo?.label}
                   </span>
                 </div>
                 <div style={{ display: 'flex', justifyContent: 'space-between' }}>
@@ -596,9 +1218,27 @@ export function BuyAllModal({ isOpen, onClose, profiles }: BuyAllModalProps) {
                       color: 'var(--deep-blue)',
                     }}
                   >
-                    ${formatUnits(quote.totalUSDC, 6)} USDC
+                    {formatPayAmount(quote.totalAmountIn)}
                   </span>
                 </div>
+                {isConnected && (
+                  <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: 'var(--spacing-xs)' }}>
+                    <span style={{ color: 'var(--text-secondary)', fontSize: 'var(--text-sm)' }}>
+                      Network fees:
+                    </span>
+                    <span style={{ color: 'var(--deep-blue)', fontSize: 'var(--text-sm)' }}>
+                      {networkFee
+                        ? `${formatNetworkFee(networkFee)} across ${networkFee.transactions} transaction${networkFee.transactions === 1 ? '' : 's'}${networkFee.estimated ? '' : ' (typical)'}`
+                        : 'Estimating...'}
+                    </span>
+                  </div>
+                )}
+                {hasInsufficientGas && networkFee && (
+                  <div style={{ fontSize: 'var(--text-xs)', color: '#dc2626', marginTop: 'var(--spacing-xs)' }}>
+                    ⚠️ Not enough ETH on Base for gas: Buy All needs about {formatNetworkFee(networkFee)} in fees
+                    {isNativeEth(quote.payToken.address) && " on top of the ETH you're paying"}. Purchases will likely fail.
+                  </div>
+                )}
               </div>
             )}
 
@@ -716,11 +1356,59 @@ export function BuyAllModal({ isOpen, onClose, profiles }: BuyAllModalProps) {
                     marginBottom: 'var(--spacing-sm)',
                   }}
                 >
-                  Coins to purchase ({quote.numberOfCoins}):
+                  Coins to purchase ({quote.numberOfCoins}) - preview:
                 </div>
                 <div
                   style={{
-                    maxHeight: '150px',
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'center',
+                    gap: 'var(--spacing-sm)',
+                    fontSize: 'var(--text-xs)',
+                    color: 'var(--text-secondary)',
+                    marginBottom: 'var(--spacing-xs)',
+                  }}
+                >
+                  <span>
+                    {isPreflighting
+                      ? '⏳ Checking quotes...'
+                      : preflight
+                        ? flaggedCoins.length > 0
+                          ? `⚠️ ${flaggedCoins.length} coin${flaggedCoins.length !== 1 ? 's' : ''} with no liquidity or over ${(MAX_PRICE_IMPACT * 100).toFixed(0)}% price impact`
+                          : '✓ All coins quoted'
+                        : isConnected
+                          ? 'Quotes load before you buy'
+                          : 'Connect your wallet to check quotes'}
+                  </span>
+                  {flaggedCoins.length > 0 && !isPreflighting && (
+                    <button
+                      onClick={() =>
+                        setExcludedCoins((excluded) => {
+                          const next = new Set(excluded);
+                          flaggedCoins.forEach((coin) => next.add(coin.address.toLowerCase()));
+                          return next;
+                        })
+                      }
+                      disabled={isProcessing}
+                      style={{
+                        padding: '2px var(--spacing-sm)',
+                        fontSize: 'var(--text-xs)',
+                        fontWeight: 'var(--font-semibold)',
+                        border: '1px solid #ef4444',
+                        borderRadius: 'var(--radius-sm)',
+                        background: 'var(--white)',
+                        color: '#991b1b',
+                        cursor: isProcessing ? 'not-allowed' : 'pointer',
+                        whiteSpace: 'nowrap',
+                      }}
+                    >
+                      Exclude flagged
+                    </button>
+                  )}
+                </div>
+                <div
+                  style={{
+                    maxHeight: '200px',
                     overflowY: 'auto',
                     background: 'var(--white)',
                     border: '1px solid #d1d5db',
@@ -728,21 +1416,90 @@ export function BuyAllModal({ isOpen, onClose, profiles }: BuyAllModalProps) {
                     padding: 'var(--spacing-sm)',
                   }}
                 >
-                  {quote.coins.map((coin, i) => (
-                    <div
-                      key={i}
+                  {quote.coins.map((coin, i) => {
+                    const check = coinChecks.get(coin.address.toLowerCase());
+                    const warning = describeCheck(check);
+
+                    return (
+                      <div
+                        key={coin.address}
+                        style={{
+                          fontSize: 'var(--text-xs)',
+                          color: 'var(--text-secondary)',
+                          padding: 'var(--spacing-xs) 0',
+                          borderBottom:
+                            i < quote.coins.length - 1 ? '1px solid #f3f4f6' : 'none',
+                        }}
+                      >
+                        <div style={{ display: 'flex', justifyContent: 'space-between', gap: 'var(--spacing-sm)' }}>
+                          <span>
+                            {coin.username} ({coin.symbol})
+                          </span>
+                          <span style={{ color: 'var(--deep-blue)', whiteSpace: 'nowrap' }}>
+                            {formatPayAmount(coin.amountIn)} · {(coin.share * 100).toFixed(1)}%
+                          </span>
+                        </div>
+                        <div style={{ display: 'flex', justifyContent: 'space-between', gap: 'var(--spacing-sm)' }}>
+                          <span style={{ color: warning ? '#991b1b' : 'var(--text-secondary)' }}>
+                            {check?.expectedOut
+                              ? `≈ ${Number(formatUnits(check.expectedOut, 18)).toLocaleString('en-US', { maximumFractionDigits: 2 })} ${coin.symbol}`
+                              : ''}
+                            {warning && `${check?.expectedOut ? ' · ' : ''}⚠️ ${warning}`}
+                          </span>
+                          <button
+                            onClick={() => toggleExcluded(coin.address)}
+                            disabled={isProcessing}
+                            style={{
+                              background: 'none',
+                              border: 'none',
+                              padding: 0,
+                              fontSize: 'var(--text-xs)',
+                              color: 'var(--toby-blue)',
+                              textDecoration: 'underline',
+                              cursor: isProcessing ? 'not-allowed' : 'pointer',
+                            }}
+                          >
+                            Exclude
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {/* Excluded Coins */}
+            {excludedList.length > 0 && (
+              <div
+                style={{
+                  fontSize: 'var(--text-xs)',
+                  color: 'var(--text-secondary)',
+                  marginBottom: 'var(--spacing-lg)',
+                }}
+              >
+                Excluded ({excludedList.length}):{' '}
+                {excludedList.map((coin, i) => (
+                  <span key={coin.address}>
+                    {i > 0 && ', '}
+                    {coin.username}{' '}
+                    <button
+                      onClick={() => toggleExcluded(coin.address)}
+                      disabled={isProcessing}
                       style={{
+                        background: 'none',
+                        border: 'none',
+                        padding: 0,
                         fontSize: 'var(--text-xs)',
-                        color: 'var(--text-secondary)',
-                        padding: 'var(--spacing-xs) 0',
-                        borderBottom:
-                          i < quote.coins.length - 1 ? '1px solid #f3f4f6' : 'none',
+                        color: 'var(--toby-blue)',
+                        textDecoration: 'underline',
+                        cursor: isProcessing ? 'not-allowed' : 'pointer',
                       }}
                     >
-                      {coin.username} ({coin.symbol})
-                    </div>
-                  ))}
-                </div>
+                      (include)
+                    </button>
+                  </span>
+                ))}
               </div>
             )}
 
@@ -764,11 +1521,13 @@ export function BuyAllModal({ isOpen, onClose, profiles }: BuyAllModalProps) {
                     marginBottom: 'var(--spacing-sm)',
                   }}
                 >
-                  ⏳ Purchasing coins... {progress.completed} of {progress.total}
+                  {executionMode === 'batched'
+                    ? `⏳ Buying ${progress.total} coins in one transaction...`
+                    : `⏳ Purchasing coins... ${progress.completed} of ${progress.total}`}
                 </div>
                 {progress.current && (
                   <div style={{ fontSize: 'var(--text-xs)', color: '#1e40af' }}>
-                    Current: {progress.current}
+                    {executionMode === 'batched' ? progress.current : `Current: ${progress.current}`}
                   </div>
                 )}
                 <div
@@ -822,7 +1581,7 @@ export function BuyAllModal({ isOpen, onClose, profiles }: BuyAllModalProps) {
                 onClick={handleBuyAll}
                 className="btn-primary"
                 style={{ flex: 1 }}
-                disabled={isProcessing || !isConnected || !quote || parseFloat(amount) < MIN_AMOUNT}
+                disabled={isProcessing || !isConnected || !quote || !meetsMinimum || !preflightReady}
               >
                 {isProcessing ? 'Processing...' : 'Buy All'}
               </button>
@@ -837,7 +1596,8 @@ export function BuyAllModal({ isOpen, onClose, profiles }: BuyAllModalProps) {
                 textAlign: 'center',
               }}
             >
-              Powered by Zora • Multiple transactions will be executed
+              Powered by Zora •{' '}
+              {executionMode === 'batched' ? 'One atomic transaction' : 'Multiple transactions will be executed'}
             </div>
           </>
         )}
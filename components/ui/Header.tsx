@@ -30,6 +30,36 @@ export function Header() {
         >
           Directory
         </Link>
+        <Link 
+          href="/portfolio"
+          style={{
+            fontWeight: pathname === '/portfolio' ? 'var(--font-bold)' : 'var(--font-medium)',
+            borderBottom: pathname === '/portfolio' ? '3px solid var(--toby-blue)' : 'none',
+            paddingBottom: 'var(--spacing-xs)',
+          }}
+        >
+          Portfolio
+        </Link>
+        <Link 
+          href="/dca"
+          style={{
+            fontWeight: pathname === '/dca' ? 'var(--font-bold)' : 'var(--font-medium)',
+            borderBottom: pathname === '/dca' ? '3px solid var(--toby-blue)' : 'none',
+            paddingBottom: 'var(--spacing-xs)',
+          }}
+        >
+          DCA
+        </Link>
+        <Link 
+          href="/history"
+          style={{
+            fontWeight: pathname === '/history' ? 'var(--font-bold)' : 'var(--font-medium)',
+            borderBottom: pathname === '/history' ? '3px solid var(--toby-blue)' : 'none',
+            paddingBottom: 'var(--spacing-xs)',
+          }}
+        >
+          History
+        </Link>
         <Link 
           href="/profile/edit"
           style={{
@@ -0,0 +1,77 @@
+'use client';
+
+import React from 'react';
+import { PayToken, BASE_PAY_TOKENS, isSameToken } from '@/lib/swap-constants';
+
+interface PayTokenSelectorProps {
+  tokens: PayToken[];
+  value: PayToken;
+  onChange: (token: PayToken) => void;
+  excludeAddress?: string; // Hides a token, e.g. the coin being bought
+  disabled?: boolean;
+}
+
+export function PayTokenSelector({
+  tokens,
+  value,
+  onChange,
+  excludeAddress,
+  disabled = false,
+}: PayTokenSelectorProps) {
+  const options = tokens.filter(
+    (token) => !excludeAddress || !isSameToken(token.address, excludeAddress)
+  );
+  const baseTokens = options.filter((token) => BASE_PAY_TOKENS.includes(token));
+  const coinTokens = options.filter((token) => !BASE_PAY_TOKENS.includes(token));
+
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const token = options.find((option) => option.address === e.target.value);
+    if (token) onChange(token);
+  };
+
+  return (
+    <div style={{ marginBottom: 'var(--spacing-lg)' }}>
+      <label style={{
+        display: 'block',
+        fontSize: 'var(--text-sm)',
+        fontWeight: 'var(--font-semibold)',
+        color: 'var(--deep-blue)',
+        marginBottom: 'var(--spacing-sm)',
+      }}>
+        Pay With
+      </label>
+      <select
+        value={value.address}
+        onChange={handleChange}
+        disabled={disabled}
+        style={{
+          width: '100%',
+          padding: 'var(--spacing-sm) var(--spacing-md)',
+          fontSize: 'var(--text-base)',
+          fontWeight: 'var(--font-semibold)',
+          color: 'var(--deep-blue)',
+          border: '2px solid var(--toby-blue)',
+          borderRadius: 'var(--radius-md)',
+          background: disabled ? 'var(--ice-blue)' : 'var(--white)',
+          cursor: disabled ? 'not-allowed' : 'pointer',
+          outline: 'none',
+        }}
+      >
+        {baseTokens.map((token) => (
+          <option key={token.address} value={token.address}>
+            {token.symbol}
+          </option>
+        ))}
+        {coinTokens.length > 0 && (
+          <optgroup label="Toad coins">
+            {coinTokens.map((token) => (
+              <option key={token.address} value={token.address}>
+                ${token.symbol}
+              </option>
+            ))}
+          </optgroup>
+        )}
+      </select>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState, useRef, useEffect } from 'react';
-import { SwapModal } from './SwapModal';
+import { SwapModal, SwapMode } from './SwapModal';
 import { 
   SWAP_AMOUNTS, 
   isValidTokenAddress, 
@@ -15,6 +15,7 @@ interface SwapButtonProps {
   className?: string;
   style?: React.CSSProperties;
   compactMode?: boolean; // If true, shows simple "Buy 1 USDC" without dropdown
+  mode?: SwapMode; // Compact mode only: 'sell' opens the modal selling the coin for USDC
 }
 
 export function SwapButton({
@@ -24,8 +25,10 @@ export function SwapButton({
   className = '',
   style = {},
   compactMode = false,
+  mode = 'buy',
 }: SwapButtonProps) {
   const [selectedAmount, setSelectedAmount] = useState<number>(1);
+  const [modalMode, setModalMode] = useState<SwapMode>(mode);
   const [showDropdown, setShowDropdown] = useState(false);
   const [showSwapModal, setShowSwapModal] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -60,7 +63,7 @@ export function SwapButton({
     }
   }, [showDropdown]);
 
-  const handleSwap = async (amount: number) => {
+  const handleSwap = async (amount: number, swapMode: SwapMode = 'buy') => {
     // Validate chain ID
     if (!isValidChainId(chainId)) {
       setError('Only Base chain (8453) is supported');
@@ -75,6 +78,7 @@ export function SwapButton({
 
     // Open the swap modal
     setSelectedAmount(amount);
+    setModalMode(swapMode);
     setShowSwapModal(true);
     setShowDropdown(false);
   };
@@ -84,8 +88,8 @@ export function SwapButton({
     e.stopPropagation();
 
     if (compactMode) {
-      // In compact mode, directly trigger swap with 1 USDC
-      handleSwap(1);
+      // In compact mode, directly trigger swap with 1 USDC (or open the sell flow)
+      handleSwap(1, mode);
     } else {
       // In full mode, toggle dropdown
       setShowDropdown(!showDropdown);
@@ -99,6 +103,12 @@ export function SwapButton({
     handleSwap(amount);
   };
 
+  const handleSellSelect = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    handleSwap(selectedAmount, 'sell');
+  };
+
   // Compact mode (for directory cards)
   if (compactMode) {
     return (
@@ -108,7 +118,7 @@ export function SwapButton({
           className={`btn-buy-compact ${className}`}
           style={style}
         >
-          Buy 1 USDC
+          {mode === 'sell' ? 'Sell' : 'Buy 1 USDC'}
         </button>
         {error && (
           <p style={{ 
@@ -126,6 +136,7 @@ export function SwapButton({
           tokenSymbol={tokenSymbol}
           chainId={chainId}
           defaultAmount={1}
+          defaultMode={modalMode}
         />
       </>
     );
@@ -193,6 +204,24 @@ export function SwapButton({
               {selectedAmount === amount && <span>✓</span>}
             </button>
           ))}
+          <button
+            onClick={handleSellSelect}
+            className="swap-dropdown-option"
+            style={{
+              width: '100%',
+              padding: 'var(--spacing-md)',
+              background: 'transparent',
+              border: 'none',
+              fontSize: 'var(--text-base)',
+              fontWeight: 'var(--font-semibold)',
+              color: 'var(--deep-blue)',
+              cursor: 'pointer',
+              transition: 'all var(--transition-fast)',
+              textAlign: 'left',
+            }}
+          >
+            Sell {tokenSymbol ? `$${tokenSymbol}` : 'coin'} for USDC
+          </button>
         </div>
       )}
 
@@ -213,6 +242,7 @@ export function SwapButton({
         tokenSymbol={tokenSymbol}
         chainId={chainId}
         defaultAmount={selectedAmount}
+        defaultMode={modalMode}
       />
     </div>
   );
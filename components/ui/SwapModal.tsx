@@ -1,44 +1,47 @@
 'use client';
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { createPortal } from 'react-dom';
-import { useAccount, useWalletClient, usePublicClient, useReadContract } from 'wagmi';
+import Link from 'next/link';
+import { useAccount, useWalletClient, usePublicClient } from 'wagmi';
 import { parseUnits, formatUnits, Address } from 'viem';
 import { base } from 'wagmi/chains';
-import { USDC_ADDRESS, SLIPPAGE_TIERS, DEFAULT_SLIPPAGE_MODE, DEFAULT_CUSTOM_SLIPPAGE } from '@/lib/swap-constants';
-import { executeTrade, SlippageMode, formatSlippage, getSlippageDisplay } from '@/lib/zora-trade-helpers';
+import {
+  USDC_ADDRESS,
+  ZORA_ADDRESS,
+  USDC_PAY_TOKEN,
+  ETH_PAY_TOKEN,
+  BASE_PAY_TOKENS,
+  ETH_GAS_RESERVE_WEI,
+  SLIPPAGE_TIERS,
+  DEFAULT_SLIPPAGE_MODE,
+  DEFAULT_CUSTOM_SLIPPAGE,
+  PayToken,
+  isNativeEth,
+  isSameToken,
+} from '@/lib/swap-constants';
+import { executeTrade, SlippageMode, formatSlippage, getSlippageDisplay, getMaxSlippage } from '@/lib/zora-trade-helpers';
+import {
+  fetchDetailedQuote,
+  getQuoteOption,
+  hasExecutableOption,
+  DetailedQuote,
+  QuoteOption,
+  SWAP_PROVIDER_LABELS,
+  isQuoteStale,
+  getQuoteChangeBps,
+  QUOTE_REFRESH_INTERVAL_MS,
+  QUOTE_CHANGE_CONFIRM_BPS,
+} from '@/lib/quote-client';
+import { formatPriceImpact, formatPoolFee, formatPoolSelection, getPriceImpactLevel, PriceImpactLevel, SwapProvider } from '@/lib/price-impact';
+import { executeQuotedTrade } from '@/lib/provider-trade-helpers';
+import { estimateSwapGas, getNetworkFee, getEthRequired, formatNetworkFee, NetworkFee } from '@/lib/gas-helpers';
 import { fetchTokenInfo } from '@/lib/token-helpers';
+import { recordTrade } from '@/lib/trades-client';
+import { usePayTokens, usePayTokenBalance } from '@/lib/usePayTokens';
+import { PayTokenSelector } from './PayTokenSelector';
 
-// ERC-20 ABI for approve function
-const ERC20_ABI = [
-  {
-    name: 'approve',
-    type: 'function',
-    stateMutability: 'nonpayable',
-    inputs: [
-      { name: 'spender', type: 'address' },
-      { name: 'amount', type: 'uint256' },
-    ],
-    outputs: [{ name: '', type: 'bool' }],
-  },
-  {
-    name: 'allowance',
-    type: 'function',
-    stateMutability: 'view',
-    inputs: [
-      { name: 'owner', type: 'address' },
-      { name: 'spender', type: 'address' },
-    ],
-    outputs: [{ name: '', type: 'uint256' }],
-  },
-  {
-    name: 'balanceOf',
-    type: 'function',
-    stateMutability: 'view',
-    inputs: [{ name: 'account', type: 'address' }],
-    outputs: [{ name: '', type: 'uint256' }],
-  },
-] as const;
+export type SwapMode = 'buy' | 'sell';
 
 interface SwapModalProps {
   isOpen: boolean;
@@ -46,14 +49,34 @@ interface SwapModalProps {
   tokenAddress: string;
   tokenSymbol?: string;
   chainId: number;
-  defaultAmount?: number;
+  defaultAmount?: number; // USDC amount pre-filled when buying with USDC
+  defaultMode?: SwapMode;
 }
 
+// Quick-fill percentages of the input balance
+const BALANCE_PERCENTAGES = [25, 50, 75, 100] as const;
+
 type SwapStep = 'input' | 'swapping' | 'success' | 'error';
 
-interface QuoteResult {
-  amountOut: bigint;
-  exchangeRate: string;
+interface QuoteResult extends DetailedQuote {
+  amountIn: bigint;
+  midRate: string | null; // Output per 1 input at the mid-price
+}
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+const PRICE_IMPACT_COLORS: Record<PriceImpactLevel, string> = {
+  low: 'var(--text-secondary)',
+  warning: '#ea580c',
+  high: '#dc2626',
+};
+
+function shortenAddress(address: string): string {
+  return `${address.slice(0, 6)}…${address.slice(-4)}`;
+}
+
+function formatQuoteChange(changeBps: number): string {
+  return `${changeBps > 0 ? '+' : ''}${(changeBps / 100).toFixed(2)}%`;
 }
 
 export function SwapModal({
@@ -63,13 +86,28 @@ export function SwapModal({
   tokenSymbol = 'TOKEN',
   chainId,
   defaultAmount = 1,
+  defaultMode = 'buy',
 }: SwapModalProps) {
-  const [amount, setAmount] = useState<string>(defaultAmount.toString());
+  const [mode, setMode] = useState<SwapMode>(defaultMode);
+  const [payToken, setPayToken] = useState<PayToken>(USDC_PAY_TOKEN);
+  const [amount, setAmount] = useState<string>(defaultMode === 'buy' ? defaultAmount.toString() : '');
   const [step, setStep] = useState<SwapStep>('input');
   const [error, setError] = useState<string | null>(null);
   const [txHash, setTxHash] = useState<string | null>(null);
   const [quote, setQuote] = useState<QuoteResult | null>(null);
+  const [selectedProvider, setSelectedProvider] = useState<SwapProvider | null>(null); // null = best quote
   const [isLoadingQuote, setIsLoadingQuote] = useState<boolean>(false);
+  const [isRefreshingQuote, setIsRefreshingQuote] = useState<boolean>(false);
+  // Set when a stale quote was re-quoted at swap time and moved enough to confirm
+  // previousProvider is set when the chosen provider dropped out of the re-quote
+  const [priceChange, setPriceChange] = useState<{
+    changeBps: number;
+    previousAmountOut: bigint;
+    previousProvider?: SwapProvider;
+  } | null>(null);
+  const [now, setNow] = useState<number>(Date.now());
+  const quoteRequestRef = useRef(0); // Only the latest quote request updates state
+  const [networkFee, setNetworkFee] = useState<NetworkFee | null>(null);
   const [slippageMode, setSlippageMode] = useState<SlippageMode>(DEFAULT_SLIPPAGE_MODE);
   const [customSlippage, setCustomSlippage] = useState<number>(DEFAULT_CUSTOM_SLIPPAGE);
   const [mounted, setMounted] = useState(false);
@@ -93,27 +131,46 @@ export function SwapModal({
     setMounted(true);
   }, []);
   
-  // Get USDC balance
-  const { data: usdcBalanceData } = useReadContract({
-    address: USDC_ADDRESS,
-    abi: ERC20_ABI,
-    functionName: 'balanceOf',
-    args: userAddress ? [userAddress] : undefined,
-    chainId: base.id,
-  });
+  // Input/output depend on direction: buy = pay token → coin, sell = coin → USDC
+  const isSell = mode === 'sell';
+  const coinToken: PayToken = {
+    address: tokenAddress as Address,
+    symbol: tokenInfo.symbol,
+    decimals: tokenInfo.decimals,
+  };
+  const inputToken = isSell ? coinToken : payToken;
+  const outputToken = isSell ? USDC_PAY_TOKEN : coinToken;
+  const sellToken = inputToken.address;
+  const buyToken = outputToken.address as Address;
+  const inputDecimals = inputToken.decimals;
+  const outputDecimals = outputToken.decimals;
+  const inputSymbol = inputToken.symbol;
+  const outputSymbol = outputToken.symbol;
 
-  const usdcBalance = usdcBalanceData as bigint | undefined;
+  const payTokens = usePayTokens(isOpen);
+  const inputBalance = usePayTokenBalance(inputToken, userAddress);
+  const ethBalance = usePayTokenBalance(ETH_PAY_TOKEN, userAddress);
 
   // Helper function to get provider display name
-  const getProviderDisplay = (): string => {
-    return 'Powered by Zora';
+  const getProviderDisplay = (provider: SwapProvider): string => {
+    return `Powered by ${SWAP_PROVIDER_LABELS[provider]}`;
+  };
+
+  // Symbol for a token on the quote's route
+  const getRouteSymbol = (token: string): string => {
+    if (isSameToken(token, inputToken.address)) return inputSymbol;
+    if (isSameToken(token, outputToken.address)) return outputSymbol;
+    if (isSameToken(token, ZERO_ADDRESS)) return 'ETH';
+    if (isSameToken(token, ZORA_ADDRESS)) return 'ZORA';
+    const known = BASE_PAY_TOKENS.find((payToken) => isSameToken(payToken.address, token));
+    return known ? known.symbol : shortenAddress(token);
   };
 
-  // Helper function to calculate exchange rate
+  // Helper function to calculate exchange rate (output per 1 input token)
   const calculateExchangeRate = (amountIn: bigint, amountOut: bigint): string => {
     if (amountIn === 0n) return '0';
-    const inputAmount = parseFloat(formatUnits(amountIn, 6)); // USDC has 6 decimals
-    const outputAmount = parseFloat(formatUnits(amountOut, tokenInfo.decimals));
+    const inputAmount = parseFloat(formatUnits(amountIn, inputDecimals));
+    const outputAmount = parseFloat(formatUnits(amountOut, outputDecimals));
     
     if (inputAmount === 0) return '0';
     
@@ -132,67 +189,71 @@ export function SwapModal({
   };
 
   // Define executeSwap before the useEffects that use it
-  const fetchQuote = useCallback(async () => {
+  // A silent fetch is a background refresh: no loading state, and the current quote is kept on failure
+  const fetchQuote = useCallback(async (silent = false): Promise<QuoteResult | null> => {
+    const requestId = ++quoteRequestRef.current;
+
     if (!userAddress || !amount || parseFloat(amount) <= 0) {
       setQuote(null);
-      return;
+      return null;
     }
 
     try {
-      setIsLoadingQuote(true);
-      setError(null);
+      if (silent) {
+        setIsRefreshingQuote(true);
+      } else {
+        setIsLoadingQuote(true);
+        setError(null);
+      }
 
-      const amountIn = parseUnits(amount, 6); // USDC has 6 decimals
-      
-      // Fetch real quote from Zora API via our API route
-      const response = await fetch('/api/quote', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          sellToken: USDC_ADDRESS,
-          buyToken: tokenAddress,
-          sellAmount: amountIn.toString(),
+      const amountIn = parseUnits(amount, inputDecimals);
+
+      // Minimum output is shown for the most slippage the trade may use
+      const quoteResult = await fetchDetailedQuote(
+        {
+          sellToken,
+          buyToken,
+          sellAmount: amountIn,
           takerAddress: userAddress,
-        }),
-      });
+        },
+        getMaxSlippage(slippageMode, customSlippage)
+      );
 
-      if (!response.ok) {
-        // API error - log and set to null without throwing
-        console.error('[SwapModal] Quote API error:', {
-          status: response.status,
-          statusText: response.statusText,
-        });
-        setQuote(null);
-        return;
-      }
+      if (requestId !== quoteRequestRef.current) return null;
 
-      const data = await response.json();
-      const quoteResult = data.quote;
-      
       if (!quoteResult) {
         // Quote failed - set to null without throwing
         setQuote(null);
-        return;
+        return null;
       }
-      
-      const exchangeRate = calculateExchangeRate(amountIn, BigInt(quoteResult.buyAmount));
-      
-      setQuote({
-        amountOut: BigInt(quoteResult.buyAmount),
-        exchangeRate,
-      });
+
+      const result: QuoteResult = {
+        ...quoteResult,
+        amountIn,
+        midRate: quoteResult.midPrice
+          ? calculateExchangeRate(quoteResult.midPrice.amountIn, quoteResult.midPrice.amountOut)
+          : null,
+      };
+      setQuote(result);
+      setNow(Date.now());
+      return result;
     } catch (err) {
       console.error('Quote error:', err);
       // Set quote to null without showing error
-      setQuote(null);
+      if (!silent && requestId === quoteRequestRef.current) {
+        setQuote(null);
+      }
+      return null;
     } finally {
-      setIsLoadingQuote(false);
+      if (requestId === quoteRequestRef.current) {
+        setIsLoadingQuote(false);
+        setIsRefreshingQuote(false);
+      }
     }
-  }, [userAddress, amount, tokenAddress, chainId, tokenInfo.decimals]);
+  }, [userAddress, amount, sellToken, buyToken, inputDecimals, outputDecimals, slippageMode, customSlippage]);
 
-  const executeSwap = useCallback(async () => {
+  // Zora trades go through the SDK; other providers send the quote's prepared transaction
+  const executeSwap = useCallback(async (option: QuoteOption | null, quotedSlippage: number) => {
     try {
       if (!userAddress) throw new Error('No wallet connected');
       if (!walletClient) throw new Error('Wallet client not available');
@@ -202,28 +263,40 @@ export function SwapModal({
       setError(null);
       setStep('swapping');
       
-      const amountIn = parseUnits(amount, 6); // USDC has 6 decimals
+      const amountIn = parseUnits(amount, inputDecimals);
 
       // Get slippage value based on mode (customSlippage is in percentage, needs to be decimal)
       const slippage = slippageMode === 'manual' 
         ? customSlippage / 100 // Convert percentage to decimal
         : undefined; // Let executeTrade use auto mode
 
-      // Execute trade using Zora SDK
-      const result = await executeTrade({
-        sellAmount: amountIn,
-        buyToken: tokenAddress as Address,
-        userAddress,
-        slippageMode,
-        customSlippage,
-        walletClient,
-        account,
-        publicClient,
-      });
+      const result = option && option.provider !== 'zora'
+        ? await executeQuotedTrade({
+            option,
+            sellToken,
+            buyToken,
+            sellAmount: amountIn,
+            slippage: quotedSlippage,
+            walletClient,
+            account,
+            publicClient,
+          })
+        : await executeTrade({
+            sellAmount: amountIn,
+            sellToken,
+            buyToken,
+            userAddress,
+            slippageMode,
+            customSlippage,
+            walletClient,
+            account,
+            publicClient,
+          });
 
       if (result.success && result.txHash) {
         setTxHash(result.txHash);
         setStep('success');
+        void recordTrade(result.txHash, userAddress, result.slippageUsed);
       } else {
         throw new Error(result.error || 'Trade failed');
       }
@@ -232,7 +305,16 @@ export function SwapModal({
       setError(err instanceof Error ? err.message : 'Failed to execute swap');
       setStep('error');
     }
-  }, [userAddress, amount, tokenAddress, slippageMode, customSlippage, walletClient, account, publicClient]);
+  }, [userAddress, amount, sellToken, buyToken, inputDecimals, slippageMode, customSlippage, walletClient, account, publicClient]);
+
+  // Start in the requested direction each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setMode(defaultMode);
+      setPayToken(USDC_PAY_TOKEN);
+      setAmount(defaultMode === 'buy' ? defaultAmount.toString() : '');
+    }
+  }, [isOpen, defaultMode, defaultAmount]);
 
   // Fetch token info when modal opens
   useEffect(() => {
@@ -256,6 +338,8 @@ export function SwapModal({
   // Fetch quote when amount changes
   useEffect(() => {
     // Early return if conditions not met
+    setPriceChange(null);
+
     if (!isConnected || chain?.id !== base.id || !amount || parseFloat(amount) <= 0) {
       setQuote(null);
       return;
@@ -273,6 +357,83 @@ export function SwapModal({
     return () => clearTimeout(timer);
   }, [amount, isConnected, chain?.id, isLoadingTokenInfo, fetchQuote]);
 
+  // Refresh the quote in the background while it's shown
+  const hasQuote = quote !== null;
+  useEffect(() => {
+    if (!isOpen || step !== 'input' || !hasQuote || priceChange) return;
+
+    const interval = setInterval(() => {
+      fetchQuote(true);
+    }, QUOTE_REFRESH_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isOpen, step, hasQuote, priceChange, fetchQuote]);
+
+  // Tick the refresh countdown
+  useEffect(() => {
+    if (!isOpen || !hasQuote) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isOpen, hasQuote]);
+
+  // Estimate the network fee for the selected provider's swap
+  useEffect(() => {
+    setNetworkFee(null);
+    if (!quote || !userAddress || !publicClient || step !== 'input') return;
+
+    let cancelled = false;
+
+    estimateSwapGas({
+      option: getQuoteOption(quote, selectedProvider),
+      sellToken,
+      buyToken,
+      sellAmount: quote.amountIn,
+      slippage: quote.slippage,
+      account: userAddress,
+      publicClient,
+    })
+      .then(({ swapGas, approvalGas, estimated, calls }) =>
+        getNetworkFee(swapGas + approvalGas, estimated, publicClient, { account: userAddress, calls })
+      )
+      .then((fee) => {
+        if (!cancelled) setNetworkFee(fee);
+      })
+      .catch((err) => {
+        console.error('[SwapModal] Error estimating network fee:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [quote, selectedProvider, userAddress, publicClient, step, sellToken, buyToken]);
+
+  const handleModeChange = (newMode: SwapMode) => {
+    if (newMode === mode) return;
+    setMode(newMode);
+    setAmount(newMode === 'buy' && payToken === USDC_PAY_TOKEN ? defaultAmount.toString() : '');
+    setQuote(null);
+    setError(null);
+  };
+
+  // Preset amounts are in USDC, so other pay tokens start empty
+  const handlePayTokenChange = (token: PayToken) => {
+    setPayToken(token);
+    setAmount(token === USDC_PAY_TOKEN ? defaultAmount.toString() : '');
+    setQuote(null);
+    setError(null);
+  };
+
+  // Fill the input with a share of the wallet's balance, keeping some ETH back for gas
+  const handlePercentage = (percentage: number) => {
+    if (inputBalance === undefined) return;
+    const spendable = isNativeEth(inputToken.address)
+      ? (inputBalance > ETH_GAS_RESERVE_WEI ? inputBalance - ETH_GAS_RESERVE_WEI : 0n)
+      : inputBalance;
+    const share = (spendable * BigInt(percentage)) / 100n;
+    setAmount(formatUnits(share, inputDecimals));
+  };
+
   const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
     // Allow only numbers and decimal point
@@ -297,31 +458,84 @@ export function SwapModal({
       return;
     }
 
-    const amountInWei = parseUnits(amount, 6);
+    const amountInWei = parseUnits(amount, inputDecimals);
     
     // Check balance
-    if (usdcBalance && amountInWei > usdcBalance) {
-      setError('Insufficient USDC balance');
+    if (inputBalance !== undefined && amountInWei > inputBalance) {
+      setError(`Insufficient ${inputSymbol} balance`);
       return;
     }
 
-    // Execute swap directly (Zora SDK handles approvals via permit)
-    executeSwap();
+    // Re-quote a stale price, and confirm with the user if it moved
+    let currentQuote = quote;
+    if (quote && isQuoteStale(quote)) {
+      const freshQuote = await fetchQuote();
+      if (!freshQuote) {
+        setError('Could not refresh the price. Please try again.');
+        return;
+      }
+
+      const previousOption = getQuoteOption(quote, selectedProvider);
+
+      // The chosen provider can't fill it anymore: fall back to the best quote, but only once confirmed
+      if (selectedProvider && !hasExecutableOption(freshQuote, selectedProvider)) {
+        console.log('[SwapModal] Selected provider dropped out of the quote:', selectedProvider);
+        setSelectedProvider(null);
+        setPriceChange({
+          changeBps: getQuoteChangeBps(previousOption.amountOut, getQuoteOption(freshQuote, null).amountOut),
+          previousAmountOut: previousOption.amountOut,
+          previousProvider: selectedProvider,
+        });
+        return;
+      }
+
+      const changeBps = getQuoteChangeBps(previousOption.amountOut, getQuoteOption(freshQuote, selectedProvider).amountOut);
+      const previousAmountOut = previousOption.amountOut;
+      if (Math.abs(changeBps) >= QUOTE_CHANGE_CONFIRM_BPS) {
+        console.log('[SwapModal] Price changed since last quote:', formatQuoteChange(changeBps));
+        setPriceChange({ changeBps, previousAmountOut });
+        return;
+      }
+      currentQuote = freshQuote;
+    }
+
+    // Execute swap directly (Zora SDK handles Permit2 approval and signature)
+    executeSwap(
+      currentQuote ? getQuoteOption(currentQuote, selectedProvider) : null,
+      currentQuote?.slippage ?? 0
+    );
+  };
+
+  const handleConfirmPriceChange = () => {
+    setPriceChange(null);
+    executeSwap(quote ? getQuoteOption(quote, selectedProvider) : null, quote?.slippage ?? 0);
   };
 
   const handleClose = () => {
     setStep('input');
     setError(null);
     setTxHash(null);
-    setAmount(defaultAmount.toString());
+    setMode(defaultMode);
+    setPayToken(USDC_PAY_TOKEN);
+    setAmount(defaultMode === 'buy' ? defaultAmount.toString() : '');
     setQuote(null);
     setIsLoadingQuote(false);
+    setPriceChange(null);
+    setSelectedProvider(null);
+    setNetworkFee(null);
     onClose();
   };
 
   if (!isOpen || !mounted) return null;
 
   const isProcessing = step === 'swapping';
+  const selectedQuote = quote ? getQuoteOption(quote, selectedProvider) : null;
+  // Warn (without blocking) when the wallet can't cover the fee, plus the input when paying with ETH
+  const hasInsufficientGas = networkFee !== null && quote !== null && ethBalance !== undefined &&
+    ethBalance < getEthRequired(networkFee, sellToken, quote.amountIn);
+  const refreshInSeconds = quote
+    ? Math.max(0, Math.ceil((quote.quotedAt + QUOTE_REFRESH_INTERVAL_MS - now) / 1000))
+    : 0;
 
   const modalContent = (
     <div
@@ -370,7 +584,7 @@ export function SwapModal({
             fontWeight: 'var(--font-bold)',
             color: 'var(--deep-blue)',
           }}>
-            Swap USDC
+            {isSell ? 'Sell' : 'Buy'} {tokenInfo.symbol}
           </h2>
           <button
             onClick={handleClose}
@@ -403,7 +617,7 @@ export function SwapModal({
               color: 'var(--text-secondary)', 
               marginBottom: 'var(--spacing-lg)',
             }}>
-              You swapped {amount} USDC for {tokenInfo.symbol}
+              You swapped {amount} {inputSymbol} for {outputSymbol}
             </p>
             {txHash && (
               <a
@@ -419,6 +633,15 @@ export function SwapModal({
                 View on Basescan
               </a>
             )}
+            <div style={{ marginTop: 'var(--spacing-sm)', fontSize: 'var(--text-sm)' }}>
+              <Link
+                href="/history"
+                onClick={handleClose}
+                style={{ color: 'var(--toby-blue)', textDecoration: 'underline' }}
+              >
+                View in history
+              </Link>
+            </div>
             <button
               onClick={handleClose}
               className="btn-primary"
@@ -487,6 +710,46 @@ export function SwapModal({
               </div>
             )}
 
+            {/* Buy / Sell Toggle */}
+            <div style={{
+              display: 'flex',
+              gap: 'var(--spacing-sm)',
+              marginBottom: 'var(--spacing-lg)',
+            }}>
+              {(['buy', 'sell'] as const).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => handleModeChange(option)}
+                  disabled={isProcessing}
+                  style={{
+                    flex: 1,
+                    padding: 'var(--spacing-sm)',
+                    fontSize: 'var(--text-base)',
+                    fontWeight: 'var(--font-semibold)',
+                    border: `2px solid ${mode === option ? 'var(--toby-blue)' : '#d1d5db'}`,
+                    borderRadius: 'var(--radius-md)',
+                    background: mode === option ? 'var(--ice-blue)' : 'var(--white)',
+                    color: mode === option ? 'var(--deep-blue)' : 'var(--text-secondary)',
+                    cursor: isProcessing ? 'not-allowed' : 'pointer',
+                    transition: 'all var(--transition-fast)',
+                  }}
+                >
+                  {option === 'buy' ? 'Buy' : 'Sell'}
+                </button>
+              ))}
+            </div>
+
+            {/* Pay With (buying only; sells always receive USDC) */}
+            {!isSell && (
+              <PayTokenSelector
+                tokens={payTokens}
+                value={payToken}
+                onChange={handlePayTokenChange}
+                excludeAddress={tokenAddress}
+                disabled={isProcessing}
+              />
+            )}
+
             {/* Amount Input */}
             <div style={{ marginBottom: 'var(--spacing-lg)' }}>
               <label style={{ 
@@ -496,7 +759,7 @@ export function SwapModal({
                 color: 'var(--deep-blue)',
                 marginBottom: 'var(--spacing-sm)',
               }}>
-                Amount (USDC)
+                Amount ({inputSymbol})
               </label>
               <input
                 type="text"
@@ -515,13 +778,39 @@ export function SwapModal({
                   background: isProcessing ? 'var(--ice-blue)' : 'var(--white)',
                 }}
               />
-              {usdcBalance !== undefined && (
+              {inputBalance !== undefined && (
                 <div style={{ 
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  alignItems: 'center',
+                  gap: 'var(--spacing-sm)',
+                  flexWrap: 'wrap',
                   fontSize: 'var(--text-sm)', 
                   color: 'var(--text-secondary)',
                   marginTop: 'var(--spacing-xs)',
                 }}>
-                  Balance: {formatUnits(usdcBalance, 6)} USDC
+                  <span>Balance: {formatUnits(inputBalance, inputDecimals)} {inputSymbol}</span>
+                  <div style={{ display: 'flex', gap: 'var(--spacing-xs)' }}>
+                    {BALANCE_PERCENTAGES.map((percentage) => (
+                      <button
+                        key={percentage}
+                        onClick={() => handlePercentage(percentage)}
+                        disabled={isProcessing || inputBalance === 0n}
+                        style={{
+                          padding: '2px var(--spacing-sm)',
+                          fontSize: 'var(--text-xs)',
+                          fontWeight: 'var(--font-semibold)',
+                          border: '1px solid var(--toby-blue)',
+                          borderRadius: 'var(--radius-sm)',
+                          background: 'var(--white)',
+                          color: 'var(--deep-blue)',
+                          cursor: isProcessing || inputBalance === 0n ? 'not-allowed' : 'pointer',
+                        }}
+                      >
+                        {percentage === 100 ? 'Max' : `${percentage}%`}
+                      </button>
+                    ))}
+                  </div>
                 </div>
               )}
             </div>
@@ -654,23 +943,153 @@ export function SwapModal({
                 </div>
               )}
               
-              {!isLoadingQuote && !isLoadingTokenInfo && quote && (
+              {!isLoadingQuote && !isLoadingTokenInfo && quote && selectedQuote && (
                 <>
                   <div style={{ 
                     fontSize: 'var(--text-lg)',
                     fontWeight: 'var(--font-semibold)',
                     color: 'var(--deep-blue)',
                   }}>
-                    ≈ {formatUnits(quote.amountOut, tokenInfo.decimals)} {tokenInfo.symbol}
+                    ≈ {formatUnits(selectedQuote.amountOut, outputDecimals)} {outputSymbol}
                   </div>
                   <div style={{ 
                     fontSize: 'var(--text-xs)',
                     color: 'var(--text-secondary)',
                     marginTop: 'var(--spacing-xs)',
                   }}>
-                    1 USDC ≈ {quote.exchangeRate} {tokenInfo.symbol}
+                    1 {inputSymbol} ≈ {calculateExchangeRate(quote.amountIn, selectedQuote.amountOut)} {outputSymbol}
+                    {quote.midRate && ` (market: ${quote.midRate})`}
                   </div>
-                  
+
+                  {/* Price impact, minimum received, network fee, pool fee and route */}
+                  <div style={{
+                    display: 'grid',
+                    gridTemplateColumns: 'auto 1fr',
+                    columnGap: 'var(--spacing-sm)',
+                    rowGap: '2px',
+                    fontSize: 'var(--text-xs)',
+                    color: 'var(--text-secondary)',
+                    marginTop: 'var(--spacing-sm)',
+                  }}>
+                    <span style={{ fontWeight: 'var(--font-semibold)' }}>Price impact:</span>
+                    <span style={{
+                      textAlign: 'right',
+                      color: selectedQuote.priceImpactBps !== null
+                        ? PRICE_IMPACT_COLORS[getPriceImpactLevel(selectedQuote.priceImpactBps)]
+                        : undefined,
+                    }}>
+                      {selectedQuote.priceImpactBps !== null ? formatPriceImpact(selectedQuote.priceImpactBps) : 'Unknown'}
+                    </span>
+
+                    <span style={{ fontWeight: 'var(--font-semibold)' }}>Minimum received:</span>
+                    <span style={{ textAlign: 'right' }}>
+                      {formatUnits(selectedQuote.minAmountOut, outputDecimals)} {outputSymbol} ({formatSlippage(quote.slippage)} slippage)
+                    </span>
+
+                    <span style={{ fontWeight: 'var(--font-semibold)' }}>Network fee:</span>
+                    <span style={{ textAlign: 'right' }}>
+                      {networkFee
+                        ? `${formatNetworkFee(networkFee)}${networkFee.estimated ? '' : ' (typical)'}`
+                        : 'Estimating...'}
+                    </span>
+
+                    {quote.pool && (
+                      <>
+                        <span style={{ fontWeight: 'var(--font-semibold)' }}>Pool fee:</span>
+                        <span style={{ textAlign: 'right' }}>
+                          {formatPoolFee(quote.pool.fee)}
+                          {!isSameToken(quote.pool.hooks, ZERO_ADDRESS) && ` · hook ${shortenAddress(quote.pool.hooks)}`}
+                          {formatPoolSelection(quote.pool.selection) && ` · ${formatPoolSelection(quote.pool.selection)}`}
+                        </span>
+                      </>
+                    )}
+
+                    <span style={{ fontWeight: 'var(--font-semibold)' }}>Route:</span>
+                    <span style={{ textAlign: 'right' }}>
+                      {quote.route.map(getRouteSymbol).join(' → ')}
+                    </span>
+                  </div>
+
+                  {/* Provider alternatives, best net of gas first */}
+                  {quote.options.length > 1 && (
+                    <div style={{
+                      display: 'flex',
+                      flexDirection: 'column',
+                      gap: 'var(--spacing-xs)',
+                      marginTop: 'var(--spacing-sm)',
+                    }}>
+                      {quote.options.map((option) => {
+                        const isSelected = option.provider === selectedQuote.provider;
+                        return (
+                          <button
+                            key={option.provider}
+                            onClick={() => setSelectedProvider(option.provider)}
+                            disabled={!option.executable || isProcessing}
+                            style={{
+                              display: 'flex',
+                              justifyContent: 'space-between',
+                              gap: 'var(--spacing-sm)',
+                              padding: 'var(--spacing-xs) var(--spacing-sm)',
+                              border: `2px solid ${isSelected ? 'var(--toby-blue)' : '#d1d5db'}`,
+                              borderRadius: 'var(--radius-md)',
+                              background: 'var(--white)',
+                              fontSize: 'var(--text-xs)',
+                              color: option.executable ? 'var(--deep-blue)' : 'var(--text-secondary)',
+                              cursor: option.executable ? 'pointer' : 'not-allowed',
+                              textAlign: 'left',
+                            }}
+                          >
+                            <span style={{ fontWeight: 'var(--font-semibold)' }}>
+                              {SWAP_PROVIDER_LABELS[option.provider]}
+                              {option.provider === quote.provider && ' · Best'}
+                              {!option.executable && ' · Quote only'}
+                            </span>
+                            <span style={{ textAlign: 'right' }}>
+                              ≈ {formatUnits(option.amountOut, outputDecimals)} {outputSymbol}
+                              {option.gasCostOut !== null &&
+                                ` (fee ≈ ${formatUnits(option.gasCostOut, outputDecimals)})`}
+                            </span>
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
+
+                  <div style={{
+                    fontSize: 'var(--text-xs)',
+                    color: 'var(--text-secondary)',
+                    marginTop: 'var(--spacing-xs)',
+                  }}>
+                    {quote.blockNumber !== null && `Block ${quote.blockNumber.toString()} · `}
+                    {isRefreshingQuote
+                      ? 'Refreshing price...'
+                      : priceChange
+                        ? 'Price updated'
+                        : `Refreshes in ${refreshInSeconds}s`}
+                  </div>
+
+                  {selectedQuote.priceImpactBps !== null && getPriceImpactLevel(selectedQuote.priceImpactBps) !== 'low' && (
+                    <div style={{
+                      fontSize: 'var(--text-xs)',
+                      color: PRICE_IMPACT_COLORS[getPriceImpactLevel(selectedQuote.priceImpactBps)],
+                      marginTop: 'var(--spacing-xs)',
+                    }}>
+                      ⚠️ {getPriceImpactLevel(selectedQuote.priceImpactBps) === 'high' ? 'Very high' : 'High'} price impact:
+                      you&apos;ll get about {formatPriceImpact(selectedQuote.priceImpactBps)} less than the market price. Consider a smaller amount.
+                    </div>
+                  )}
+
+                  {hasInsufficientGas && networkFee && (
+                    <div style={{
+                      fontSize: 'var(--text-xs)',
+                      color: '#dc2626',
+                      marginTop: 'var(--spacing-xs)',
+                    }}>
+                      ⚠️ Not enough ETH on Base for gas: this swap needs about {formatNetworkFee(networkFee)} in fees
+                      {isNativeEth(sellToken) && " on top of the ETH you're paying"}. The transaction will likely fail.
+                    </div>
+                  )}
+
                   {/* Slippage Display - only show in manual mode */}
                   {slippageMode === 'manual' && (
                     <div style={{ 
@@ -690,7 +1109,7 @@ export function SwapModal({
                   fontWeight: 'var(--font-semibold)',
                   color: 'var(--deep-blue)',
                 }}>
-                  ≈ ? {tokenInfo.symbol}
+                  ≈ ? {outputSymbol}
                 </div>
               )}
               
@@ -744,28 +1163,70 @@ export function SwapModal({
               </div>
             )}
 
+            {/* Price Change Confirmation */}
+            {priceChange && quote && step === 'input' && (
+              <div style={{
+                background: '#fff7ed',
+                padding: 'var(--spacing-md)',
+                borderRadius: 'var(--radius-md)',
+                marginBottom: 'var(--spacing-lg)',
+                fontSize: 'var(--text-sm)',
+                color: '#9a3412',
+              }}>
+                <div style={{ fontWeight: 'var(--font-semibold)', marginBottom: 'var(--spacing-xs)' }}>
+                  {priceChange.previousProvider
+                    ? `${SWAP_PROVIDER_LABELS[priceChange.previousProvider]} can no longer fill this swap; it will go through ${SWAP_PROVIDER_LABELS[getQuoteOption(quote, null).provider]}`
+                    : `Price changed by ${formatQuoteChange(priceChange.changeBps)}`}
+                </div>
+                You&apos;ll now receive ≈ {formatUnits(getQuoteOption(quote, selectedProvider).amountOut, outputDecimals)} {outputSymbol}
+                {' '}(was {formatUnits(priceChange.previousAmountOut, outputDecimals)}).
+              </div>
+            )}
+
             {/* Action Buttons */}
-            <div style={{ 
-              display: 'flex', 
-              gap: 'var(--spacing-md)',
-            }}>
-              <button
-                onClick={handleClose}
-                className="btn-secondary"
-                style={{ flex: 1 }}
-                disabled={isProcessing}
-              >
-                Cancel
-              </button>
-              <button
-                onClick={handleSwap}
-                className="btn-primary"
-                style={{ flex: 1 }}
-                disabled={isProcessing || !isConnected}
-              >
-                {isProcessing ? 'Processing...' : 'Swap'}
-              </button>
-            </div>
+            {priceChange && step === 'input' ? (
+              <div style={{
+                display: 'flex',
+                gap: 'var(--spacing-md)',
+              }}>
+                <button
+                  onClick={() => setPriceChange(null)}
+                  className="btn-secondary"
+                  style={{ flex: 1 }}
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleConfirmPriceChange}
+                  className="btn-primary"
+                  style={{ flex: 1 }}
+                >
+                  {isSell ? 'Sell' : 'Swap'} at New Price
+                </button>
+              </div>
+            ) : (
+              <div style={{ 
+                display: 'flex', 
+                gap: 'var(--spacing-md)',
+              }}>
+                <button
+                  onClick={handleClose}
+                  className="btn-secondary"
+                  style={{ flex: 1 }}
+                  disabled={isProcessing}
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSwap}
+                  className="btn-primary"
+                  style={{ flex: 1 }}
+                  disabled={isProcessing || isLoadingQuote || !isConnected}
+                >
+                  {isProcessing ? 'Processing...' : isSell ? 'Sell' : 'Swap'}
+                </button>
+              </div>
+            )}
 
             {/* Info Note */}
             <div style={{
@@ -774,7 +1235,7 @@ export function SwapModal({
               color: 'var(--text-secondary)',
               textAlign: 'center',
             }}>
-              {getProviderDisplay()}
+              {getProviderDisplay(selectedQuote?.provider ?? 'zora')}
             </div>
           </>
         )}
@@ -16,6 +16,7 @@ import {
   calculateMinimumOutput as calculateV4MinOutput,
   isUniswapV4Configured 
 } from './uniswap-v4-helpers';
+import type { SwapProvider } from './price-impact';
 
 // 0x Exchange Proxy contract on Base
 export const ZEROX_EXCHANGE_PROXY = '0xDef1C0ded9bec7F1a1670819833240f027b25EfF' as Address;
@@ -40,7 +41,7 @@ export const HIGH_SLIPPAGE_WARNING_BPS = 1000;
 /**
  * Swap provider type
  */
-export type SwapProvider = 'zora' | '0x' | 'uniswap-v4';
+export type { SwapProvider };
 
 /**
  * 0x API quote response type
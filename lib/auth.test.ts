@@ -0,0 +1,177 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createPublicClient, http } from 'viem';
+import { optimism } from 'viem/chains';
+import { privateKeyToAccount } from 'viem/accounts';
+import { createWalletClient } from '@farcaster/auth-client';
+import { NextRequest } from 'next/server';
+
+const FID = 1234;
+const DOMAIN = 'known-toads.vercel.app';
+
+// Anvil's first test key; only ever signs messages here
+const account = privateKeyToAccount('0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80');
+
+// The ID registry lookup, without an Optimism RPC: the test account is the FID's custody address
+const fakeConnector = {
+  getFid: async (custody: string) => (custody.toLowerCase() === account.address.toLowerCase() ? BigInt(FID) : 0n),
+  isValidAuthAddress: async () => false,
+  publicClient: createPublicClient({ chain: optimism, transport: http('http://127.0.0.1:1') }),
+};
+
+// auth_nonces, in memory
+const nonces = new Map<string, { expires_at: string; used_at: string | null }>();
+
+function fakeSupabase() {
+  return {
+    from: () => ({
+      insert: async (row: { nonce: string; expires_at: string }) => {
+        nonces.set(row.nonce, { expires_at: row.expires_at, used_at: null });
+        return { error: null };
+      },
+      update: (values: { used_at: string }) => {
+        const filters: Array<(row: { nonce: string; expires_at: string; used_at: string | null }) => boolean> = [];
+        const query = {
+          eq: (_column: string, value: string) => (filters.push((row) => row.nonce === value), query),
+          is: (_column: string, _value: null) => (filters.push((row) => row.used_at === null), query),
+          gt: (_column: string, value: string) => (filters.push((row) => row.expires_at > value), query),
+          select: async () => {
+            const matched = Array.from(nonces.entries())
+              .map(([nonce, row]) => ({ nonce, ...row }))
+              .filter((row) => filters.every((filter) => filter(row)));
+            matched.forEach((row) => nonces.set(row.nonce, { ...nonces.get(row.nonce)!, used_at: values.used_at }));
+            return { data: matched.map(({ nonce }) => ({ nonce })), error: null };
+          },
+        };
+        return query;
+      },
+    }),
+  };
+}
+
+vi.mock('./supabase', () => ({
+  supabase: {},
+  getServiceSupabase: () => fakeSupabase(),
+}));
+
+vi.mock('@farcaster/auth-client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@farcaster/auth-client')>()),
+  viemConnector: () => fakeConnector,
+}));
+
+const { issueSignInNonce, isCookieAuthAllowed, verifySignInMessage } = await import('./auth');
+
+const walletClient = createWalletClient({ ethereum: fakeConnector });
+
+async function signMessage(nonce: string, overrides: { domain?: string; expirationTime?: Date } = {}) {
+  const domain = overrides.domain ?? DOMAIN;
+  const { siweMessage, message } = walletClient.buildSignInMessage({
+    address: account.address,
+    fid: FID,
+    uri: `https://${domain}/login`,
+    domain,
+    nonce,
+    expirationTime: overrides.expirationTime,
+  });
+  if (!siweMessage || !message) throw new Error('Could not build sign-in message');
+
+  return { message, signature: await account.signMessage({ message }) };
+}
+
+async function signIn(nonce: string, overrides: { domain?: string } = {}) {
+  const { message, signature } = await signMessage(nonce, overrides);
+  return verifySignInMessage(message, signature, nonce);
+}
+
+describe('verifySignInMessage', () => {
+  beforeEach(() => {
+    nonces.clear();
+    delete process.env.NEXT_PUBLIC_APP_URL;
+  });
+
+  it('signs in with a fresh nonce', async () => {
+    const nonce = await issueSignInNonce();
+    const result = await signIn(nonce);
+
+    expect(result).toEqual({ success: true, fid: FID, address: account.address });
+  });
+
+  it('rejects a replayed nonce', async () => {
+    const nonce = await issueSignInNonce();
+    await signIn(nonce);
+    const replay = await signIn(nonce);
+
+    expect(replay.success).toBe(false);
+    expect(!replay.success && replay.error).toMatch(/already used/);
+  });
+
+  it('rejects a nonce it never issued', async () => {
+    const result = await signIn('abcdef1234567890');
+
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects an expired nonce', async () => {
+    const nonce = await issueSignInNonce();
+    nonces.set(nonce, { expires_at: new Date(Date.now() - 1000).toISOString(), used_at: null });
+
+    const result = await signIn(nonce);
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects a message for another domain', async () => {
+    const nonce = await issueSignInNonce();
+    const result = await signIn(nonce, { domain: 'evil.example' });
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error).toMatch(/domain/i);
+  });
+
+  it('accepts a message before it expires', async () => {
+    const nonce = await issueSignInNonce();
+    const { message, signature } = await signMessage(nonce, { expirationTime: new Date(Date.now() + 60_000) });
+
+    const result = await verifySignInMessage(message, signature, nonce);
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects an expired message', async () => {
+    const nonce = await issueSignInNonce();
+    const { message, signature } = await signMessage(nonce, { expirationTime: new Date(Date.now() + 60_000) });
+
+    // The message is valid for a minute; verify it two minutes later
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 120_000);
+    try {
+      const result = await verifySignInMessage(message, signature, nonce);
+      expect(result.success).toBe(false);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('isCookieAuthAllowed', () => {
+  beforeEach(() => {
+    delete process.env.NEXT_PUBLIC_APP_URL;
+  });
+
+  function request(method: string, origin?: string) {
+    return new NextRequest(`https://${DOMAIN}/api/profile`, {
+      method,
+      headers: origin ? { origin } : {},
+    });
+  }
+
+  it('allows reads from any origin', () => {
+    expect(isCookieAuthAllowed(request('GET', 'https://evil.example'))).toBe(true);
+  });
+
+  it('allows writes from the app', () => {
+    expect(isCookieAuthAllowed(request('POST', `https://${DOMAIN}`))).toBe(true);
+  });
+
+  it('rejects writes from another site or without an origin', () => {
+    expect(isCookieAuthAllowed(request('POST', 'https://evil.example'))).toBe(false);
+    expect(isCookieAuthAllowed(request('DELETE'))).toBe(false);
+  });
+});
@@ -0,0 +1,223 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient, Errors } from '@farcaster/quick-auth';
+import { createAppClient, viemConnector } from '@farcaster/auth-client';
+import { getServiceSupabase } from './supabase';
+import { getSession } from './session';
+import { getFarcasterAddresses } from './farcaster';
+
+const quickAuthClient = createClient();
+
+// Sign In With Farcaster verification reads the ID registry on Optimism
+const siwfClient = createAppClient({
+  ethereum: viemConnector(
+    process.env.OPTIMISM_RPC_URL ? { rpcUrl: process.env.OPTIMISM_RPC_URL } : undefined
+  ),
+});
+
+const NONCE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+// Production domain the mini app is served from (matches public/.well-known/farcaster.json)
+const DEFAULT_APP_DOMAIN = 'known-toads.vercel.app';
+
+/**
+ * Gets the domain Quick Auth tokens must be issued for
+ * Derived from NEXT_PUBLIC_APP_URL so local and preview deployments verify correctly
+ */
+export function getAppDomain(): string {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL;
+  if (!appUrl) {
+    return DEFAULT_APP_DOMAIN;
+  }
+
+  try {
+    return new URL(appUrl).host;
+  } catch {
+    console.error('NEXT_PUBLIC_APP_URL is not a valid URL:', appUrl);
+    return DEFAULT_APP_DOMAIN;
+  }
+}
+
+/**
+ * Verifies the Quick Auth JWT sent as `Authorization: Bearer <token>`
+ * Returns the authenticated FID, or null if the token is missing or invalid
+ */
+export async function verifyQuickAuthRequest(request: NextRequest): Promise<number | null> {
+  const authorization = request.headers.get('authorization');
+  if (!authorization?.startsWith('Bearer ')) {
+    return null;
+  }
+
+  const token = authorization.slice('Bearer '.length).trim();
+  if (!token) {
+    return null;
+  }
+
+  try {
+    const payload = await quickAuthClient.verifyJwt({
+      token,
+      domain: getAppDomain(),
+    });
+    const fid = Number(payload.sub);
+    return Number.isInteger(fid) && fid > 0 ? fid : null;
+  } catch (error) {
+    if (error instanceof Errors.InvalidTokenError) {
+      console.warn('[Auth] Rejected invalid Quick Auth token:', error.message);
+    } else {
+      console.error('[Auth] Error verifying Quick Auth token:', error);
+    }
+    return null;
+  }
+}
+
+/**
+ * Issues a single-use nonce for a Sign In With Farcaster message
+ * Nonces are stored in Supabase so they survive across serverless instances
+ */
+export async function issueSignInNonce(): Promise<string> {
+  // SIWF nonces must be alphanumeric and at least 8 characters
+  const nonce = crypto.randomUUID().replace(/-/g, '');
+
+  const { error } = await getServiceSupabase()
+    .from('auth_nonces')
+    .insert({
+      nonce,
+      expires_at: new Date(Date.now() + NONCE_TTL_MS).toISOString(),
+    });
+
+  if (error) {
+    throw new Error(`Failed to store sign-in nonce: ${error.message}`);
+  }
+
+  return nonce;
+}
+
+/**
+ * Marks a nonce as used
+ * Returns false if the nonce is unknown, expired or was already used (replay)
+ */
+async function consumeSignInNonce(nonce: string): Promise<boolean> {
+  const now = new Date().toISOString();
+
+  // Single conditional UPDATE so two concurrent sign-ins can't both consume it
+  const { data, error } = await getServiceSupabase()
+    .from('auth_nonces')
+    .update({ used_at: now })
+    .eq('nonce', nonce)
+    .is('used_at', null)
+    .gt('expires_at', now)
+    .select('nonce');
+
+  if (error) {
+    console.error('[Auth] Error consuming sign-in nonce:', error);
+    return false;
+  }
+
+  return !!data && data.length > 0;
+}
+
+export type SignInResult =
+  | { success: true; fid: number; address: string }
+  | { success: false; error: string };
+
+/**
+ * Verifies a signed Sign In With Farcaster message
+ * Checks the nonce was issued by us and unused, the message targets our domain,
+ * has not expired, and was signed by the FID's custody or auth address
+ */
+export async function verifySignInMessage(
+  message: string,
+  signature: `0x${string}`,
+  nonce: string
+): Promise<SignInResult> {
+  const nonceValid = await consumeSignInNonce(nonce);
+  if (!nonceValid) {
+    return { success: false, error: 'Sign-in nonce is invalid, expired or already used' };
+  }
+
+  const result = await siwfClient.verifySignInMessage({
+    nonce,
+    domain: getAppDomain(),
+    message,
+    signature,
+  });
+
+  if (result.isError || !result.success) {
+    console.warn('[Auth] Rejected SIWF message:', result.error?.message);
+    return { success: false, error: result.error?.message || 'Invalid sign-in message' };
+  }
+
+  return {
+    success: true,
+    fid: result.fid,
+    address: result.data.address,
+  };
+}
+
+/**
+ * Whether a request may be authenticated by the session cookie
+ * The cookie is sent cross-site (SameSite=None), so writes need an Origin from the app's own domain;
+ * reads are allowed from anywhere since the response isn't readable cross-site.
+ */
+export function isCookieAuthAllowed(request: NextRequest): boolean {
+  if (request.method === 'GET' || request.method === 'HEAD') {
+    return true;
+  }
+
+  const origin = request.headers.get('origin');
+  if (!origin) {
+    return false;
+  }
+
+  try {
+    return new URL(origin).host === getAppDomain();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Gets the authenticated FID for an API request
+ * Accepts either a session cookie (from SIWF) or a Quick Auth Bearer token
+ */
+export async function getAuthenticatedFid(request: NextRequest): Promise<number | null> {
+  if (isCookieAuthAllowed(request)) {
+    const session = await getSession();
+    if (session) {
+      return session.fid;
+    }
+  } else {
+    console.warn('[Auth] Ignoring session cookie on a cross-origin write:', request.headers.get('origin'));
+  }
+  return verifyQuickAuthRequest(request);
+}
+
+/**
+ * The signed-in caller's custody and verified addresses, or an error response
+ * The wallet must be one of them. Throws NeynarUnavailableError if the addresses can't be fetched.
+ */
+export async function getCallerAddresses(
+  request: NextRequest,
+  wallet: string
+): Promise<{ addresses: string[] } | { response: NextResponse }> {
+  const fid = await getAuthenticatedFid(request);
+  if (!fid) {
+    return {
+      response: NextResponse.json(
+        { error: 'Please sign in with Farcaster first' },
+        { status: 401 }
+      ),
+    };
+  }
+
+  const addresses = await getFarcasterAddresses(fid);
+  if (!addresses.includes(wallet.toLowerCase())) {
+    return {
+      response: NextResponse.json(
+        { error: 'Wallet is not verified on your Farcaster account' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { addresses };
+}
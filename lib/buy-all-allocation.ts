@@ -0,0 +1,131 @@
+/**
+ * Buy All Allocation
+ * Strategies for splitting a Buy All amount across the directory's creator coins
+ */
+
+import { Address, PublicClient, erc20Abi } from 'viem';
+import { Profile } from '@/types/profile';
+
+export type AllocationStrategy = 'equal' | 'market_cap' | 'liquidity' | 'newest' | 'custom' | 'unowned';
+
+export interface AllocationOptions {
+  strategy: AllocationStrategy;
+  newestCount?: number; // 'newest': how many of the most recently added toads
+  customWeights?: Record<string, number>; // 'custom': lowercased coin address → weight (0 skips)
+  ownedCoins?: Set<string>; // 'unowned': lowercased coin addresses the wallet already holds
+  excludedCoins?: Set<string>; // Any strategy: lowercased coin addresses to leave out
+}
+
+export const ALLOCATION_STRATEGIES: ReadonlyArray<{ value: AllocationStrategy; label: string; description: string }> = [
+  { value: 'equal', label: 'Equal', description: 'Same amount of every coin' },
+  { value: 'market_cap', label: 'Market Cap', description: 'Weighted by market cap' },
+  { value: 'liquidity', label: 'Liquidity', description: 'Weighted by pool liquidity' },
+  { value: 'newest', label: 'Newest', description: 'Equal split across the newest toads' },
+  { value: 'custom', label: 'Custom', description: 'Pick coins and set your own weights' },
+  { value: 'unowned', label: "Don't Own Yet", description: "Equal split across coins you don't hold" },
+];
+
+export const DEFAULT_NEWEST_COUNT = 10;
+
+// Weights are scaled to integers so the split can be done exactly in bigint
+const WEIGHT_SCALE = 1_000_000_000;
+
+/**
+ * Weight for each coin under a strategy; coins weighted 0 are left out of the purchase
+ * Market cap and liquidity are 0 for coins whose stats haven't been fetched yet
+ */
+export function getAllocationWeights(profiles: Profile[], options: AllocationOptions): number[] {
+  const weights = getStrategyWeights(profiles, options);
+  const excluded = options.excludedCoins;
+  if (!excluded?.size) return weights;
+
+  return weights.map((weight, i) => (excluded.has(profiles[i].creator_coin_address.toLowerCase()) ? 0 : weight));
+}
+
+function getStrategyWeights(profiles: Profile[], options: AllocationOptions): number[] {
+  switch (options.strategy) {
+    case 'market_cap':
+      return profiles.map((profile) => profile.market_cap_usd || 0);
+
+    case 'liquidity':
+      return profiles.map((profile) => profile.liquidity_usd || 0);
+
+    case 'newest': {
+      const count = options.newestCount || DEFAULT_NEWEST_COUNT;
+      const newest = new Set(
+        [...profiles]
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+          .slice(0, count)
+          .map((profile) => profile.creator_coin_address.toLowerCase())
+      );
+      return profiles.map((profile) => (newest.has(profile.creator_coin_address.toLowerCase()) ? 1 : 0));
+    }
+
+    case 'custom':
+      return profiles.map((profile) => {
+        const weight = options.customWeights?.[profile.creator_coin_address.toLowerCase()] ?? 1;
+        return weight > 0 ? weight : 0;
+      });
+
+    case 'unowned':
+      return profiles.map((profile) => (options.ownedCoins?.has(profile.creator_coin_address.toLowerCase()) ? 0 : 1));
+
+    case 'equal':
+    default:
+      return profiles.map(() => 1);
+  }
+}
+
+/**
+ * Splits `total` in proportion to `weights` using the largest remainder method
+ * Every base unit is allocated: the amounts always sum to `total`
+ */
+export function allocateByWeight(total: bigint, weights: number[]): bigint[] {
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+  if (weightSum <= 0) {
+    return weights.map(() => 0n);
+  }
+
+  const scaled = weights.map((weight) => BigInt(Math.round((weight / weightSum) * WEIGHT_SCALE)));
+  const scaledSum = scaled.reduce((sum, weight) => sum + weight, 0n);
+
+  const amounts = scaled.map((weight) => (total * weight) / scaledSum);
+  const remainders = scaled.map((weight, i) => ({ i, remainder: (total * weight) % scaledSum }));
+
+  // Hand the leftover units to the largest remainders (ties go to the earlier coin)
+  let leftover = total - amounts.reduce((sum, amount) => sum + amount, 0n);
+  remainders.sort((a, b) => (b.remainder > a.remainder ? 1 : b.remainder < a.remainder ? -1 : a.i - b.i));
+  for (const { i } of remainders) {
+    if (leftover === 0n) break;
+    if (scaled[i] === 0n) continue;
+    amounts[i] += 1n;
+    leftover -= 1n;
+  }
+
+  return amounts;
+}
+
+/**
+ * Lowercased addresses of the coins a wallet holds any of
+ */
+export async function getOwnedCoins(
+  publicClient: PublicClient,
+  owner: Address,
+  coinAddresses: string[]
+): Promise<Set<string>> {
+  const balances = await publicClient.multicall({
+    contracts: coinAddresses.map((address) => ({
+      address: address as Address,
+      abi: erc20Abi,
+      functionName: 'balanceOf' as const,
+      args: [owner] as const,
+    })),
+    allowFailure: true,
+  });
+
+  return new Set(
+    coinAddresses
+      .filter((_, i) => balances[i].status === 'success' && (balances[i].result as bigint) > 0n)
+      .map((address) => address.toLowerCase())
+  );
+}
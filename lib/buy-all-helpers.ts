@@ -1,39 +1,84 @@
 /**
  * Buy All Helpers
- * Functions for purchasing equal shares of all creator coins in the directory
+ * Functions for purchasing shares of all creator coins in the directory
  */
 
 import { Address, WalletClient, PublicClient, Account } from 'viem';
 import { Profile } from '@/types/profile';
-import { executeTrade, SlippageMode, TradeResult } from './zora-trade-helpers';
+import {
+  executeTrade,
+  executeBatchedTrades,
+  getBatchedTradesStatus,
+  supportsAtomicBatch,
+  SlippageMode,
+  TradeResult,
+} from './zora-trade-helpers';
+import { recordTrade } from './trades-client';
+import { PayToken, USDC_PAY_TOKEN, isSameToken } from './swap-constants';
+import type { CoinOutcome } from './buy-all-runs';
+import { AllocationOptions, AllocationStrategy, allocateByWeight, getAllocationWeights } from './buy-all-allocation';
+
+export interface ValidCoin {
+  address: string;
+  username: string;
+  symbol: string;
+  profile: Profile;
+}
 
 export interface CoinQuote {
   address: string;
   symbol: string;
-  amountUSDC: bigint;
+  amountIn: bigint; // Base units of the quote's pay token
+  share: number; // Fraction of the total, 0-1
   username: string;
+  priceUsd: number | null; // Cached coin price (coin_stats), for pre-flight price impact
 }
 
 export interface BuyAllQuote {
   coins: CoinQuote[];
-  totalUSDC: bigint;
+  strategy: AllocationStrategy;
+  payToken: PayToken;
+  totalAmountIn: bigint; // Base units of payToken
   numberOfCoins: number;
 }
 
+// How much longer a batch that's still pending after sending is polled
+const BATCH_PENDING_WAIT_MS = 5 * 60 * 1000;
+
+// 'batched': one atomic transaction, all or nothing; 'sequential': one transaction per coin
+export type BuyAllExecutionMode = 'batched' | 'sequential';
+
 export interface BuyAllResult {
+  mode: BuyAllExecutionMode;
   successful: string[]; // usernames of successful purchases
-  failed: Array<{ username: string; error: string }>;
+  failed: Array<{ address: string; username: string; error: string }>;
+  submitted: string[]; // usernames of purchases sent but not confirmed yet
   txHashes: string[];
   totalAttempted: number;
 }
 
+type ProgressCallback = (completed: number, total: number, currentCoin: string) => void;
+
+// Called as each coin's purchase settles, so a run's progress can be persisted
+type CoinSettledCallback = (coins: CoinQuote[], outcome: CoinOutcome) => void;
+
+/**
+ * Picks how Buy All will run for the connected wallet
+ */
+export async function getBuyAllExecutionMode(
+  walletClient: WalletClient,
+  account: Account
+): Promise<BuyAllExecutionMode> {
+  return (await supportsAtomicBatch(walletClient, account)) ? 'batched' : 'sequential';
+}
+
 /**
  * Get all valid creator coin addresses from profiles
  * Filters out invalid/missing addresses and deduplicates
  */
-export function getValidCoins(profiles: Profile[]): Array<{ address: string; username: string; symbol: string }> {
+export function getValidCoins(profiles: Profile[]): ValidCoin[] {
   const seen = new Set<string>();
-  const validCoins: Array<{ address: string; username: string; symbol: string }> = [];
+  const validCoins: ValidCoin[] = [];
 
   for (const profile of profiles) {
     const address = profile.creator_coin_address;
@@ -56,6 +101,7 @@ export function getValidCoins(profiles: Profile[]): Array<{ address: string; use
       address: address, // Use original casing from profile
       username: profile.username,
       symbol: profile.token_ticker || profile.username,
+      profile,
     });
   }
 
@@ -63,37 +109,55 @@ export function getValidCoins(profiles: Profile[]): Array<{ address: string; use
 }
 
 /**
- * Generate a quote for buying all coins with equal USDC distribution
+ * Generate a quote for buying all coins, split by an allocation strategy
+ * A creator coin used to pay is left out of the coins bought, as are coins allocated nothing
  */
 export function getBuyAllQuote(
   profiles: Profile[],
-  totalAmountUSDC: bigint
+  totalAmountIn: bigint,
+  payToken: PayToken = USDC_PAY_TOKEN,
+  allocation: AllocationOptions = { strategy: 'equal' }
 ): BuyAllQuote {
-  const validCoins = getValidCoins(profiles);
+  const validCoins = getValidCoins(profiles).filter(
+    (coin) => !isSameToken(coin.address, payToken.address)
+  );
 
   if (validCoins.length === 0) {
     throw new Error('No valid creator coins found');
   }
 
-  // Calculate equal amount per coin
-  const amountPerCoin = totalAmountUSDC / BigInt(validCoins.length);
+  const weights = getAllocationWeights(validCoins.map((coin) => coin.profile), allocation);
+  const amounts = allocateByWeight(totalAmountIn, weights);
 
-  const coins: CoinQuote[] = validCoins.map((coin) => ({
-    address: coin.address,
-    symbol: coin.symbol,
-    amountUSDC: amountPerCoin,
-    username: coin.username,
-  }));
+  const coins: CoinQuote[] = validCoins
+    .map((coin, i) => ({
+      address: coin.address,
+      symbol: coin.symbol,
+      amountIn: amounts[i],
+      share: totalAmountIn > 0n ? Number(amounts[i]) / Number(totalAmountIn) : 0,
+      username: coin.username,
+      priceUsd: coin.profile.price_usd || null,
+    }))
+    .filter((coin) => coin.amountIn > 0n)
+    .sort((a, b) => b.share - a.share);
+
+  if (coins.length === 0) {
+    throw new Error('No coins match this allocation');
+  }
 
   return {
     coins,
-    totalUSDC: totalAmountUSDC,
-    numberOfCoins: validCoins.length,
+    strategy: allocation.strategy,
+    payToken,
+    totalAmountIn,
+    numberOfCoins: coins.length,
   };
 }
 
 /**
- * Execute buy all transaction - purchases each coin sequentially
+ * Execute buy all transaction
+ * Sends every swap as one atomic batch when the wallet supports EIP-5792,
+ * otherwise purchases each coin sequentially
  */
 export async function executeBuyAll(
   quote: BuyAllQuote,
@@ -102,10 +166,116 @@ export async function executeBuyAll(
   publicClient: PublicClient,
   slippageMode: SlippageMode,
   customSlippage: number | undefined,
-  onProgress: (completed: number, total: number, currentCoin: string) => void
+  onProgress: ProgressCallback,
+  onCoinSettled?: CoinSettledCallback
+): Promise<BuyAllResult> {
+  const mode = await getBuyAllExecutionMode(walletClient, account);
+  console.log(`[Buy All] Executing ${quote.coins.length} purchases (${mode})`);
+
+  return mode === 'batched'
+    ? executeBuyAllBatched(quote, walletClient, account, publicClient, slippageMode, customSlippage, onProgress, onCoinSettled)
+    : executeBuyAllSequential(quote, walletClient, account, publicClient, slippageMode, customSlippage, onProgress, onCoinSettled);
+}
+
+/**
+ * All-or-nothing: every coin is bought in one transaction, or none are
+ */
+async function executeBuyAllBatched(
+  quote: BuyAllQuote,
+  walletClient: WalletClient,
+  account: Account,
+  publicClient: PublicClient,
+  slippageMode: SlippageMode,
+  customSlippage: number | undefined,
+  onProgress: ProgressCallback,
+  onCoinSettled?: CoinSettledCallback
+): Promise<BuyAllResult> {
+  onProgress(0, quote.coins.length, 'Confirm the batch in your wallet');
+
+  let result = await executeBatchedTrades({
+    trades: quote.coins.map((coin) => ({
+      buyToken: coin.address as Address,
+      sellAmount: coin.amountIn,
+    })),
+    sellToken: quote.payToken.address,
+    userAddress: account.address,
+    slippageMode,
+    customSlippage,
+    walletClient,
+    account,
+    publicClient,
+    // Saved before waiting, so a run reopened mid-batch checks it instead of buying again
+    onSubmitted: (callsId) => onCoinSettled?.(quote.coins, { status: 'submitted', callsId }),
+  });
+
+  // Sent but not landed yet: keep polling the same batch rather than sending another
+  if (result.pending && result.callsId) {
+    onProgress(0, quote.coins.length, 'Waiting for the batch to land');
+    result = { ...(await getBatchedTradesStatus(walletClient, result.callsId, BATCH_PENDING_WAIT_MS)), slippageUsed: result.slippageUsed };
+  }
+
+  if (result.pending) {
+    // Not retried: the batch may still land, so its coins stay submitted until its status is checked
+    console.error(`[Buy All] Batch still pending - ${result.callsId}`);
+    onProgress(quote.coins.length, quote.coins.length, 'Pending');
+    return {
+      mode: 'batched',
+      successful: [],
+      failed: [],
+      submitted: quote.coins.map((coin) => coin.username),
+      txHashes: [],
+      totalAttempted: quote.coins.length,
+    };
+  }
+
+  onProgress(quote.coins.length, quote.coins.length, 'Complete');
+
+  if (!result.success) {
+    console.error(`[Buy All] Batch failed - ${result.error}`);
+    onCoinSettled?.(quote.coins, { status: 'failed', error: result.error || 'Unknown error' });
+    return {
+      mode: 'batched',
+      successful: [],
+      failed: quote.coins.map((coin) => ({
+        address: coin.address,
+        username: coin.username,
+        error: result.error || 'Unknown error',
+      })),
+      submitted: [],
+      txHashes: [],
+      totalAttempted: quote.coins.length,
+    };
+  }
+
+  result.txHashes.forEach((txHash) => void recordTrade(txHash, account.address, result.slippageUsed));
+  onCoinSettled?.(quote.coins, { status: 'success', txHash: result.txHashes[result.txHashes.length - 1] });
+  console.log(`[Buy All] Batch success - ${result.txHashes.join(', ')}`);
+
+  return {
+    mode: 'batched',
+    successful: quote.coins.map((coin) => coin.username),
+    failed: [],
+    submitted: [],
+    txHashes: result.txHashes,
+    totalAttempted: quote.coins.length,
+  };
+}
+
+/**
+ * One transaction per coin; coins bought before a failure or cancel are kept
+ */
+async function executeBuyAllSequential(
+  quote: BuyAllQuote,
+  walletClient: WalletClient,
+  account: Account,
+  publicClient: PublicClient,
+  slippageMode: SlippageMode,
+  customSlippage: number | undefined,
+  onProgress: ProgressCallback,
+  onCoinSettled?: CoinSettledCallback
 ): Promise<BuyAllResult> {
   const successful: string[] = [];
-  const failed: Array<{ username: string; error: string }> = [];
+  const failed: BuyAllResult['failed'] = [];
   const txHashes: string[] = [];
 
   for (let i = 0; i < quote.coins.length; i++) {
@@ -117,7 +287,8 @@ export async function executeBuyAll(
     try {
       // Execute trade for this coin
       const result: TradeResult = await executeTrade({
-        sellAmount: coin.amountUSDC,
+        sellAmount: coin.amountIn,
+        sellToken: quote.payToken.address,
         buyToken: coin.address as Address,
         userAddress: account.address,
         slippageMode,
@@ -125,25 +296,32 @@ export async function executeBuyAll(
         walletClient,
         account,
         publicClient,
+        onSubmitted: (txHash) => onCoinSettled?.([coin], { status: 'submitted', txHash }),
       });
 
       if (result.success && result.txHash) {
         successful.push(coin.username);
         txHashes.push(result.txHash);
+        void recordTrade(result.txHash, account.address, result.slippageUsed);
+        onCoinSettled?.([coin], { status: 'success', txHash: result.txHash });
         console.log(`[Buy All] Success: ${coin.username} - ${result.txHash}`);
       } else {
         failed.push({
+          address: coin.address,
           username: coin.username,
           error: result.error || 'Unknown error',
         });
+        onCoinSettled?.([coin], { status: 'failed', error: result.error || 'Unknown error' });
         console.error(`[Buy All] Failed: ${coin.username} - ${result.error}`);
       }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       failed.push({
+        address: coin.address,
         username: coin.username,
         error: errorMessage,
       });
+      onCoinSettled?.([coin], { status: 'failed', error: errorMessage });
       console.error(`[Buy All] Exception: ${coin.username}`, error);
     }
 
@@ -157,8 +335,10 @@ export async function executeBuyAll(
   onProgress(quote.coins.length, quote.coins.length, 'Complete');
 
   return {
+    mode: 'sequential',
     successful,
     failed,
+    submitted: [],
     txHashes,
     totalAttempted: quote.coins.length,
   };
@@ -0,0 +1,96 @@
+/**
+ * Buy All Pre-flight
+ * Quotes every coin in a Buy All before anything is signed, flagging coins that would fail
+ */
+
+import { formatUnits } from 'viem';
+import { BuyAllQuote, CoinQuote } from './buy-all-helpers';
+import { fetchQuoteAmountOut } from './quote-client';
+import { runWithConcurrency } from './async-helpers';
+
+// Parallel /api/quote calls per pre-flight
+export const PREFLIGHT_CONCURRENCY = 4;
+
+// Coins losing more than this to price impact are flagged
+export const MAX_PRICE_IMPACT = 0.1; // 10%
+
+const COIN_DECIMALS = 18; // Zora coins are standard 18-decimal ERC-20s
+
+export type PreflightStatus = 'ok' | 'no_liquidity' | 'high_impact' | 'error';
+
+export interface CoinPreflightQuote {
+  expectedOut: bigint | null; // Null when there's no route
+  error?: string;
+}
+
+export interface CoinPreflight extends CoinPreflightQuote {
+  status: PreflightStatus;
+  priceImpact: number | null; // 0-1; null when the coin has no price yet
+}
+
+/**
+ * Quotes every coin in a Buy All quote, keyed by lowercased coin address
+ */
+export async function runBuyAllPreflight(
+  quote: BuyAllQuote,
+  takerAddress: string
+): Promise<Map<string, CoinPreflightQuote>> {
+  const results = new Map<string, CoinPreflightQuote>();
+
+  await runWithConcurrency(quote.coins, PREFLIGHT_CONCURRENCY, async (coin) => {
+    try {
+      const expectedOut = await fetchQuoteAmountOut({
+        sellToken: quote.payToken.address,
+        buyToken: coin.address as `0x${string}`,
+        sellAmount: coin.amountIn,
+        takerAddress,
+      });
+      results.set(coin.address.toLowerCase(), { expectedOut });
+    } catch (error) {
+      console.error(`[Buy All] Pre-flight quote failed for ${coin.username}:`, error);
+      results.set(coin.address.toLowerCase(), {
+        expectedOut: null,
+        error: error instanceof Error ? error.message : 'Quote failed',
+      });
+    }
+  });
+
+  const flagged = Array.from(results.values()).filter((result) => !result.expectedOut).length;
+  console.log(`[Buy All] Pre-flight quoted ${results.size} coins, ${flagged} without a route`);
+
+  return results;
+}
+
+/**
+ * Classifies a coin's pre-flight quote
+ * Price impact compares the quoted output with the coin's cached USD price
+ * (coin_stats), so it's only known when both the coin and pay token are priced.
+ */
+export function assessPreflight(
+  coin: CoinQuote,
+  result: CoinPreflightQuote,
+  payTokenDecimals: number,
+  payTokenUsdPrice: number | null
+): CoinPreflight {
+  if (result.error) {
+    return { ...result, status: 'error', priceImpact: null };
+  }
+
+  if (!result.expectedOut || result.expectedOut === 0n) {
+    return { ...result, status: 'no_liquidity', priceImpact: null };
+  }
+
+  if (!coin.priceUsd || !payTokenUsdPrice) {
+    return { ...result, status: 'ok', priceImpact: null };
+  }
+
+  const valueInUsd = Number(formatUnits(coin.amountIn, payTokenDecimals)) * payTokenUsdPrice;
+  const valueOutUsd = Number(formatUnits(result.expectedOut, COIN_DECIMALS)) * coin.priceUsd;
+  const priceImpact = valueInUsd > 0 ? Math.max(0, 1 - valueOutUsd / valueInUsd) : 0;
+
+  return {
+    ...result,
+    status: priceImpact > MAX_PRICE_IMPACT ? 'high_impact' : 'ok',
+    priceImpact,
+  };
+}
@@ -0,0 +1,54 @@
+import type { BuyAllRun } from './buy-all-runs';
+
+/**
+ * Saves a Buy All run to /api/buy-all-runs so it can be resumed on another device
+ * Best-effort: runs are only stored for signed-in users, and failures are logged, never surfaced
+ */
+export async function syncBuyAllRun(run: BuyAllRun): Promise<void> {
+  try {
+    const response = await fetch('/api/buy-all-runs', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(run),
+    });
+
+    if (!response.ok && response.status !== 401) {
+      const data = await response.json().catch(() => ({}));
+      console.error('[Buy All] Failed to sync run:', data.error || response.status);
+    }
+  } catch (error) {
+    console.error('[Buy All] Failed to sync run:', error);
+  }
+}
+
+/**
+ * Fetches a wallet's latest unfinished Buy All run from the server
+ * Returns null when signed out or nothing is saved
+ */
+export async function fetchBuyAllRun(walletAddress: string): Promise<BuyAllRun | null> {
+  try {
+    const response = await fetch(`/api/buy-all-runs?wallet=${walletAddress}`);
+    if (!response.ok) {
+      return null;
+    }
+
+    const data = await response.json();
+    return data.run || null;
+  } catch (error) {
+    console.error('[Buy All] Failed to fetch saved run:', error);
+    return null;
+  }
+}
+
+/**
+ * Removes a Buy All run from the server
+ */
+export async function deleteBuyAllRun(id: string): Promise<void> {
+  try {
+    await fetch(`/api/buy-all-runs?id=${encodeURIComponent(id)}`, { method: 'DELETE' });
+  } catch (error) {
+    console.error('[Buy All] Failed to delete saved run:', error);
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * Buy All Runs
+ * Persists Buy All progress so a run interrupted by closing the app can be resumed
+ */
+
+import { PublicClient, WalletClient } from 'viem';
+import type { AllocationStrategy } from './buy-all-allocation';
+import type { BuyAllExecutionMode, BuyAllQuote, BuyAllResult, CoinQuote } from './buy-all-helpers';
+import type { PayToken } from './swap-constants';
+import { getBatchedTradesStatus } from './zora-trade-helpers';
+import { recordTrade } from './trades-client';
+import { syncBuyAllRun, deleteBuyAllRun } from './buy-all-runs-client';
+
+const STORAGE_KEY_PREFIX = 'buy-all-run:';
+
+// 'submitted': sent to the wallet but not confirmed yet, so it must not be bought again
+export type BuyAllRunCoinStatus = 'pending' | 'submitted' | 'success' | 'failed';
+
+export interface BuyAllRunCoin {
+  address: string;
+  username: string;
+  symbol: string;
+  amountIn: string; // Base units of the run's pay token
+  share: number;
+  priceUsd: number | null;
+  status: BuyAllRunCoinStatus;
+  txHash?: string;
+  callsId?: string; // EIP-5792 call ID of the batch it was sent in
+  error?: string;
+}
+
+export interface BuyAllRun {
+  id: string;
+  walletAddress: string; // Lowercased
+  mode: BuyAllExecutionMode;
+  strategy: AllocationStrategy;
+  payToken: PayToken;
+  coins: BuyAllRunCoin[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CoinOutcome {
+  status: Exclude<BuyAllRunCoinStatus, 'pending'>;
+  txHash?: string;
+  callsId?: string;
+  error?: string;
+}
+
+function storageKey(walletAddress: string): string {
+  return `${STORAGE_KEY_PREFIX}${walletAddress.toLowerCase()}`;
+}
+
+/**
+ * Starts a run with every coin in the quote pending
+ */
+export function createBuyAllRun(quote: BuyAllQuote, walletAddress: string, mode: BuyAllExecutionMode): BuyAllRun {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    walletAddress: walletAddress.toLowerCase(),
+    mode,
+    strategy: quote.strategy,
+    payToken: quote.payToken,
+    coins: quote.coins.map((coin) => ({
+      address: coin.address,
+      username: coin.username,
+      symbol: coin.symbol,
+      amountIn: coin.amountIn.toString(),
+      share: coin.share,
+      priceUsd: coin.priceUsd,
+      status: 'pending',
+    })),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Returns a copy of the run with the given coins updated
+ */
+export function updateRunCoins(
+  run: BuyAllRun,
+  addresses: string[],
+  update: Partial<Pick<BuyAllRunCoin, 'status' | 'txHash' | 'callsId' | 'error'>>
+): BuyAllRun {
+  const keys = new Set(addresses.map((address) => address.toLowerCase()));
+  return {
+    ...run,
+    coins: run.coins.map((coin) => (keys.has(coin.address.toLowerCase()) ? { ...coin, ...update } : coin)),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Puts coins about to be retried back to pending, clearing their last error
+ */
+export function resetRunCoins(run: BuyAllRun, addresses: string[]): BuyAllRun {
+  return updateRunCoins(run, addresses, { status: 'pending', txHash: undefined, callsId: undefined, error: undefined });
+}
+
+export function getRemainingCoins(run: BuyAllRun): BuyAllRunCoin[] {
+  return run.coins.filter((coin) => coin.status === 'pending');
+}
+
+export function getFailedCoins(run: BuyAllRun): BuyAllRunCoin[] {
+  return run.coins.filter((coin) => coin.status === 'failed');
+}
+
+export function getSubmittedCoins(run: BuyAllRun): BuyAllRunCoin[] {
+  return run.coins.filter((coin) => coin.status === 'submitted');
+}
+
+/**
+ * Settles coins that were sent before the app closed, from their batch status or receipt
+ * Coins whose transaction still hasn't landed stay submitted.
+ */
+export async function resolveSubmittedCoins(
+  run: BuyAllRun,
+  walletClient: WalletClient,
+  publicClient: PublicClient
+): Promise<BuyAllRun> {
+  const byTransaction = new Map<string, string[]>();
+  for (const coin of getSubmittedCoins(run)) {
+    const key = coin.callsId ? `calls:${coin.callsId}` : coin.txHash ? `tx:${coin.txHash}` : null;
+    if (!key) continue;
+    byTransaction.set(key, [...(byTransaction.get(key) ?? []), coin.address]);
+  }
+
+  let resolved = run;
+  for (const [key, addresses] of byTransaction) {
+    const [kind, id] = key.split(':');
+    let outcome: CoinOutcome | null = null;
+
+    try {
+      if (kind === 'calls') {
+        const result = await getBatchedTradesStatus(walletClient, id, 0);
+        if (result.success) {
+          result.txHashes.forEach((txHash) => void recordTrade(txHash, run.walletAddress));
+          outcome = { status: 'success', txHash: result.txHashes[result.txHashes.length - 1] };
+        } else if (!result.pending) {
+          outcome = { status: 'failed', error: result.error || 'Batch reverted' };
+        }
+      } else {
+        const receipt = await publicClient.getTransactionReceipt({ hash: id as `0x${string}` });
+        if (receipt.status === 'success') {
+          void recordTrade(id, run.walletAddress);
+          outcome = { status: 'success', txHash: id };
+        } else {
+          outcome = { status: 'failed', error: 'Swap reverted. The price may have moved.' };
+        }
+      }
+    } catch (error) {
+      // No receipt yet: the transaction may still land
+      console.log('[Buy All] Submitted purchase not final yet:', id, error instanceof Error ? error.message : error);
+    }
+
+    if (outcome) resolved = updateRunCoins(resolved, addresses, outcome);
+  }
+
+  return resolved;
+}
+
+/**
+ * A run is finished once every coin was bought; failed and submitted coins keep it open
+ */
+export function isRunFinished(run: BuyAllRun): boolean {
+  return run.coins.every((coin) => coin.status === 'success');
+}
+
+/**
+ * Rebuilds a Buy All quote from some of a run's coins, keeping their original amounts
+ */
+export function getRunQuote(run: BuyAllRun, coins: BuyAllRunCoin[]): BuyAllQuote {
+  const quoteCoins: CoinQuote[] = coins.map((coin) => ({
+    address: coin.address,
+    symbol: coin.symbol,
+    amountIn: BigInt(coin.amountIn),
+    share: coin.share,
+    username: coin.username,
+    priceUsd: coin.priceUsd,
+  }));
+
+  return {
+    coins: quoteCoins,
+    strategy: run.strategy,
+    payToken: run.payToken,
+    totalAmountIn: quoteCoins.reduce((sum, coin) => sum + coin.amountIn, 0n),
+    numberOfCoins: quoteCoins.length,
+  };
+}
+
+/**
+ * Narrows a quote to the coins that failed in a result
+ */
+export function getFailedQuote(quote: BuyAllQuote, result: BuyAllResult): BuyAllQuote {
+  const failed = new Set(result.failed.map((f) => f.address.toLowerCase()));
+  const coins = quote.coins.filter((coin) => failed.has(coin.address.toLowerCase()));
+
+  return {
+    ...quote,
+    coins,
+    totalAmountIn: coins.reduce((sum, coin) => sum + coin.amountIn, 0n),
+    numberOfCoins: coins.length,
+  };
+}
+
+/**
+ * Saves a run locally and, when signed in, to the server
+ * A finished run is cleared instead, so only unfinished runs are offered for resume
+ */
+export function saveBuyAllRun(run: BuyAllRun): void {
+  if (isRunFinished(run)) {
+    clearBuyAllRun(run);
+    return;
+  }
+
+  try {
+    localStorage.setItem(storageKey(run.walletAddress), JSON.stringify(run));
+  } catch (error) {
+    console.error('[Buy All] Failed to save run locally:', error);
+  }
+  void syncBuyAllRun(run);
+}
+
+/**
+ * Gets a wallet's unfinished run from this device, if any
+ */
+export function loadBuyAllRun(walletAddress: string): BuyAllRun | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const stored = localStorage.getItem(storageKey(walletAddress));
+    return stored ? (JSON.parse(stored) as BuyAllRun) : null;
+  } catch (error) {
+    console.error('[Buy All] Failed to load saved run:', error);
+    return null;
+  }
+}
+
+/**
+ * Forgets a run on this device and the server
+ */
+export function clearBuyAllRun(run: BuyAllRun): void {
+  localStorage.removeItem(storageKey(run.walletAddress));
+  void deleteBuyAllRun(run.id);
+}
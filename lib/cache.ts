@@ -1,4 +1,4 @@
-import { supabase } from './supabase';
+import { supabase, getServiceSupabase } from './supabase';
 import { getFarcasterUser } from './farcaster';
 
 const PFP_CACHE_DURATION_MS = 24 * 60 * 60 * 1000; // 24 hours
@@ -37,7 +37,7 @@ export async function getCachedPfp(fid: number): Promise<string | null> {
 
     // Update cache in database if profile exists
     if (profile) {
-      await supabase
+      await getServiceSupabase()
         .from('profiles')
         .update({
           pfp_url: farcasterUser.pfp_url,
@@ -70,7 +70,7 @@ export async function refreshPfpIfNeeded(fid: number): Promise<void> {
 
     const farcasterUser = await getFarcasterUser(fid);
     if (farcasterUser) {
-      await supabase
+      await getServiceSupabase()
         .from('profiles')
         .update({
           pfp_url: farcasterUser.pfp_url,
@@ -0,0 +1,14 @@
+import { NextRequest } from 'next/server';
+
+/**
+ * Checks a scheduled job request carries the cron secret
+ * Vercel Cron sends it as `Authorization: Bearer <CRON_SECRET>`; send the same header to run a job locally
+ */
+export function isAuthorizedCronRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error('CRON_SECRET not configured');
+    return false;
+  }
+  return request.headers.get('authorization') === `Bearer ${secret}`;
+}
@@ -0,0 +1,59 @@
+import type { DcaPlan, DcaPlanInput, DcaPlanWithHistory, DcaTrancheFill } from './dca-schedule';
+
+async function readResponse<T>(response: Response, fallbackError: string): Promise<T> {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || fallbackError);
+  }
+  return data;
+}
+
+/**
+ * Fetches the signed-in user's DCA plans from /api/dca
+ * Returns null when there's no Farcaster session
+ */
+export async function fetchDcaPlans(): Promise<DcaPlanWithHistory[] | null> {
+  const response = await fetch('/api/dca');
+  if (response.status === 401) {
+    return null;
+  }
+  const data = await readResponse<{ plans: DcaPlanWithHistory[] }>(response, 'Failed to fetch DCA plans');
+  return data.plans;
+}
+
+export async function createDcaPlan(input: DcaPlanInput): Promise<DcaPlan> {
+  const response = await fetch('/api/dca', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+  const data = await readResponse<{ plan: DcaPlan }>(response, 'Failed to create DCA plan');
+  return data.plan;
+}
+
+export async function setDcaPlanActive(id: string, active: boolean): Promise<void> {
+  const response = await fetch(`/api/dca/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ active }),
+  });
+  await readResponse(response, 'Failed to update DCA plan');
+}
+
+export async function deleteDcaPlan(id: string): Promise<void> {
+  const response = await fetch(`/api/dca/${id}`, { method: 'DELETE' });
+  await readResponse(response, 'Failed to delete DCA plan');
+}
+
+/**
+ * Records a tranche's purchases; the server schedules the next tranche
+ */
+export async function recordDcaTranche(id: string, fills: DcaTrancheFill[]): Promise<DcaPlan> {
+  const response = await fetch(`/api/dca/${id}/tranches`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ fills }),
+  });
+  const data = await readResponse<{ plan: DcaPlan }>(response, 'Failed to record DCA tranche');
+  return data.plan;
+}
@@ -0,0 +1,95 @@
+/**
+ * DCA Helpers
+ * Runs a DCA plan's tranche with the same trade paths as a swap or Buy All
+ */
+
+import { Address, WalletClient, PublicClient, Account } from 'viem';
+import { Profile } from '@/types/profile';
+import { executeTrade, SlippageMode } from './zora-trade-helpers';
+import { executeBuyAll, getBuyAllQuote } from './buy-all-helpers';
+import { recordTrade } from './trades-client';
+import { recordDcaTranche } from './dca-client';
+import type { DcaPlan, DcaTrancheFill } from './dca-schedule';
+
+export interface DcaTrancheResult {
+  fills: DcaTrancheFill[];
+  failed: Array<{ address: string; error: string }>;
+  plan: DcaPlan | null; // The plan with its next due time; null when nothing was bought
+}
+
+type ProgressCallback = (completed: number, total: number, currentCoin: string) => void;
+
+/**
+ * Buys one tranche of a plan and records it
+ * Single-coin plans use executeTrade; baskets are split like a Buy All with the plan's strategy.
+ * The plan only moves to its next due time if something was bought.
+ */
+export async function executeDcaTranche(
+  plan: DcaPlan,
+  profiles: Profile[],
+  walletClient: WalletClient,
+  account: Account,
+  publicClient: PublicClient,
+  slippageMode: SlippageMode,
+  customSlippage: number | undefined,
+  onProgress: ProgressCallback
+): Promise<DcaTrancheResult> {
+  const amount = BigInt(plan.amount_per_tranche);
+  const fills: DcaTrancheFill[] = [];
+  const failed: DcaTrancheResult['failed'] = [];
+
+  if (plan.target === 'coin' && plan.coin_address) {
+    onProgress(0, 1, plan.coin_address);
+
+    const result = await executeTrade({
+      sellAmount: amount,
+      sellToken: plan.pay_token.address,
+      buyToken: plan.coin_address as Address,
+      userAddress: account.address,
+      slippageMode,
+      customSlippage,
+      walletClient,
+      account,
+      publicClient,
+    });
+
+    if (result.success && result.txHash) {
+      void recordTrade(result.txHash, account.address, result.slippageUsed);
+      fills.push({ txHash: result.txHash, coinAddress: plan.coin_address });
+    } else {
+      failed.push({ address: plan.coin_address, error: result.error || 'Unknown error' });
+    }
+
+    onProgress(1, 1, 'Complete');
+  } else {
+    const quote = getBuyAllQuote(profiles, amount, plan.pay_token, { strategy: plan.strategy });
+
+    await executeBuyAll(
+      quote,
+      walletClient,
+      account,
+      publicClient,
+      slippageMode,
+      customSlippage,
+      onProgress,
+      (coins, outcome) => {
+        for (const coin of coins) {
+          if (outcome.status === 'success' && outcome.txHash) {
+            fills.push({ txHash: outcome.txHash, coinAddress: coin.address });
+          } else {
+            failed.push({ address: coin.address, error: outcome.error || 'Unknown error' });
+          }
+        }
+      }
+    );
+  }
+
+  if (fills.length === 0) {
+    console.error(`[DCA] Tranche for plan ${plan.id} bought nothing`);
+    return { fills, failed, plan: null };
+  }
+
+  const updatedPlan = await recordDcaTranche(plan.id, fills);
+  console.log(`[DCA] Tranche for plan ${plan.id}: ${fills.length} bought, ${failed.length} failed`);
+  return { fills, failed, plan: updatedPlan };
+}
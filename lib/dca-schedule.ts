@@ -0,0 +1,170 @@
+/**
+ * DCA Schedule
+ * Plan types and the schedule math for recurring purchases, shared by the server and client
+ *
+ * Everything time-dependent takes the current time from a `Clock`, so schedules can be
+ * stepped through with a fake clock instead of waiting on real time.
+ */
+
+import { formatUnits } from 'viem';
+import type { AllocationStrategy } from './buy-all-allocation';
+import type { PayToken } from './swap-constants';
+
+const COIN_DECIMALS = 18; // Zora coins are standard 18-decimal ERC-20s
+
+export type DcaCadence = 'daily' | 'weekly' | 'biweekly' | 'monthly';
+
+// 'coin': one toad's coin; 'basket': a Buy All across the directory
+export type DcaTarget = 'coin' | 'basket';
+
+export const DCA_CADENCES: ReadonlyArray<{ value: DcaCadence; label: string }> = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'biweekly', label: 'Every 2 weeks' },
+  { value: 'monthly', label: 'Monthly' },
+];
+
+// Basket strategies that need no per-plan input (custom weights and holdings change too often)
+export const DCA_BASKET_STRATEGIES: ReadonlyArray<AllocationStrategy> = ['equal', 'market_cap', 'liquidity', 'newest'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CADENCE_DAYS: Record<Exclude<DcaCadence, 'monthly'>, number> = {
+  daily: 1,
+  weekly: 7,
+  biweekly: 14,
+};
+
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+export interface DcaPlan {
+  id: string;
+  fid: number;
+  wallet_address: string; // Lowercased
+  target: DcaTarget;
+  coin_address: string | null; // Lowercased; set when target is 'coin'
+  strategy: AllocationStrategy; // Basket split
+  pay_token: PayToken;
+  amount_per_tranche: string; // Base units of pay_token
+  cadence: DcaCadence;
+  next_due_at: string;
+  last_reminded_at: string | null;
+  active: boolean;
+  created_at: string;
+}
+
+export interface DcaFill {
+  plan_id: string;
+  tx_hash: string;
+  coin_address: string; // Lowercased
+  amount_in: string; // Base units of the plan's pay token
+  coin_amount: string; // Base units received
+  executed_at: string;
+}
+
+export interface DcaPlanInput {
+  walletAddress: string;
+  target: DcaTarget;
+  coinAddress?: string;
+  strategy: AllocationStrategy;
+  payToken: PayToken;
+  amountPerTranche: string; // Base units of payToken
+  cadence: DcaCadence;
+}
+
+// Amounts aren't sent: the server decodes them from the transaction's receipt
+export interface DcaTrancheFill {
+  txHash: string;
+  coinAddress: string;
+}
+
+export interface DcaCoinSummary {
+  coinAddress: string;
+  tranches: number;
+  totalIn: string; // Base units of the plan's pay token
+  totalCoins: string; // Base units
+  averageEntryPrice: number | null; // Pay token per whole coin
+}
+
+export interface DcaPlanWithHistory extends DcaPlan {
+  fills: DcaFill[]; // Newest first
+  coins: DcaCoinSummary[];
+}
+
+/**
+ * Adds one cadence step to a date (UTC)
+ * Monthly steps keep the day of month, clamped to the length of shorter months
+ */
+export function addCadence(date: Date, cadence: DcaCadence): Date {
+  if (cadence !== 'monthly') {
+    return new Date(date.getTime() + CADENCE_DAYS[cadence] * DAY_MS);
+  }
+
+  const next = new Date(date.getTime());
+  const day = next.getUTCDate();
+  next.setUTCDate(1);
+  next.setUTCMonth(next.getUTCMonth() + 1);
+  const daysInMonth = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+  next.setUTCDate(Math.min(day, daysInMonth));
+  return next;
+}
+
+/**
+ * When the tranche after `dueAt` is due
+ * Steps from the scheduled time rather than when the tranche was bought, so the schedule
+ * doesn't drift; tranches missed entirely are skipped rather than piling up.
+ */
+export function getNextDueAt(dueAt: Date, cadence: DcaCadence, now: Date): Date {
+  let next = addCadence(dueAt, cadence);
+  while (next <= now) {
+    next = addCadence(next, cadence);
+  }
+  return next;
+}
+
+export function isTrancheDue(plan: Pick<DcaPlan, 'active' | 'next_due_at'>, now: Date): boolean {
+  return plan.active && new Date(plan.next_due_at) <= now;
+}
+
+/**
+ * A due plan gets one reminder per tranche
+ */
+export function needsReminder(
+  plan: Pick<DcaPlan, 'active' | 'next_due_at' | 'last_reminded_at'>,
+  now: Date
+): boolean {
+  if (!isTrancheDue(plan, now)) return false;
+  return !plan.last_reminded_at || new Date(plan.last_reminded_at) < new Date(plan.next_due_at);
+}
+
+/**
+ * Totals and average entry price per coin across a plan's fills
+ */
+export function summarizeFills(fills: DcaFill[], payTokenDecimals: number): DcaCoinSummary[] {
+  const byCoin = new Map<string, { tranches: number; totalIn: bigint; totalCoins: bigint }>();
+
+  for (const fill of fills) {
+    const summary = byCoin.get(fill.coin_address) || { tranches: 0, totalIn: 0n, totalCoins: 0n };
+    summary.tranches += 1;
+    summary.totalIn += BigInt(fill.amount_in);
+    summary.totalCoins += BigInt(fill.coin_amount);
+    byCoin.set(fill.coin_address, summary);
+  }
+
+  return Array.from(byCoin.entries()).map(([coinAddress, { tranches, totalIn, totalCoins }]) => {
+    const coins = Number(formatUnits(totalCoins, COIN_DECIMALS));
+    return {
+      coinAddress,
+      tranches,
+      totalIn: totalIn.toString(),
+      totalCoins: totalCoins.toString(),
+      averageEntryPrice: coins > 0 ? Number(formatUnits(totalIn, payTokenDecimals)) / coins : null,
+    };
+  });
+}
@@ -0,0 +1,191 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Clock, DcaPlan } from './dca-schedule';
+import type { Trade } from './trades';
+import { USDC_PAY_TOKEN } from './swap-constants';
+
+type Row = Record<string, any>;
+
+// dca_plans and dca_fills, in memory
+const tables: Record<string, Row[]> = { dca_plans: [], dca_fills: [] };
+
+function fakeQuery(table: string) {
+  const filters: Array<(row: Row) => boolean> = [];
+  let updates: Row | null = null;
+
+  const run = () => {
+    const rows = tables[table].filter((row) => filters.every((filter) => filter(row)));
+    if (updates) rows.forEach((row) => Object.assign(row, updates));
+    return rows;
+  };
+
+  const query = {
+    select: () => query,
+    update: (values: Row) => ((updates = values), query),
+    upsert: async (rows: Row[]) => {
+      tables[table].push(...rows);
+      return { error: null };
+    },
+    eq: (column: string, value: unknown) => (filters.push((row) => row[column] === value), query),
+    lte: (column: string, value: string) => (filters.push((row) => row[column] <= value), query),
+    maybeSingle: async () => ({ data: run()[0] ?? null, error: null }),
+    single: async () => ({ data: run()[0], error: null }),
+    then: (resolve: (result: { data: Row[]; error: null }) => void) => resolve({ data: run(), error: null }),
+  };
+  return query;
+}
+
+const decodeTrades = vi.fn<(txHash: string, wallet: string) => Promise<Trade[]>>();
+const sendNotification = vi.fn(async () => true);
+
+vi.mock('./supabase', () => ({
+  supabase: {},
+  getServiceSupabase: () => ({ from: fakeQuery }),
+}));
+vi.mock('./trades', () => ({ decodeTrades }));
+vi.mock('./notifications', () => ({ sendNotification }));
+
+const { recordDcaTranche, sendDcaReminders } = await import('./dca');
+
+const WALLET = '0x00000000000000000000000000000000000000aa';
+const COIN = '0x00000000000000000000000000000000000000c0';
+const TX_HASH = `0x${'1'.repeat(64)}`;
+
+// A clock the tests move by hand
+let current: Date;
+const clock: Clock = { now: () => current };
+
+function setNow(iso: string) {
+  current = new Date(iso);
+}
+
+function addPlan(overrides: Partial<DcaPlan> = {}): DcaPlan {
+  const plan: DcaPlan = {
+    id: 'plan-1',
+    fid: 1,
+    wallet_address: WALLET,
+    target: 'coin',
+    coin_address: COIN,
+    strategy: 'equal',
+    pay_token: USDC_PAY_TOKEN,
+    amount_per_tranche: '5000000',
+    cadence: 'daily',
+    next_due_at: '2026-10-19T09:00:00.000Z',
+    last_reminded_at: null,
+    active: true,
+    created_at: '2026-10-18T09:00:00.000Z',
+    ...overrides,
+  };
+  tables.dca_plans.push(plan);
+  return plan;
+}
+
+function buy(overrides: Partial<Trade>): Trade {
+  return {
+    tx_hash: TX_HASH,
+    wallet_address: WALLET,
+    coin_address: COIN,
+    side: 'buy',
+    coin_amount: '0',
+    pay_token: USDC_PAY_TOKEN.address.toLowerCase(),
+    pay_amount: '0',
+    usdc_amount: null,
+    slippage: null,
+    block_number: 1,
+    block_timestamp: '2026-10-19T09:30:00.000Z',
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  tables.dca_plans = [];
+  tables.dca_fills = [];
+  decodeTrades.mockReset();
+  sendNotification.mockClear();
+});
+
+describe('sendDcaReminders', () => {
+  it('reminds once per due tranche as the clock moves', async () => {
+    addPlan();
+
+    setNow('2026-10-19T08:59:00.000Z');
+    expect(await sendDcaReminders(clock)).toEqual({ due: 0, reminded: 0 });
+
+    setNow('2026-10-19T09:30:00.000Z');
+    expect(await sendDcaReminders(clock)).toEqual({ due: 1, reminded: 1 });
+    expect(sendNotification).toHaveBeenCalledWith(1, expect.objectContaining({
+      notificationId: 'dca-plan-1-2026-10-19T09:00:00.000Z',
+      path: '/dca?plan=plan-1',
+    }));
+
+    // Still the same tranche an hour later
+    setNow('2026-10-19T10:30:00.000Z');
+    expect(await sendDcaReminders(clock)).toEqual({ due: 0, reminded: 0 });
+    expect(sendNotification).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips paused plans', async () => {
+    addPlan({ active: false });
+
+    setNow('2026-10-20T09:00:00.000Z');
+    expect(await sendDcaReminders(clock)).toEqual({ due: 0, reminded: 0 });
+  });
+});
+
+describe('recordDcaTranche', () => {
+  it('records the amounts decoded from the receipt and schedules the next tranche', async () => {
+    addPlan();
+    decodeTrades.mockResolvedValue([
+      buy({ pay_amount: '4990000', coin_amount: '123000000000000000000' }),
+      // Paid in another token, so not this plan's purchase
+      buy({ coin_address: '0x00000000000000000000000000000000000000c1', pay_token: 'eth', pay_amount: '1', coin_amount: '1' }),
+    ]);
+
+    setNow('2026-10-19T09:45:00.000Z');
+    const plan = await recordDcaTranche(1, 'plan-1', [{ txHash: TX_HASH, coinAddress: COIN }], clock);
+
+    expect(decodeTrades).toHaveBeenCalledWith(TX_HASH, WALLET);
+    expect(tables.dca_fills).toEqual([expect.objectContaining({
+      tx_hash: TX_HASH,
+      coin_address: COIN,
+      amount_in: '4990000',
+      coin_amount: '123000000000000000000',
+      executed_at: '2026-10-19T09:45:00.000Z',
+    })]);
+    expect(plan.next_due_at).toBe('2026-10-20T09:00:00.000Z');
+  });
+
+  it('rejects a tranche the receipt shows no purchase for, without moving the plan', async () => {
+    addPlan();
+    decodeTrades.mockResolvedValue([buy({ side: 'sell', pay_amount: '4990000', coin_amount: '1' })]);
+
+    setNow('2026-10-19T09:45:00.000Z');
+    await expect(recordDcaTranche(1, 'plan-1', [{ txHash: TX_HASH, coinAddress: COIN }], clock))
+      .rejects.toThrow(/No purchase/);
+
+    expect(tables.dca_fills).toEqual([]);
+    expect(tables.dca_plans[0].next_due_at).toBe('2026-10-19T09:00:00.000Z');
+  });
+
+  it('rejects a tranche that is not due yet', async () => {
+    addPlan();
+    decodeTrades.mockResolvedValue([buy({ pay_amount: '5000000', coin_amount: '1' })]);
+
+    setNow('2026-10-19T08:00:00.000Z');
+    await expect(recordDcaTranche(1, 'plan-1', [{ txHash: TX_HASH, coinAddress: COIN }], clock))
+      .rejects.toThrow(/no tranche due/);
+
+    expect(tables.dca_fills).toEqual([]);
+    expect(decodeTrades).not.toHaveBeenCalled();
+  });
+
+  it('skips tranches missed entirely', async () => {
+    addPlan({ cadence: 'weekly' });
+    decodeTrades.mockResolvedValue([buy({ pay_amount: '5000000', coin_amount: '1' })]);
+
+    // Three weeks late: the next tranche is the one after now, not a backlog of three
+    setNow('2026-11-09T12:00:00.000Z');
+    const plan = await recordDcaTranche(1, 'plan-1', [{ txHash: TX_HASH, coinAddress: COIN }], clock);
+
+    expect(plan.next_due_at).toBe('2026-11-16T09:00:00.000Z');
+  });
+});
@@ -0,0 +1,311 @@
+import { Address, Hash } from 'viem';
+import { getServiceSupabase } from './supabase';
+import { sendNotification } from './notifications';
+import { decodeTrades, Trade } from './trades';
+import type { PayTokenAddress } from './swap-constants';
+import {
+  Clock,
+  DcaFill,
+  DcaPlan,
+  DcaPlanInput,
+  DcaPlanWithHistory,
+  DcaTrancheFill,
+  getNextDueAt,
+  isTrancheDue,
+  needsReminder,
+  summarizeFills,
+  systemClock,
+} from './dca-schedule';
+
+const PLAN_COLUMNS =
+  'id, fid, wallet_address, target, coin_address, strategy, pay_token, amount_per_tranche::text, cadence, next_due_at, last_reminded_at, active, created_at';
+
+export interface DcaReminderResult {
+  due: number;
+  reminded: number;
+}
+
+export class DcaPlanNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DcaPlanNotFoundError';
+  }
+}
+
+export class DcaTrancheError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DcaTrancheError';
+  }
+}
+
+/**
+ * Creates a plan; the first tranche is due straight away
+ */
+export async function createDcaPlan(fid: number, input: DcaPlanInput, clock: Clock = systemClock): Promise<DcaPlan> {
+  const { data, error } = await getServiceSupabase()
+    .from('dca_plans')
+    .insert({
+      fid,
+      wallet_address: input.walletAddress.toLowerCase(),
+      target: input.target,
+      coin_address: input.target === 'coin' ? input.coinAddress?.toLowerCase() : null,
+      strategy: input.strategy,
+      pay_token: input.payToken,
+      amount_per_tranche: input.amountPerTranche,
+      cadence: input.cadence,
+      next_due_at: clock.now().toISOString(),
+    })
+    .select(PLAN_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create DCA plan: ${error.message}`);
+  }
+
+  console.log(`[DCA] FID ${fid} created a ${input.cadence} ${input.target} plan`);
+  return data as unknown as DcaPlan;
+}
+
+async function getDcaPlan(fid: number, id: string): Promise<DcaPlan> {
+  const { data, error } = await getServiceSupabase()
+    .from('dca_plans')
+    .select(PLAN_COLUMNS)
+    .eq('fid', fid)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch DCA plan: ${error.message}`);
+  }
+
+  if (!data) {
+    throw new DcaPlanNotFoundError('DCA plan not found');
+  }
+
+  return data as unknown as DcaPlan;
+}
+
+/**
+ * Gets a user's plans with their fills and average entry price per coin
+ */
+export async function getDcaPlans(fid: number): Promise<DcaPlanWithHistory[]> {
+  const db = getServiceSupabase();
+  const { data: plans, error } = await db
+    .from('dca_plans')
+    .select(PLAN_COLUMNS)
+    .eq('fid', fid)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch DCA plans: ${error.message}`);
+  }
+
+  const rows = (plans || []) as unknown as DcaPlan[];
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const { data: fills, error: fillsError } = await db
+    .from('dca_fills')
+    .select('plan_id, tx_hash, coin_address, amount_in::text, coin_amount::text, executed_at')
+    .in('plan_id', rows.map((plan) => plan.id))
+    .order('executed_at', { ascending: false });
+
+  if (fillsError) {
+    throw new Error(`Failed to fetch DCA fills: ${fillsError.message}`);
+  }
+
+  const allFills = (fills || []) as unknown as DcaFill[];
+
+  return rows.map((plan) => {
+    const planFills = allFills.filter((fill) => fill.plan_id === plan.id);
+    return {
+      ...plan,
+      fills: planFills,
+      coins: summarizeFills(planFills, plan.pay_token.decimals),
+    };
+  });
+}
+
+/**
+ * Pauses or resumes a plan
+ * A plan that came due while paused is due as soon as it's resumed
+ */
+export async function setDcaPlanActive(fid: number, id: string, active: boolean): Promise<void> {
+  const { data, error } = await getServiceSupabase()
+    .from('dca_plans')
+    .update({ active, updated_at: new Date().toISOString() })
+    .eq('fid', fid)
+    .eq('id', id)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to update DCA plan: ${error.message}`);
+  }
+
+  if (!data || data.length === 0) {
+    throw new DcaPlanNotFoundError('DCA plan not found');
+  }
+}
+
+export async function deleteDcaPlan(fid: number, id: string): Promise<void> {
+  const { error } = await getServiceSupabase()
+    .from('dca_plans')
+    .delete()
+    .eq('fid', fid)
+    .eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to delete DCA plan: ${error.message}`);
+  }
+}
+
+/**
+ * What each transaction paid and received per coin, decoded from its receipt (see decodeTrades)
+ * Only buys paid in the plan's pay token count; reverted or undecodable transactions are skipped.
+ */
+async function getTranchePurchases(
+  txHashes: string[],
+  walletAddress: string,
+  payToken: PayTokenAddress
+): Promise<Map<string, { amountIn: bigint; coinAmount: bigint }>> {
+  const purchases = new Map<string, { amountIn: bigint; coinAmount: bigint }>(); // `${txHash}:${coin}` → amounts
+
+  for (const txHash of Array.from(new Set(txHashes.map((hash) => hash.toLowerCase())))) {
+    let trades: Trade[];
+    try {
+      trades = await decodeTrades(txHash as Hash, walletAddress as Address);
+    } catch (error) {
+      console.error(`[DCA] Could not decode ${txHash}:`, error);
+      continue;
+    }
+
+    for (const trade of trades) {
+      if (trade.side !== 'buy' || trade.pay_token !== payToken.toLowerCase()) continue;
+      purchases.set(`${txHash}:${trade.coin_address}`, {
+        amountIn: BigInt(trade.pay_amount),
+        coinAmount: BigInt(trade.coin_amount),
+      });
+    }
+  }
+
+  return purchases;
+}
+
+/**
+ * Records a tranche's purchases and moves the plan to its next due time
+ * Amounts paid and received are decoded from the receipts; fills with no purchase are dropped.
+ * Throws DcaTrancheError if the tranche isn't due or no fill was a purchase, leaving the plan as is.
+ */
+export async function recordDcaTranche(
+  fid: number,
+  planId: string,
+  fills: DcaTrancheFill[],
+  clock: Clock = systemClock
+): Promise<DcaPlan> {
+  const plan = await getDcaPlan(fid, planId);
+  const now = clock.now();
+  const db = getServiceSupabase();
+
+  if (!isTrancheDue(plan, now)) {
+    throw new DcaTrancheError('This plan has no tranche due');
+  }
+
+  const purchases = await getTranchePurchases(fills.map((fill) => fill.txHash), plan.wallet_address, plan.pay_token.address);
+  const rows = fills.flatMap((fill) => {
+    const txHash = fill.txHash.toLowerCase();
+    const coinAddress = fill.coinAddress.toLowerCase();
+    const purchase = purchases.get(`${txHash}:${coinAddress}`);
+    if (!purchase || purchase.coinAmount === 0n) return [];
+
+    return [{
+      plan_id: plan.id,
+      tx_hash: txHash,
+      coin_address: coinAddress,
+      amount_in: purchase.amountIn.toString(),
+      coin_amount: purchase.coinAmount.toString(),
+      executed_at: now.toISOString(),
+    }];
+  });
+
+  if (rows.length === 0) {
+    throw new DcaTrancheError('No purchase from this plan was found in the transactions');
+  }
+
+  const { error: fillsError } = await db
+    .from('dca_fills')
+    .upsert(rows, { onConflict: 'tx_hash,coin_address' });
+
+  if (fillsError) {
+    throw new Error(`Failed to save DCA fills: ${fillsError.message}`);
+  }
+
+  const nextDueAt = getNextDueAt(new Date(plan.next_due_at), plan.cadence, now);
+  const { data, error } = await db
+    .from('dca_plans')
+    .update({ next_due_at: nextDueAt.toISOString(), updated_at: now.toISOString() })
+    .eq('id', plan.id)
+    .select(PLAN_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to advance DCA plan: ${error.message}`);
+  }
+
+  console.log(`[DCA] Plan ${plan.id} recorded ${rows.length} fill(s), next due ${nextDueAt.toISOString()}`);
+  return data as unknown as DcaPlan;
+}
+
+/**
+ * Notifies the owner of every plan with a tranche due, once per tranche
+ */
+export async function sendDcaReminders(clock: Clock = systemClock): Promise<DcaReminderResult> {
+  const now = clock.now();
+  const db = getServiceSupabase();
+
+  const { data, error } = await db
+    .from('dca_plans')
+    .select(PLAN_COLUMNS)
+    .eq('active', true)
+    .lte('next_due_at', now.toISOString());
+
+  if (error) {
+    throw new Error(`Failed to fetch due DCA plans: ${error.message}`);
+  }
+
+  const due = ((data || []) as unknown as DcaPlan[]).filter((plan) => needsReminder(plan, now));
+  let reminded = 0;
+
+  for (const plan of due) {
+    let delivered = false;
+    try {
+      delivered = await sendNotification(plan.fid, {
+        notificationId: `dca-${plan.id}-${plan.next_due_at}`.slice(0, 128),
+        title: 'Your DCA buy is due 🐸',
+        body: plan.target === 'basket'
+          ? 'Time for your next Buy All tranche. Tap to buy.'
+          : 'Time for your next toad coin tranche. Tap to buy.',
+        path: `/dca?plan=${plan.id}`,
+      });
+    } catch (error) {
+      console.error(`[DCA] Failed to remind plan ${plan.id}:`, error);
+      continue;
+    }
+
+    // Marked even when no client took it, so users without notifications aren't retried every run
+    const { error: updateError } = await db
+      .from('dca_plans')
+      .update({ last_reminded_at: now.toISOString() })
+      .eq('id', plan.id);
+
+    if (updateError) {
+      console.error(`[DCA] Failed to mark plan ${plan.id} reminded:`, updateError);
+    }
+
+    if (delivered) reminded++;
+  }
+
+  console.log(`[DCA] ${due.length} plan(s) due, ${reminded} reminder(s) delivered`);
+  return { due: due.length, reminded };
+}
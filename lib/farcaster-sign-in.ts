@@ -0,0 +1,48 @@
+import sdk from '@farcaster/frame-sdk';
+
+/**
+ * Client-side Sign In With Farcaster flow
+ * Gets a server nonce, asks the Farcaster client to sign it, and exchanges the
+ * signature for an HTTP-only session cookie via /api/auth/farcaster
+ */
+export async function signInWithFarcaster(): Promise<void> {
+  const nonceResponse = await fetch('/api/auth/nonce');
+  const nonceData = await nonceResponse.json();
+
+  if (!nonceResponse.ok || !nonceData.nonce) {
+    throw new Error(nonceData.error || 'Failed to start sign in');
+  }
+
+  const { message, signature } = await sdk.actions.signIn({
+    nonce: nonceData.nonce,
+    acceptAuthAddress: true,
+  });
+
+  const authResponse = await fetch('/api/auth/farcaster', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ message, signature, nonce: nonceData.nonce }),
+  });
+  const authData = await authResponse.json();
+
+  if (!authResponse.ok) {
+    throw new Error(authData.error || 'Failed to sign in with Farcaster');
+  }
+}
+
+/**
+ * Signs in only if there is no session for this FID yet
+ */
+export async function ensureFarcasterSession(fid: number): Promise<void> {
+  try {
+    const response = await fetch('/api/auth/farcaster');
+    const session = await response.json();
+    if (session.authenticated && session.fid === fid) {
+      return;
+    }
+  } catch (error) {
+    console.error('Error checking session:', error);
+  }
+
+  await signInWithFarcaster();
+}
@@ -1,6 +1,7 @@
 import { FarcasterUser } from '@/types/profile';
+import { getUser, getUserAddresses, getUsers, isFollowing } from './neynar';
 
-const NEYNAR_API_BASE = 'https://api.neynar.com/v2/farcaster';
+export { NeynarUnavailableError } from './neynar';
 
 /**
  * @toadgod1017 FID
@@ -10,86 +11,38 @@ const TOADGOD_FID = 482739;
 
 /**
  * Fetches a Farcaster user by FID using Neynar API
+ * Returns null if the FID has no user; throws NeynarUnavailableError if Neynar is down
  */
 export async function getFarcasterUser(fid: number): Promise<FarcasterUser | null> {
-  try {
-    if (!process.env.NEYNAR_API_KEY) {
-      console.error('NEYNAR_API_KEY not configured');
-      return null;
-    }
-
-    const response = await fetch(`${NEYNAR_API_BASE}/user/bulk?fids=${fid}`, {
-      headers: {
-        'api_key': process.env.NEYNAR_API_KEY,
-      },
-    });
+  return getUser(fid);
+}
 
-    if (!response.ok) {
-      return null;
-    }
+/**
+ * Fetches many Farcaster users by FID, bypassing the cache
+ * Returns a map keyed by FID; FIDs Neynar doesn't return are omitted.
+ * Throws NeynarUnavailableError so callers can tell "missing" from "unavailable".
+ */
+export async function getFarcasterUsers(fids: number[]): Promise<Map<number, FarcasterUser>> {
+  return getUsers(fids, { fresh: true });
+}
 
-    const data = await response.json();
-    
-    // Neynar returns an array of users
-    if (!data.users || data.users.length === 0) {
-      return null;
-    }
-    
-    const user = data.users[0];
-    
-    return {
-      fid: user.fid,
-      username: user.username,
-      pfp_url: user.pfp_url || '',
-      display_name: user.display_name,
-      bio: user.profile?.bio?.text,
-    };
-  } catch (error) {
-    console.error('Error fetching Farcaster user:', error);
-    return null;
-  }
+/**
+ * Fetches an FID's custody and verified Ethereum addresses, lowercased
+ * Throws NeynarUnavailableError if Neynar is down
+ */
+export async function getFarcasterAddresses(fid: number): Promise<string[]> {
+  return getUserAddresses(fid);
 }
 
 /**
  * Checks if a user follows another user on Farcaster using Neynar API
+ * Throws NeynarUnavailableError if Neynar is down
  */
 export async function checkFollowerStatus(
   followerFid: number,
   followedFid: number
 ): Promise<boolean> {
-  try {
-    if (!process.env.NEYNAR_API_KEY) {
-      console.error('NEYNAR_API_KEY not configured');
-      return false;
-    }
-
-    // Use Neynar's user/bulk endpoint with viewer_fid to check if follower follows the target user
-    const response = await fetch(
-      `${NEYNAR_API_BASE}/user/bulk?fids=${followedFid}&viewer_fid=${followerFid}`,
-      {
-        headers: {
-          'api_key': process.env.NEYNAR_API_KEY,
-        },
-      }
-    );
-
-    if (!response.ok) {
-      return false;
-    }
-
-    const data = await response.json();
-    
-    // Check if the viewer (followerFid) follows the target user (followedFid)
-    if (!data.users || data.users.length === 0) {
-      return false;
-    }
-    
-    const user = data.users[0];
-    return user.viewer_context?.following === true;
-  } catch (error) {
-    console.error('Error checking follower status:', error);
-    return false;
-  }
+  return isFollowing(followerFid, followedFid);
 }
 
 /**
@@ -0,0 +1,108 @@
+/**
+ * Fork Test Helpers
+ * Setup for tests that swap against an anvil fork of Base, e.g. `anvil --fork-url https://mainnet.base.org`.
+ * Those tests are skipped unless FORK_RPC_URL points at the fork.
+ */
+
+import {
+  Address,
+  PublicClient,
+  createPublicClient,
+  createTestClient,
+  createWalletClient,
+  encodeAbiParameters,
+  erc20Abi,
+  http,
+  keccak256,
+  pad,
+  parseAbi,
+  parseEther,
+  toHex,
+} from 'viem';
+import { base } from 'viem/chains';
+import { privateKeyToAccount } from 'viem/accounts';
+import { PoolKey } from './v4-quoter-helpers';
+
+export const FORK_RPC_URL = process.env.FORK_RPC_URL;
+
+// Anvil's first test key, funded on the fork by setupForkAccount
+export const forkAccount = privateKeyToAccount('0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80');
+
+// Zora CoinV4: the pool the coin trades in and the currency it's paired with
+const COIN_V4_ABI = parseAbi([
+  'function getPoolKey() view returns ((address currency0, address currency1, uint24 fee, int24 tickSpacing, address hooks))',
+  'function currency() view returns (address)',
+]);
+
+// ERC-20 balance mappings are probed in slots 0-20, then OpenZeppelin v5's namespaced ERC20 storage
+const PROBED_BALANCE_SLOTS = 21;
+const ERC7201_ERC20_STORAGE = '0x52c63247e1f47db19d5ce0460030c497f067ca4cebf71ba98eeadabe20bace00';
+
+export type ForkClients = ReturnType<typeof createForkClients>;
+
+export function createForkClients() {
+  const transport = http(FORK_RPC_URL);
+  return {
+    publicClient: createPublicClient({ chain: base, transport }) as PublicClient,
+    walletClient: createWalletClient({ account: forkAccount, chain: base, transport }),
+    testClient: createTestClient({ mode: 'anvil', chain: base, transport }),
+  };
+}
+
+/**
+ * Gives the test account ETH for gas
+ */
+export async function setupForkAccount({ testClient }: ForkClients): Promise<void> {
+  await testClient.setBalance({ address: forkAccount.address, value: parseEther('10') });
+}
+
+/**
+ * Sets an ERC-20 balance by writing its storage, finding the balance mapping by trial
+ */
+export async function fundErc20(
+  token: Address,
+  owner: Address,
+  amount: bigint,
+  { publicClient, testClient }: ForkClients
+): Promise<void> {
+  const mappingSlots = [
+    ...Array.from({ length: PROBED_BALANCE_SLOTS }, (_, i) => pad(toHex(i))),
+    ERC7201_ERC20_STORAGE,
+  ] as const;
+
+  for (const mappingSlot of mappingSlots) {
+    const slot = keccak256(encodeAbiParameters([{ type: 'address' }, { type: 'bytes32' }], [owner, mappingSlot]));
+    const previous = await publicClient.getStorageAt({ address: token, slot });
+
+    await testClient.setStorageAt({ address: token, index: slot, value: pad(toHex(amount)) });
+    const balance = await publicClient.readContract({
+      address: token,
+      abi: erc20Abi,
+      functionName: 'balanceOf',
+      args: [owner],
+    });
+    if (balance === amount) return;
+
+    await testClient.setStorageAt({ address: token, index: slot, value: previous ?? pad('0x0') });
+  }
+
+  throw new Error(`Could not find the balance slot of ${token}`);
+}
+
+export function getErc20Balance(token: Address, owner: Address, { publicClient }: ForkClients): Promise<bigint> {
+  return publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'balanceOf', args: [owner] });
+}
+
+/**
+ * A Zora coin's own pool and the currency it's paired with in it
+ */
+export async function getCoinPool(
+  coin: Address,
+  { publicClient }: ForkClients
+): Promise<{ poolKey: PoolKey; currency: Address }> {
+  const [poolKey, currency] = await Promise.all([
+    publicClient.readContract({ address: coin, abi: COIN_V4_ABI, functionName: 'getPoolKey' }),
+    publicClient.readContract({ address: coin, abi: COIN_V4_ABI, functionName: 'currency' }),
+  ]);
+  return { poolKey, currency };
+}
@@ -0,0 +1,21 @@
+/**
+ * Formats a USD amount compactly for cards (e.g. $12.3K, $1.2M)
+ */
+export function formatUsdCompact(value: number): string {
+  if (value >= 1000) {
+    return `$${new Intl.NumberFormat('en-US', {
+      notation: 'compact',
+      maximumFractionDigits: 1,
+    }).format(value)}`;
+  }
+  return `$${value.toFixed(value >= 1 ? 2 : 0)}`;
+}
+
+/**
+ * Formats a token price, keeping significant digits for sub-cent prices
+ */
+export function formatUsdPrice(value: number): string {
+  if (value === 0) return '$0';
+  if (value >= 1) return `$${value.toFixed(2)}`;
+  return `$${value.toPrecision(3)}`;
+}
@@ -0,0 +1,330 @@
+/**
+ * Gas Helpers
+ * Network fee estimates for every swap path, priced in USD from the ETH/USDC V4 pool
+ */
+
+import { Address, Hex, PublicClient, encodeFunctionData, erc20Abi, maxUint256 } from 'viem';
+import { base } from 'viem/chains';
+import { estimateL1Fee } from 'viem/op-stack';
+import { createTradeCall } from '@zoralabs/coins-sdk';
+import { PERMIT2_ADDRESS, PayTokenAddress, USDC_ADDRESS, isNativeEth } from './swap-constants';
+import { getPoolState } from './v4-state-helpers';
+import { PoolKey } from './v4-quoter-helpers';
+import { UNIVERSAL_ROUTER_ADDRESS, buildV4SwapTransaction } from './universal-router-helpers';
+import { SimulatedPermit2Allowance, getPermit2AllowanceOverride, simulateBatch } from './swap-simulation';
+import { TradeCall, buildBatchedTradeCalls, toSimulatedAllowances } from './zora-trade-helpers';
+import { runWithConcurrency } from './async-helpers';
+import type { SwapProvider } from './price-impact';
+import type { QuoteOption } from './quote-client';
+import type { BuyAllExecutionMode, BuyAllQuote } from './buy-all-helpers';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000' as Address;
+
+// Gas used when a swap can't be estimated, e.g. before its input token is approved
+export const DEFAULT_SWAP_GAS: Record<SwapProvider, bigint> = {
+  zora: 350_000n, // SDK swap through the Zora hook, including the permit
+  '0x': 300_000n,
+  'uniswap-v4': 250_000n,
+};
+
+// A one-time ERC-20 approval (to Permit2, or to 0x's spender)
+export const APPROVAL_GAS = 60_000n;
+
+// The native ETH/USDC 0.05% pool on Base, for pricing gas in USD
+const ETH_USDC_POOL: PoolKey = {
+  currency0: ZERO_ADDRESS,
+  currency1: USDC_ADDRESS as Address,
+  fee: 500,
+  tickSpacing: 10,
+  hooks: ZERO_ADDRESS,
+};
+
+// How long an ETH price read is reused
+const ETH_PRICE_TTL_MS = 60_000;
+
+// Coins whose swaps are estimated at once for a sequential Buy All
+const BUY_ALL_ESTIMATE_CONCURRENCY = 4;
+
+let cachedEthPrice: { priceUsd: number; fetchedAt: number } | null = null;
+
+/**
+ * A swap's expected network fee
+ */
+export interface NetworkFee {
+  gas: bigint; // Gas units, including any approval
+  feeWei: bigint; // L2 execution plus the L1 data fee
+  feeUsd: number | null; // Null when ETH couldn't be priced
+  estimated: boolean; // False when a typical amount stood in for the swap's own estimate
+}
+
+/**
+ * ETH's USD price from the ETH/USDC pool's current sqrt price
+ */
+export async function getEthPriceUsd(): Promise<number | null> {
+  if (cachedEthPrice && Date.now() - cachedEthPrice.fetchedAt < ETH_PRICE_TTL_MS) {
+    return cachedEthPrice.priceUsd;
+  }
+
+  try {
+    const { sqrtPriceX96 } = await getPoolState(ETH_USDC_POOL);
+    if (sqrtPriceX96 === 0n) return null;
+
+    // price = (sqrtPriceX96 / 2^96)^2 USDC base units per wei; scale by the 18 - 6 decimal gap
+    const sqrtPrice = Number(sqrtPriceX96) / 2 ** 96;
+    const priceUsd = sqrtPrice * sqrtPrice * 10 ** 12;
+
+    cachedEthPrice = { priceUsd, fetchedAt: Date.now() };
+    return priceUsd;
+  } catch (error) {
+    console.error('[Gas] Error reading ETH price:', error);
+    return null;
+  }
+}
+
+/**
+ * Base's L1 data fee for posting the calls' calldata, from the GasPriceOracle
+ * Calls it can't price add nothing.
+ */
+async function getL1DataFee(account: Address, calls: TradeCall[], publicClient: PublicClient): Promise<bigint> {
+  const fees = await Promise.all(calls.map((call) =>
+    estimateL1Fee(publicClient, { chain: base, account, ...call }).catch((error) => {
+      console.log('[Gas] L1 fee estimate failed:', error instanceof Error ? error.message : error);
+      return 0n;
+    })
+  ));
+  return fees.reduce((sum, fee) => sum + fee, 0n);
+}
+
+/**
+ * Prices gas at the current Base gas price, plus the L1 data fee of the calls the account sends
+ */
+export async function getNetworkFee(
+  gas: bigint,
+  estimated: boolean,
+  publicClient: PublicClient,
+  l1?: { account: Address; calls: TradeCall[] }
+): Promise<NetworkFee> {
+  const [gasPrice, l1FeeWei, ethPriceUsd] = await Promise.all([
+    publicClient.getGasPrice(),
+    l1 ? getL1DataFee(l1.account, l1.calls, publicClient) : 0n,
+    getEthPriceUsd(),
+  ]);
+  const feeWei = gas * gasPrice + l1FeeWei;
+
+  return {
+    gas,
+    feeWei,
+    feeUsd: ethPriceUsd !== null ? (Number(feeWei) / 1e18) * ethPriceUsd : null,
+    estimated,
+  };
+}
+
+export interface SwapGasParameters {
+  option: QuoteOption | null; // Null for a Zora SDK trade without a quote, as in Buy All
+  sellToken: PayTokenAddress;
+  buyToken: PayTokenAddress;
+  sellAmount: bigint;
+  slippage: number;
+  account: Address;
+  publicClient: PublicClient;
+}
+
+export interface SwapGasEstimate {
+  swapGas: bigint;
+  approvalGas: bigint; // APPROVAL_GAS when the input token still needs approving, else 0
+  estimated: boolean;
+  calls: TradeCall[]; // The transactions sent (approval, then swap when it could be built), for the L1 fee
+}
+
+/**
+ * The spender's approval, as sent before a swap that needs one
+ */
+function toApprovalCall(sellToken: Address, spender: Address): TradeCall {
+  return {
+    to: sellToken,
+    data: encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [spender, maxUint256] }),
+    value: 0n,
+  };
+}
+
+/**
+ * Gas for approving the spender first, if its allowance doesn't cover the amount
+ */
+async function getApprovalGas(
+  sellToken: PayTokenAddress,
+  spender: Address,
+  amount: bigint,
+  account: Address,
+  publicClient: PublicClient
+): Promise<bigint> {
+  if (isNativeEth(sellToken)) return 0n;
+
+  const allowance = await publicClient.readContract({
+    address: sellToken,
+    abi: erc20Abi,
+    functionName: 'allowance',
+    args: [account, spender],
+  }).catch(() => 0n);
+
+  return allowance < amount ? APPROVAL_GAS : 0n;
+}
+
+/**
+ * Estimates a swap's gas on its prepared calldata, plus an approval if one is needed
+ * 0x quotes carry their transaction and V4 swaps are built locally; Zora trades are built with
+ * the SDK's createTradeCall. Unsigned permits are estimated with their allowance faked in Permit2,
+ * as in swap simulation. ERC-20 swaps that still need an approval can't be estimated yet, so they
+ * fall back to the quoter's estimate or a typical amount.
+ */
+export async function estimateSwapGas(params: SwapGasParameters): Promise<SwapGasEstimate> {
+  const { option, sellToken, buyToken, sellAmount, slippage, account, publicClient } = params;
+  const provider = option?.provider ?? 'zora';
+
+  const spender = (option?.transaction?.spender ?? PERMIT2_ADDRESS) as Address;
+  const approvalGas = await getApprovalGas(sellToken, spender, sellAmount, account, publicClient);
+
+  let call: { to: Address; data: Hex; value: bigint } | null = null;
+  let permit2Allowances: SimulatedPermit2Allowance[] = [];
+  try {
+    if (option?.transaction) {
+      call = {
+        to: option.transaction.to as Address,
+        data: option.transaction.data as Hex,
+        value: BigInt(option.transaction.value),
+      };
+    } else if (provider === 'uniswap-v4' && option?.v4Path) {
+      call = buildV4SwapTransaction({
+        path: option.v4Path,
+        sellToken,
+        buyToken,
+        sellAmount,
+        amountOutMinimum: option.minAmountOut,
+      });
+      if (!isNativeEth(sellToken)) {
+        permit2Allowances = [{ token: sellToken, spender: UNIVERSAL_ROUTER_ADDRESS, amount: sellAmount }];
+      }
+    } else if (provider === 'zora') {
+      const quote = await createTradeCall({
+        sell: isNativeEth(sellToken) ? { type: 'eth' } : { type: 'erc20', address: sellToken },
+        buy: isNativeEth(buyToken) ? { type: 'eth' } : { type: 'erc20', address: buyToken },
+        amountIn: sellAmount,
+        slippage,
+        sender: account,
+      });
+      call = {
+        to: quote.call.target as Address,
+        data: quote.call.data as Hex,
+        value: BigInt(quote.call.value),
+      };
+      permit2Allowances = toSimulatedAllowances(quote.permits ?? []);
+    }
+  } catch (error) {
+    console.log('[Gas] Could not build swap call:', error instanceof Error ? error.message : error);
+  }
+
+  const calls = [
+    ...(approvalGas > 0n && !isNativeEth(sellToken) ? [toApprovalCall(sellToken, spender)] : []),
+    ...(call ? [call] : []),
+  ];
+
+  if (call && approvalGas === 0n) {
+    try {
+      const stateOverride = permit2Allowances.length
+        ? await getPermit2AllowanceOverride(account, permit2Allowances, publicClient)
+        : undefined;
+      const swapGas = await publicClient.estimateGas({ account, ...call, stateOverride });
+      return { swapGas, approvalGas, estimated: true, calls };
+    } catch (error) {
+      console.log('[Gas] Swap estimate failed, using a typical amount:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  return { swapGas: option?.gasEstimate ?? DEFAULT_SWAP_GAS[provider], approvalGas, estimated: false, calls };
+}
+
+/**
+ * Buy All's fee across all of its transactions
+ */
+export interface BuyAllNetworkFee extends NetworkFee {
+  transactions: number;
+}
+
+/**
+ * Estimates Buy All's total fee
+ * A batched run is estimated once as the whole EIP-5792 batch it sends, approvals included.
+ * A sequential run, or a batch that can't be simulated, adds up each coin's own Zora trade,
+ * each sent as its own transaction after the Permit2 approval (if needed).
+ */
+export async function estimateBuyAllFee(params: {
+  quote: BuyAllQuote;
+  executionMode: BuyAllExecutionMode;
+  slippage: number;
+  account: Address;
+  publicClient: PublicClient;
+}): Promise<BuyAllNetworkFee | null> {
+  const { quote, executionMode, slippage, account, publicClient } = params;
+  if (quote.coins.length === 0) return null;
+
+  if (executionMode === 'batched') {
+    try {
+      const calls = await buildBatchedTradeCalls({
+        sellToken: quote.payToken.address,
+        trades: quote.coins.map((coin) => ({ buyToken: coin.address as Address, sellAmount: coin.amountIn })),
+        userAddress: account,
+        publicClient,
+      }, slippage, false);
+      const gas = await simulateBatch({ account, calls, publicClient });
+      if (gas !== null) {
+        return { ...(await getNetworkFee(gas, true, publicClient, { account, calls })), transactions: 1 };
+      }
+    } catch (error) {
+      console.log('[Gas] Batch estimate failed, adding up each coin:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  const estimates: SwapGasEstimate[] = [];
+  const [approvalGas] = await Promise.all([
+    getApprovalGas(quote.payToken.address, PERMIT2_ADDRESS, quote.totalAmountIn, account, publicClient),
+    runWithConcurrency(quote.coins, BUY_ALL_ESTIMATE_CONCURRENCY, async (coin) => {
+      estimates.push(await estimateSwapGas({
+        option: null,
+        sellToken: quote.payToken.address,
+        buyToken: coin.address as Address,
+        sellAmount: coin.amountIn,
+        slippage,
+        account,
+        publicClient,
+      }));
+    }),
+  ]);
+
+  const swapGas = estimates.reduce((sum, estimate) => sum + estimate.swapGas, 0n);
+  const estimated = estimates.every((estimate) => estimate.estimated);
+  // Each coin's estimate includes the approval while it's missing, but it's only sent once
+  const calls = estimates.flatMap((estimate) => estimate.calls.slice(estimate.approvalGas > 0n ? 1 : 0));
+  if (approvalGas > 0n && !isNativeEth(quote.payToken.address)) {
+    calls.unshift(toApprovalCall(quote.payToken.address, PERMIT2_ADDRESS));
+  }
+
+  const fee = await getNetworkFee(swapGas + approvalGas, estimated, publicClient, { account, calls });
+  const transactions = executionMode === 'batched' ? 1 : quote.coins.length + (approvalGas > 0n ? 1 : 0);
+
+  return { ...fee, transactions };
+}
+
+/**
+ * The ETH a swap needs on top of the fee: the input amount when paying with ETH
+ */
+export function getEthRequired(fee: NetworkFee, sellToken: PayTokenAddress, sellAmount: bigint): bigint {
+  return fee.feeWei + (isNativeEth(sellToken) ? sellAmount : 0n);
+}
+
+/**
+ * Formats a fee in USD, or in ETH when it couldn't be priced
+ */
+export function formatNetworkFee(fee: NetworkFee): string {
+  if (fee.feeUsd !== null) {
+    return fee.feeUsd < 0.01 ? '<$0.01' : `$${fee.feeUsd.toFixed(2)}`;
+  }
+  return `${(Number(fee.feeWei) / 1e18).toPrecision(2)} ETH`;
+}
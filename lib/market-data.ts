@@ -0,0 +1,244 @@
+import { Address, createPublicClient, erc20Abi, http } from 'viem';
+import { base } from 'viem/chains';
+import { getCoin } from '@zoralabs/coins-sdk';
+import { CoinStats } from '@/types/profile';
+import { supabase, getServiceSupabase } from './supabase';
+import { detectPoolsWithZoraFallback } from './pool-detection-helpers';
+import { getV4Quote, PoolKey } from './v4-quoter-helpers';
+import { getPoolState } from './v4-state-helpers';
+import { fetchTokenDecimals } from './token-helpers';
+import { USDC_ADDRESS } from './swap-constants';
+
+// Stats older than this are recomputed by the refresh cron
+export const COIN_STATS_TTL_MS = 15 * 60 * 1000; // 15 minutes
+
+const COIN_DECIMALS = 18; // Zora coins are standard 18-decimal ERC-20s
+const Q96 = 2 ** 96;
+
+const baseClient = createPublicClient({
+  chain: base,
+  transport: http(process.env.BASE_RPC_URL || 'https://mainnet.base.org'),
+});
+
+/**
+ * Market data reported by the Zora API for a coin
+ */
+interface ZoraCoinMarketData {
+  marketCapUsd: number | null;
+  volume24hUsd: number | null;
+  priceUsd: number | null;
+  poolTokenPriceUsd: number | null; // USD price of the coin's pool currency
+}
+
+/**
+ * Parses a numeric string from an API response, treating empty and non-finite values as missing
+ */
+function parseAmount(value: string | undefined | null): number | null {
+  if (!value) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Fetches market cap, volume and pricing from the Zora API
+ */
+async function fetchZoraMarketData(coinAddress: Address): Promise<ZoraCoinMarketData | null> {
+  try {
+    const response = await getCoin({ address: coinAddress, chain: base.id });
+    const coin = response.data?.zora20Token;
+    if (!coin) return null;
+
+    const priceUsd = parseAmount(coin.tokenPrice?.priceInUsdc);
+    const priceInPoolToken = parseAmount(coin.tokenPrice?.priceInPoolToken);
+
+    return {
+      marketCapUsd: parseAmount(coin.marketCap),
+      volume24hUsd: parseAmount(coin.volume24h),
+      priceUsd,
+      poolTokenPriceUsd: priceUsd !== null && priceInPoolToken ? priceUsd / priceInPoolToken : null,
+    };
+  } catch (error) {
+    console.log('[MarketData] Zora API unavailable for', coinAddress, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Reads the pool's in-range liquidity and converts the pair-currency side of the
+ * virtual reserves to USD (doubled to account for the coin side)
+ */
+async function fetchLiquidityDepthUsd(
+  poolKey: PoolKey,
+  pairCurrency: Address,
+  pairDecimals: number,
+  pairPriceUsd: number
+): Promise<number | null> {
+  try {
+    const { sqrtPriceX96, liquidity } = await getPoolState(poolKey);
+
+    if (sqrtPriceX96 === 0n || liquidity === 0n) {
+      return 0;
+    }
+
+    const sqrtPrice = Number(sqrtPriceX96) / Q96;
+    const isPairCurrency0 = poolKey.currency0.toLowerCase() === pairCurrency.toLowerCase();
+    // Virtual reserves: x = L / sqrtP, y = L * sqrtP
+    const pairReserve = isPairCurrency0
+      ? Number(liquidity) / sqrtPrice
+      : Number(liquidity) * sqrtPrice;
+
+    return 2 * (pairReserve / 10 ** pairDecimals) * pairPriceUsd;
+  } catch (error) {
+    console.error('[MarketData] Error reading pool liquidity:', error);
+    return null;
+  }
+}
+
+/**
+ * Fetches the coin's total supply in whole tokens
+ */
+async function fetchTotalSupply(coinAddress: Address): Promise<number | null> {
+  try {
+    const totalSupply = await baseClient.readContract({
+      address: coinAddress,
+      abi: erc20Abi,
+      functionName: 'totalSupply',
+    });
+    return Number(totalSupply) / 10 ** COIN_DECIMALS;
+  } catch (error) {
+    console.error('[MarketData] Error reading total supply:', error);
+    return null;
+  }
+}
+
+/**
+ * Computes market data for a creator coin from its V4 pool
+ * Price comes from quoting 1 coin into the pool's pair currency; the pair currency is
+ * priced in USD via USDC directly or the Zora API. Falls back to Zora's reported price.
+ */
+export async function computeCoinStats(coinAddress: Address): Promise<CoinStats> {
+  console.log('[MarketData] Computing stats for', coinAddress);
+
+  const [zora, pools, totalSupply] = await Promise.all([
+    fetchZoraMarketData(coinAddress),
+    detectPoolsWithZoraFallback(coinAddress),
+    fetchTotalSupply(coinAddress),
+  ]);
+
+  const poolKey = pools.primaryPool;
+  let priceUsd = zora?.priceUsd ?? null;
+  let liquidityUsd: number | null = null;
+  let pairCurrency: Address | null = null;
+
+  if (poolKey) {
+    pairCurrency = poolKey.currency0.toLowerCase() === coinAddress.toLowerCase()
+      ? poolKey.currency1
+      : poolKey.currency0;
+
+    const pairPriceUsd = pairCurrency.toLowerCase() === USDC_ADDRESS.toLowerCase()
+      ? 1
+      : zora?.poolTokenPriceUsd ?? null;
+
+    if (pairPriceUsd !== null) {
+      const pairDecimals = await fetchTokenDecimals(pairCurrency);
+      const quote = await getV4Quote(poolKey, coinAddress, pairCurrency, 10n ** BigInt(COIN_DECIMALS));
+
+      if (quote && quote.amountOut > 0n) {
+        priceUsd = (Number(quote.amountOut) / 10 ** pairDecimals) * pairPriceUsd;
+      }
+
+      liquidityUsd = await fetchLiquidityDepthUsd(poolKey, pairCurrency, pairDecimals, pairPriceUsd);
+    }
+  }
+
+  const fdvUsd = priceUsd !== null && totalSupply !== null ? priceUsd * totalSupply : null;
+
+  return {
+    coin_address: coinAddress.toLowerCase(),
+    price_usd: priceUsd,
+    market_cap_usd: zora?.marketCapUsd ?? fdvUsd,
+    fdv_usd: fdvUsd,
+    liquidity_usd: liquidityUsd,
+    volume_24h_usd: zora?.volume24hUsd ?? null,
+    pool_currency: pairCurrency ? pairCurrency.toLowerCase() : null,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Recomputes and stores stats for a coin
+ */
+export async function refreshCoinStats(coinAddress: Address): Promise<CoinStats> {
+  const stats = await computeCoinStats(coinAddress);
+
+  const { error } = await getServiceSupabase()
+    .from('coin_stats')
+    .upsert(stats, { onConflict: 'coin_address' });
+
+  if (error) {
+    console.error('[MarketData] Error saving coin stats:', error);
+  }
+
+  return stats;
+}
+
+/**
+ * Gets stats for a coin from the coin_stats cache, even when stale
+ * Only the refresh cron computes stats, so a coin it hasn't reached yet returns null.
+ */
+export async function getCoinStats(coinAddress: Address): Promise<CoinStats | null> {
+  const { data: cached, error } = await supabase
+    .from('coin_stats')
+    .select('*')
+    .eq('coin_address', coinAddress.toLowerCase())
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch coin stats: ${error.message}`);
+  }
+
+  return (cached as CoinStats | null) ?? null;
+}
+
+/**
+ * Refreshes stats for every coin in the directory whose cache is stale
+ * Coins are processed one at a time to stay within RPC and Zora API rate limits
+ */
+export async function refreshAllCoinStats(): Promise<{ refreshed: number; failed: number }> {
+  const db = getServiceSupabase();
+
+  const [{ data: profiles, error: profilesError }, { data: existing }] = await Promise.all([
+    db.from('profiles').select('creator_coin_address'),
+    db.from('coin_stats').select('coin_address, updated_at'),
+  ]);
+
+  if (profilesError) {
+    throw new Error(`Failed to fetch profiles: ${profilesError.message}`);
+  }
+
+  const freshCoins = new Set(
+    (existing || [])
+      .filter((row) => Date.now() - new Date(row.updated_at).getTime() < COIN_STATS_TTL_MS)
+      .map((row) => row.coin_address)
+  );
+
+  const coins = Array.from(new Set(
+    (profiles || []).map((profile) => profile.creator_coin_address.toLowerCase())
+  )).filter((coin) => !freshCoins.has(coin));
+
+  let refreshed = 0;
+  let failed = 0;
+
+  for (const coin of coins) {
+    try {
+      await refreshCoinStats(coin as Address);
+      refreshed++;
+    } catch (error) {
+      console.error('[MarketData] Failed to refresh stats for', coin, error);
+      failed++;
+    }
+  }
+
+  console.log(`[MarketData] Refreshed ${refreshed} coins (${failed} failed)`);
+  return { refreshed, failed };
+}
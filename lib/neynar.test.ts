@@ -0,0 +1,140 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+
+const RATE_LIMIT_PER_SECOND = 5;
+
+// The farcaster_users cache, always empty so every lookup reaches the mock server
+vi.mock('./supabase', () => {
+  const query = {
+    select: () => query,
+    in: () => query,
+    gt: async () => ({ data: [], error: null }),
+    upsert: async () => ({ error: null }),
+  };
+  return { supabase: {}, getServiceSupabase: () => ({ from: () => query }) };
+});
+
+type Handler = (request: IncomingMessage, response: ServerResponse) => void;
+
+// Requests seen by the mock Neynar API, with when they arrived
+let requests: Array<{ url: string; at: number }> = [];
+let handler: Handler = () => {};
+
+function respondWithUsers(request: IncomingMessage, response: ServerResponse) {
+  const url = new URL(request.url ?? '', 'http://localhost');
+  const fids = (url.searchParams.get('fids') ?? '').split(',').filter(Boolean).map(Number);
+  response.writeHead(200, { 'content-type': 'application/json' });
+  response.end(JSON.stringify({
+    users: fids.map((fid) => ({ fid, username: `toad${fid}`, viewer_context: { following: true } })),
+  }));
+}
+
+let server: Server;
+let neynar: typeof import('./neynar');
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    requests.push({ url: request.url ?? '', at: Date.now() });
+    handler(request, response);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  // Read when ./neynar loads, so set before importing it
+  process.env.NEYNAR_API_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  process.env.NEYNAR_API_KEY = 'test-key';
+  process.env.NEYNAR_RATE_LIMIT_PER_SECOND = String(RATE_LIMIT_PER_SECOND);
+  neynar = await import('./neynar');
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests = [];
+  handler = respondWithUsers;
+  neynar.clearNeynarCache();
+});
+
+describe('neynar client', () => {
+  it('coalesces concurrent lookups into one user/bulk call', async () => {
+    const users = await Promise.all([1, 2, 3].map((fid) => neynar.getUser(fid)));
+
+    expect(users.map((user) => user?.username)).toEqual(['toad1', 'toad2', 'toad3']);
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe('/user/bulk?fids=1,2,3');
+  });
+
+  it('rate limits requests beyond the burst capacity', async () => {
+    const count = RATE_LIMIT_PER_SECOND * 2;
+    const start = Date.now();
+
+    // isFollowing isn't coalesced, so each call is its own request
+    await Promise.all(Array.from({ length: count }, (_, i) => neynar.isFollowing(i + 1, 1)));
+
+    // The bucket holds at most RATE_LIMIT_PER_SECOND tokens, so the rest wait for refills
+    expect(requests).toHaveLength(count);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(((count - RATE_LIMIT_PER_SECOND) / RATE_LIMIT_PER_SECOND) * 1000 - 50);
+  });
+
+  it('retries 5xx responses, honouring Retry-After', async () => {
+    handler = (request, response) => {
+      if (requests.length < 3) {
+        response.writeHead(503, { 'retry-after': '0' });
+        response.end();
+        return;
+      }
+      respondWithUsers(request, response);
+    };
+
+    await expect(neynar.getUser(7)).resolves.toMatchObject({ fid: 7, username: 'toad7' });
+    expect(requests).toHaveLength(3);
+  });
+
+  it('retries network errors', async () => {
+    handler = (request, response) => {
+      if (requests.length === 1) {
+        request.socket.destroy();
+        return;
+      }
+      respondWithUsers(request, response);
+    };
+
+    await expect(neynar.isFollowing(1, 2)).resolves.toBe(true);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('throws NeynarUnavailableError once retries run out', async () => {
+    handler = (_request, response) => {
+      response.writeHead(429, { 'retry-after': '0' });
+      response.end();
+    };
+
+    const error = await neynar.getUser(8).catch((e) => e);
+    expect(error).toBeInstanceOf(neynar.NeynarUnavailableError);
+    expect(error.status).toBe(429);
+    expect(requests).toHaveLength(4); // The first try and three retries
+  });
+
+  it('does not retry other 4xx responses', async () => {
+    handler = (_request, response) => {
+      response.writeHead(401);
+      response.end();
+    };
+
+    const error = await neynar.isFollowing(1, 2).catch((e) => e);
+    expect(error).toBeInstanceOf(neynar.NeynarUnavailableError);
+    expect(error.status).toBe(401);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('returns null for an FID with no user', async () => {
+    handler = (_request, response) => {
+      response.writeHead(200, { 'content-type': 'application/json' });
+      response.end(JSON.stringify({ users: [] }));
+    };
+
+    await expect(neynar.getUser(9)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,368 @@
+import { FarcasterUser } from '@/types/profile';
+import { getServiceSupabase } from './supabase';
+
+// Override to point at a local mock server
+const NEYNAR_API_BASE = process.env.NEYNAR_API_BASE_URL || 'https://api.neynar.com/v2/farcaster';
+
+// Neynar's user/bulk endpoint accepts up to 100 FIDs per request
+export const MAX_BULK_FIDS = 100;
+
+// Lookups made within this window are coalesced into one user/bulk call
+const BATCH_WINDOW_MS = 10;
+
+const MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 500;
+const REQUEST_TIMEOUT_MS = 10_000;
+
+// Default matches Neynar's 300 requests/minute starter plan
+const RATE_LIMIT_PER_SECOND = Number(process.env.NEYNAR_RATE_LIMIT_PER_SECOND) || 5;
+
+const MEMORY_CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const DB_CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Thrown when Neynar can't answer (missing key, outage, rate limited after retries)
+ * Lookups that succeed but find no user return null instead
+ */
+export class NeynarUnavailableError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'NeynarUnavailableError';
+  }
+}
+
+export interface UserLookupOptions {
+  fresh?: boolean; // Skip the caches and always ask Neynar
+}
+
+/**
+ * Token bucket: allows bursts up to `capacity`, refilling at `refillPerSecond`
+ */
+class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(private readonly capacity: number, private readonly refillPerSecond: number) {
+    this.tokens = capacity;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+
+  async take(): Promise<void> {
+    for (;;) {
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000));
+    }
+  }
+}
+
+const rateLimiter = new TokenBucket(RATE_LIMIT_PER_SECOND, RATE_LIMIT_PER_SECOND);
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Backoff before the next retry, honouring Retry-After when Neynar sends one
+ */
+function getBackoffMs(attempt: number, retryAfter: string | null): number {
+  const retryAfterSeconds = retryAfter ? Number(retryAfter) : NaN;
+  if (Number.isFinite(retryAfterSeconds) && retryAfterSeconds >= 0) {
+    return retryAfterSeconds * 1000;
+  }
+  return BASE_BACKOFF_MS * 2 ** attempt + Math.random() * BASE_BACKOFF_MS;
+}
+
+/**
+ * Rate-limited GET against the Neynar API with retries on network errors, 429 and 5xx
+ * Returns null for 404s
+ */
+async function neynarFetch<T>(path: string): Promise<T | null> {
+  const apiKey = process.env.NEYNAR_API_KEY;
+  if (!apiKey) {
+    throw new NeynarUnavailableError('NEYNAR_API_KEY not configured');
+  }
+
+  let lastError = 'unknown error';
+  let lastStatus: number | undefined;
+
+  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+    await rateLimiter.take();
+
+    let response: Response;
+    try {
+      response = await fetch(`${NEYNAR_API_BASE}${path}`, {
+        headers: { 'api_key': apiKey },
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+      if (attempt < MAX_RETRIES) {
+        await sleep(getBackoffMs(attempt, null));
+      }
+      continue;
+    }
+
+    if (response.ok) {
+      return response.json();
+    }
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    lastStatus = response.status;
+    lastError = `status ${response.status}`;
+
+    if (response.status !== 429 && response.status < 500) {
+      // Other 4xx (e.g. bad API key) won't succeed on retry
+      break;
+    }
+
+    if (attempt < MAX_RETRIES) {
+      const backoffMs = getBackoffMs(attempt, response.headers.get('retry-after'));
+      console.log(`[Neynar] ${path} returned ${response.status}, retrying in ${Math.round(backoffMs)}ms`);
+      await sleep(backoffMs);
+    }
+  }
+
+  throw new NeynarUnavailableError(`Neynar request failed: ${lastError}`, lastStatus);
+}
+
+// --- Caches ---
+
+const memoryCache = new Map<number, { user: FarcasterUser | null; cachedAt: number }>();
+
+interface CachedUserRow {
+  fid: number;
+  username: string;
+  display_name: string | null;
+  pfp_url: string | null;
+  bio: string | null;
+}
+
+async function readDbCache(fids: number[]): Promise<Map<number, FarcasterUser>> {
+  const users = new Map<number, FarcasterUser>();
+  if (fids.length === 0) return users;
+
+  const { data, error } = await getServiceSupabase()
+    .from('farcaster_users')
+    .select('fid, username, display_name, pfp_url, bio')
+    .in('fid', fids)
+    .gt('fetched_at', new Date(Date.now() - DB_CACHE_TTL_MS).toISOString());
+
+  if (error) {
+    console.error('[Neynar] Error reading user cache:', error);
+    return users;
+  }
+
+  for (const row of (data || []) as CachedUserRow[]) {
+    users.set(row.fid, {
+      fid: row.fid,
+      username: row.username,
+      pfp_url: row.pfp_url || '',
+      display_name: row.display_name || undefined,
+      bio: row.bio || undefined,
+    });
+  }
+
+  return users;
+}
+
+async function writeDbCache(users: FarcasterUser[]): Promise<void> {
+  if (users.length === 0) return;
+
+  const fetchedAt = new Date().toISOString();
+  const { error } = await getServiceSupabase()
+    .from('farcaster_users')
+    .upsert(
+      users.map((user) => ({
+        fid: user.fid,
+        username: user.username,
+        display_name: user.display_name || null,
+        pfp_url: user.pfp_url || null,
+        bio: user.bio || null,
+        fetched_at: fetchedAt,
+      })),
+      { onConflict: 'fid' }
+    );
+
+  if (error) {
+    console.error('[Neynar] Error writing user cache:', error);
+  }
+}
+
+// --- Coalesced bulk lookups ---
+
+interface NeynarUser {
+  fid: number;
+  username: string;
+  pfp_url?: string;
+  display_name?: string;
+  profile?: { bio?: { text?: string } };
+  viewer_context?: { following?: boolean };
+  custody_address?: string;
+  verified_addresses?: { eth_addresses?: string[] };
+}
+
+interface PendingLookup {
+  resolve: (user: FarcasterUser | null) => void;
+  reject: (error: unknown) => void;
+}
+
+const pendingLookups = new Map<number, PendingLookup[]>();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+function toFarcasterUser(user: NeynarUser): FarcasterUser {
+  return {
+    fid: user.fid,
+    username: user.username,
+    pfp_url: user.pfp_url || '',
+    display_name: user.display_name,
+    bio: user.profile?.bio?.text,
+  };
+}
+
+async function fetchBatch(batch: Map<number, PendingLookup[]>): Promise<void> {
+  const fids = Array.from(batch.keys());
+
+  try {
+    const data = await neynarFetch<{ users?: NeynarUser[] }>(`/user/bulk?fids=${fids.join(',')}`);
+    const found = new Map<number, FarcasterUser>();
+    for (const user of data?.users || []) {
+      found.set(user.fid, toFarcasterUser(user));
+    }
+
+    const now = Date.now();
+    batch.forEach((waiters, fid) => {
+      const user = found.get(fid) ?? null;
+      memoryCache.set(fid, { user, cachedAt: now });
+      waiters.forEach((waiter) => waiter.resolve(user));
+    });
+
+    await writeDbCache(Array.from(found.values()));
+  } catch (error) {
+    batch.forEach((waiters) => waiters.forEach((waiter) => waiter.reject(error)));
+  }
+}
+
+function flushPendingLookups(): void {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  if (pendingLookups.size === 0) return;
+
+  const batch = new Map(pendingLookups);
+  pendingLookups.clear();
+  void fetchBatch(batch);
+}
+
+/**
+ * Queues a FID for the next user/bulk call
+ */
+function enqueueLookup(fid: number): Promise<FarcasterUser | null> {
+  return new Promise((resolve, reject) => {
+    const waiters = pendingLookups.get(fid) || [];
+    waiters.push({ resolve, reject });
+    pendingLookups.set(fid, waiters);
+
+    if (pendingLookups.size >= MAX_BULK_FIDS) {
+      flushPendingLookups();
+    } else if (!flushTimer) {
+      flushTimer = setTimeout(flushPendingLookups, BATCH_WINDOW_MS);
+    }
+  });
+}
+
+// --- Public API ---
+
+/**
+ * Looks up many Farcaster users, from cache where possible
+ * FIDs with no Farcaster user are omitted from the result.
+ * @throws NeynarUnavailableError if Neynar can't be reached
+ */
+export async function getUsers(
+  fids: number[],
+  { fresh = false }: UserLookupOptions = {}
+): Promise<Map<number, FarcasterUser>> {
+  const users = new Map<number, FarcasterUser>();
+  let missing = Array.from(new Set(fids));
+
+  if (!fresh) {
+    const now = Date.now();
+    missing = missing.filter((fid) => {
+      const cached = memoryCache.get(fid);
+      if (cached && now - cached.cachedAt < MEMORY_CACHE_TTL_MS) {
+        if (cached.user) users.set(fid, cached.user);
+        return false;
+      }
+      return true;
+    });
+
+    const fromDb = await readDbCache(missing);
+    fromDb.forEach((user, fid) => {
+      users.set(fid, user);
+      memoryCache.set(fid, { user, cachedAt: now });
+    });
+    missing = missing.filter((fid) => !fromDb.has(fid));
+  }
+
+  const fetched = await Promise.all(missing.map(enqueueLookup));
+  fetched.forEach((user) => {
+    if (user) users.set(user.fid, user);
+  });
+
+  return users;
+}
+
+/**
+ * Looks up a Farcaster user, returning null if the FID has no user
+ * @throws NeynarUnavailableError if Neynar can't be reached
+ */
+export async function getUser(fid: number, options?: UserLookupOptions): Promise<FarcasterUser | null> {
+  const users = await getUsers([fid], options);
+  return users.get(fid) ?? null;
+}
+
+/**
+ * Checks whether `viewerFid` follows `targetFid`
+ * @throws NeynarUnavailableError if Neynar can't be reached
+ */
+export async function isFollowing(viewerFid: number, targetFid: number): Promise<boolean> {
+  const data = await neynarFetch<{ users?: NeynarUser[] }>(
+    `/user/bulk?fids=${targetFid}&viewer_fid=${viewerFid}`
+  );
+  return data?.users?.[0]?.viewer_context?.following === true;
+}
+
+/**
+ * The Ethereum addresses an FID controls: its custody address and verified addresses, lowercased
+ * Always asks Neynar, since verifications can be removed at any time
+ * @throws NeynarUnavailableError if Neynar can't be reached
+ */
+export async function getUserAddresses(fid: number): Promise<string[]> {
+  const data = await neynarFetch<{ users?: NeynarUser[] }>(`/user/bulk?fids=${fid}`);
+  const user = data?.users?.[0];
+  if (!user) return [];
+
+  const addresses = [user.custody_address, ...(user.verified_addresses?.eth_addresses || [])];
+  return Array.from(new Set(
+    addresses.filter((address): address is string => !!address).map((address) => address.toLowerCase())
+  ));
+}
+
+/**
+ * Clears the in-memory user cache
+ */
+export function clearNeynarCache(): void {
+  memoryCache.clear();
+}
@@ -0,0 +1,23 @@
+import sdk from '@farcaster/frame-sdk';
+
+/**
+ * Makes sure the server can notify the mini app's user
+ * Asks the user to add the mini app (which enables notifications) when the client hasn't issued
+ * a notification token yet. The client sends the token to the server itself, through the
+ * signed webhook (app/api/webhook).
+ * Returns whether notifications are enabled.
+ */
+export async function enableNotifications(): Promise<boolean> {
+  try {
+    const context = await sdk.context;
+    if (context.client.notificationDetails) {
+      return true;
+    }
+
+    const result = await sdk.actions.addFrame();
+    return !!result.notificationDetails;
+  } catch (error) {
+    console.error('[Notifications] Failed to enable notifications:', error);
+    return false;
+  }
+}
@@ -0,0 +1,137 @@
+import type { FrameNotificationDetails, SendNotificationRequest, SendNotificationResponse } from '@farcaster/frame-sdk';
+import { getServiceSupabase } from './supabase';
+import { getAppDomain } from './auth';
+
+// Farcaster clients accept up to 100 tokens per request
+const MAX_TOKENS_PER_REQUEST = 100;
+
+// Notification endpoints of the Farcaster clients we send to; any other URL is refused,
+// so a webhook-supplied URL can't point the server at an arbitrary host
+const NOTIFICATION_HOSTS = ['api.farcaster.xyz', 'api.warpcast.com'];
+
+export interface Notification {
+  notificationId: string; // Clients drop repeats of the same ID for a day
+  title: string; // Max 32 characters
+  body: string; // Max 128 characters
+  path: string; // In-app path opened when tapped
+}
+
+/**
+ * Whether a notification URL is an https endpoint of a known Farcaster client
+ */
+export function isAllowedNotificationUrl(url: unknown): url is string {
+  if (typeof url !== 'string') return false;
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'https:' && !parsed.port && NOTIFICATION_HOSTS.includes(parsed.hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Stores the notification token a Farcaster client issued to a user
+ * Tokens arrive in the client's signed webhook events (see app/api/webhook), never from the app
+ */
+export async function saveNotificationDetails(
+  fid: number,
+  appFid: number,
+  details: FrameNotificationDetails
+): Promise<void> {
+  const { error } = await getServiceSupabase()
+    .from('notification_tokens')
+    .upsert({
+      token: details.token,
+      fid,
+      app_fid: appFid,
+      url: details.url,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'token' });
+
+  if (error) {
+    throw new Error(`Failed to save notification token: ${error.message}`);
+  }
+}
+
+/**
+ * Forgets the tokens a Farcaster client issued to a user, once the user removes the mini app
+ * or turns its notifications off there
+ */
+export async function deleteNotificationDetails(fid: number, appFid: number): Promise<void> {
+  const { error } = await getServiceSupabase()
+    .from('notification_tokens')
+    .delete()
+    .eq('fid', fid)
+    .eq('app_fid', appFid);
+
+  if (error) {
+    throw new Error(`Failed to delete notification tokens: ${error.message}`);
+  }
+}
+
+/**
+ * Sends a notification to every client a user enabled notifications in
+ * Tokens the client reports as invalid are deleted. Returns whether any client accepted it.
+ */
+export async function sendNotification(fid: number, notification: Notification): Promise<boolean> {
+  const db = getServiceSupabase();
+  const { data, error } = await db
+    .from('notification_tokens')
+    .select('token, url')
+    .eq('fid', fid);
+
+  if (error) {
+    throw new Error(`Failed to fetch notification tokens: ${error.message}`);
+  }
+
+  // Each Farcaster client has its own notification URL
+  const tokensByUrl = new Map<string, string[]>();
+  for (const row of data || []) {
+    tokensByUrl.set(row.url, [...(tokensByUrl.get(row.url) || []), row.token]);
+  }
+
+  let delivered = false;
+
+  for (const [url, tokens] of Array.from(tokensByUrl.entries())) {
+    if (!isAllowedNotificationUrl(url)) {
+      console.error(`[Notifications] Skipping unknown notification URL for FID ${fid}: ${url}`);
+      continue;
+    }
+
+    for (let i = 0; i < tokens.length; i += MAX_TOKENS_PER_REQUEST) {
+      const request: SendNotificationRequest = {
+        notificationId: notification.notificationId,
+        title: notification.title,
+        body: notification.body,
+        targetUrl: `https://${getAppDomain()}${notification.path}`,
+        tokens: tokens.slice(i, i + MAX_TOKENS_PER_REQUEST),
+      };
+
+      try {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(request),
+        });
+
+        if (!response.ok) {
+          console.error(`[Notifications] ${url} returned ${response.status} for FID ${fid}`);
+          continue;
+        }
+
+        const { result }: SendNotificationResponse = await response.json();
+        if (result.successfulTokens.length > 0) {
+          delivered = true;
+        }
+
+        if (result.invalidTokens.length > 0) {
+          await db.from('notification_tokens').delete().in('token', result.invalidTokens);
+        }
+      } catch (error) {
+        console.error(`[Notifications] Failed to notify FID ${fid}:`, error);
+      }
+    }
+  }
+
+  return delivered;
+}
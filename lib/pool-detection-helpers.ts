@@ -1,24 +1,48 @@
-import { Address, createPublicClient, http, parseAbiItem } from 'viem';
+import { Address, createPublicClient, http } from 'viem';
 import { base } from 'viem/chains';
-import { PoolKey } from './v4-quoter-helpers';
+import { PoolKey, getV4Quote } from './v4-quoter-helpers';
+import { getPoolLiquidity } from './v4-state-helpers';
+import {
+  CoinPool,
+  fetchInitializeLogs,
+  getCoinPools,
+  getLastIndexedBlock,
+  toCoinPool,
+  toPoolKey,
+} from './pool-registry';
 
-// Uniswap V4 PoolManager on Base
-const POOL_MANAGER_ADDRESS = (process.env.NEXT_PUBLIC_UNISWAP_V4_POOL_MANAGER || '0x498581ff718922c3f8e6a244956af099b2652b2b') as Address;
 const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000' as Address;
 
+// Blocks scanned on-chain for pools the indexer hasn't reached yet
+// Base block time is ~2 seconds, so 10,000 blocks = ~5.5 hours
+const RECENT_SCAN_BLOCKS = 10_000n;
+
 // Create viem client
 const baseClient = createPublicClient({
   chain: base,
   transport: http(process.env.BASE_RPC_URL || 'https://mainnet.base.org'),
 });
 
-// Pool cache with 24hr TTL
-const poolCache = new Map<string, {
-  pools: PoolKey[];
-  cachedAt: number;
-}>();
+export type PoolSelectionReason = 'only-pool' | 'best-quote' | 'most-liquidity' | 'first-found';
+
+/**
+ * Why the primary pool was chosen over the coin's other pools
+ */
+export interface PoolSelection {
+  reason: PoolSelectionReason;
+  candidates: number; // Pools considered
+  liquidity: string | null; // The chosen pool's in-range liquidity, when read
+  amountOut: string | null; // The chosen pool's quote for the swap, when ranked by quote
+}
 
-const CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+/**
+ * The swap a pool is being chosen for; tokens are pool currencies (the zero address for ETH)
+ */
+export interface PoolSwapSize {
+  tokenIn: Address;
+  tokenOut: Address;
+  amountIn: bigint;
+}
 
 /**
  * Pool detection result
@@ -26,107 +50,145 @@ const CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
 export interface PoolDetectionResult {
   found: boolean;
   pools: PoolKey[];
-  primaryPool?: PoolKey; // Best pool to use (highest liquidity/most used)
+  primaryPool?: PoolKey; // Best pool to use (best quote, else most in-range liquidity)
+  selection?: PoolSelection;
+}
+
+const compareDescending = (a: bigint, b: bigint) => (b > a ? 1 : b < a ? -1 : 0);
+
+function isPoolCurrency(pool: PoolKey, token: Address): boolean {
+  return pool.currency0.toLowerCase() === token.toLowerCase() ||
+    pool.currency1.toLowerCase() === token.toLowerCase();
 }
 
 /**
- * Detect V4 pools for a given token address
- * Searches PoolManager Initialize events for pools containing the token
+ * Picks the pool to trade through when a coin has several (different fee, hooks or pair currency)
+ * Pools that can quote the swap are ranked by output for its size; otherwise by in-range
+ * liquidity from StateView. Liquidity in pools with different pair currencies isn't strictly
+ * comparable, so quotes win whenever the swap's tokens are both in a pool.
  */
-export async function detectV4Pools(
-  tokenAddress: Address
-): Promise<PoolDetectionResult> {
-  const cacheKey = tokenAddress.toLowerCase();
-  
-  // Check cache first
-  const cached = poolCache.get(cacheKey);
-  if (cached && Date.now() - cached.cachedAt < CACHE_TTL_MS) {
-    console.log('[Pool Detection] Using cached pools for', tokenAddress);
+export async function selectPrimaryPool(
+  pools: PoolKey[],
+  swap?: PoolSwapSize
+): Promise<{ pool: PoolKey; selection: PoolSelection } | null> {
+  if (pools.length === 0) return null;
+  if (pools.length === 1) {
     return {
-      found: cached.pools.length > 0,
-      pools: cached.pools,
-      primaryPool: cached.pools[0], // First pool as primary
+      pool: pools[0],
+      selection: { reason: 'only-pool', candidates: 1, liquidity: null, amountOut: null },
     };
   }
 
-  console.log('[Pool Detection] Scanning for pools with token:', tokenAddress);
+  const ranked = await Promise.all(pools.map(async (pool) => {
+    const canQuote = !!swap && isPoolCurrency(pool, swap.tokenIn) && isPoolCurrency(pool, swap.tokenOut);
+    const [liquidity, quote] = await Promise.all([
+      getPoolLiquidity(pool).catch(() => null),
+      canQuote ? getV4Quote(pool, swap.tokenIn, swap.tokenOut, swap.amountIn) : null,
+    ]);
+    return { pool, liquidity, amountOut: quote && quote.amountOut > 0n ? quote.amountOut : null };
+  }));
 
-  try {
-    // Query PoolManager Initialize events
-    // Event signature: Initialize(PoolKey indexed key, uint160 sqrtPriceX96, int24 tick)
-    const initializeEvent = parseAbiItem(
-      'event Initialize((address currency0, address currency1, uint24 fee, int24 tickSpacing, address hooks) indexed key, uint160 sqrtPriceX96, int24 tick)'
-    );
+  const toSelection = (entry: typeof ranked[number], reason: PoolSelectionReason) => ({
+    pool: entry.pool,
+    selection: {
+      reason,
+      candidates: pools.length,
+      liquidity: entry.liquidity !== null ? entry.liquidity.toString() : null,
+      amountOut: entry.amountOut !== null ? entry.amountOut.toString() : null,
+    },
+  });
 
-    // Scan last 10,000 blocks (adjust based on network activity)
-    // Base block time is ~2 seconds, so 10,000 blocks = ~5.5 hours
-    // This provides recent pool data while avoiding overly expensive queries
-    const currentBlock = await baseClient.getBlockNumber();
-    const fromBlock = currentBlock - 10000n;
+  const quoted = ranked
+    .filter((entry) => entry.amountOut !== null)
+    .sort((a, b) => compareDescending(a.amountOut!, b.amountOut!));
+  if (quoted.length > 0) {
+    console.log(`[Pool Detection] Chose pool by quote among ${pools.length}`);
+    return toSelection(quoted[0], 'best-quote');
+  }
 
-    const logs = await baseClient.getLogs({
-      address: POOL_MANAGER_ADDRESS,
-      event: initializeEvent,
-      fromBlock,
-      toBlock: 'latest',
-    });
+  const liquid = ranked
+    .filter((entry) => entry.liquidity !== null && entry.liquidity > 0n)
+    .sort((a, b) => compareDescending(a.liquidity!, b.liquidity!));
+  if (liquid.length > 0) {
+    console.log(`[Pool Detection] Chose pool by liquidity among ${pools.length}`);
+    return toSelection(liquid[0], 'most-liquidity');
+  }
 
-    console.log(`[Pool Detection] Found ${logs.length} Initialize events`);
+  return toSelection(ranked[0], 'first-found');
+}
 
-    // Filter pools that contain our token and have hooks
-    const matchingPools: PoolKey[] = [];
+/**
+ * Scans Initialize events the pool registry hasn't indexed yet for pools containing the token
+ * Covers the blocks since the indexer's last run, capped to the most recent 10,000.
+ */
+async function scanUnindexedPools(tokenAddress: Address): Promise<CoinPool[]> {
+  const [currentBlock, lastIndexed] = await Promise.all([
+    baseClient.getBlockNumber(),
+    getLastIndexedBlock().catch(() => null),
+  ]);
 
-    for (const log of logs) {
-      const { key } = log.args;
-      
-      // Handle undefined key
-      if (!key) continue;
-      
-      const { currency0, currency1, fee, tickSpacing, hooks } = key;
-
-      // Check if pool contains our token
-      const hasToken = 
-        currency0.toLowerCase() === tokenAddress.toLowerCase() ||
-        currency1.toLowerCase() === tokenAddress.toLowerCase();
-
-      // Check if pool has hooks (non-zero address)
-      const hasHooks = hooks.toLowerCase() !== ZERO_ADDRESS.toLowerCase();
-
-      if (hasToken) {
-        matchingPools.push({
-          currency0,
-          currency1,
-          fee,
-          tickSpacing,
-          hooks,
-        });
+  const recentStart = currentBlock - RECENT_SCAN_BLOCKS;
+  const fromBlock = lastIndexed !== null && lastIndexed + 1n > recentStart ? lastIndexed + 1n : recentStart;
+  if (fromBlock > currentBlock) return [];
+
+  const logs = await fetchInitializeLogs(fromBlock, currentBlock, tokenAddress);
+  console.log(`[Pool Detection] Found ${logs.length} unindexed Initialize events`);
+
+  return logs
+    .map(toCoinPool)
+    .filter((pool): pool is CoinPool => pool !== null);
+}
+
+/**
+ * Detect V4 pools for a given token address
+ * Reads the coin_pools registry and, alongside it, the blocks the indexer hasn't reached for newer pools.
+ * With a swap, the primary pool is the one that quotes it best (see selectPrimaryPool).
+ */
+export async function detectV4Pools(
+  tokenAddress: Address,
+  swap?: PoolSwapSize
+): Promise<PoolDetectionResult> {
+  console.log('[Pool Detection] Looking up pools with token:', tokenAddress);
+
+  try {
+    const [indexed, unindexed] = await Promise.all([
+      getCoinPools(tokenAddress),
+      scanUnindexedPools(tokenAddress).catch((error) => {
+        console.error('[Pool Detection] Unindexed block scan failed:', error);
+        return [];
+      }),
+    ]);
 
-        if (hasHooks) {
-          console.log('[Pool Detection] ✓ Found pool with hooks:', {
-            currency0,
-            currency1,
-            fee,
-            hooks,
-          });
-        }
+    // The indexer may have caught up with part of the scanned range
+    const indexedIds = new Set(indexed.map((pool) => pool.pool_id.toLowerCase()));
+    const matchingPools = [
+      ...indexed,
+      ...unindexed.filter((pool) => !indexedIds.has(pool.pool_id.toLowerCase())),
+    ].map(toPoolKey);
+
+    for (const pool of matchingPools) {
+      if (pool.hooks.toLowerCase() !== ZERO_ADDRESS) {
+        console.log('[Pool Detection] ✓ Found pool with hooks:', {
+          currency0: pool.currency0,
+          currency1: pool.currency1,
+          fee: pool.fee,
+          hooks: pool.hooks,
+        });
       }
     }
 
-    // Cache the results
-    poolCache.set(cacheKey, {
-      pools: matchingPools,
-      cachedAt: Date.now(),
-    });
-
     console.log(`[Pool Detection] Found ${matchingPools.length} total pools for token`);
 
+    const primary = await selectPrimaryPool(matchingPools, swap);
+
     return {
       found: matchingPools.length > 0,
       pools: matchingPools,
-      primaryPool: matchingPools[0], // Use first pool as primary (can enhance with liquidity checks)
+      primaryPool: primary?.pool,
+      selection: primary?.selection,
     };
   } catch (error) {
-    console.error('[Pool Detection] Error scanning pools:', error);
+    console.error('[Pool Detection] Error detecting pools:', error);
     return {
       found: false,
       pools: [],
@@ -138,10 +200,11 @@ export async function detectV4Pools(
  * Detect pools with Zora API fallback for creator coins
  */
 export async function detectPoolsWithZoraFallback(
-  tokenAddress: Address
+  tokenAddress: Address,
+  swap?: PoolSwapSize
 ): Promise<PoolDetectionResult> {
   // First try on-chain detection
-  const onChainResult = await detectV4Pools(tokenAddress);
+  const onChainResult = await detectV4Pools(tokenAddress, swap);
   
   if (onChainResult.found) {
     return onChainResult;
@@ -180,16 +243,11 @@ export async function detectPoolsWithZoraFallback(
 
         console.log('[Pool Detection] ✓ Found pool via Zora API');
 
-        // Cache this result too
-        poolCache.set(tokenAddress.toLowerCase(), {
-          pools: [poolKey],
-          cachedAt: Date.now(),
-        });
-
         return {
           found: true,
           pools: [poolKey],
           primaryPool: poolKey,
+          selection: { reason: 'only-pool', candidates: 1, liquidity: null, amountOut: null },
         };
       }
     }
@@ -0,0 +1,222 @@
+/**
+ * Pool Registry
+ * Indexes Uniswap V4 PoolManager Initialize events into the coin_pools table and reads pools from it
+ */
+
+import { Address, Hash, createPublicClient, http, parseAbiItem } from 'viem';
+import { base } from 'viem/chains';
+import { supabase, getServiceSupabase } from './supabase';
+import { PoolKey } from './v4-quoter-helpers';
+
+// Uniswap V4 PoolManager on Base
+export const POOL_MANAGER_ADDRESS = (process.env.NEXT_PUBLIC_UNISWAP_V4_POOL_MANAGER || '0x498581ff718922c3f8e6a244956af099b2652b2b') as Address;
+
+// Block the PoolManager was deployed in; the backfill starts here
+const POOL_MANAGER_DEPLOY_BLOCK = BigInt(process.env.POOL_MANAGER_DEPLOY_BLOCK || '25350988');
+
+// Blocks per getLogs request, within public RPC range limits
+const LOG_CHUNK_BLOCKS = 10_000n;
+
+// Stay this far behind the head so reorged blocks aren't indexed
+const CONFIRMATION_BLOCKS = 5n;
+
+// An indexer run stops starting new chunks after this long, leaving room within the job's time limit
+const INDEX_TIME_BUDGET_MS = 240_000;
+
+export const INITIALIZE_EVENT = parseAbiItem(
+  'event Initialize(bytes32 indexed id, address indexed currency0, address indexed currency1, uint24 fee, int24 tickSpacing, address hooks, uint160 sqrtPriceX96, int24 tick)'
+);
+
+const baseClient = createPublicClient({
+  chain: base,
+  transport: http(process.env.BASE_RPC_URL || 'https://mainnet.base.org'),
+});
+
+/**
+ * A coin_pools row
+ */
+export interface CoinPool {
+  pool_id: string;
+  currency0: string;
+  currency1: string;
+  fee: number;
+  tick_spacing: number;
+  hooks: string;
+  sqrt_price_x96: string;
+  created_block: number;
+  created_tx_hash: string;
+  indexed_at?: string;
+}
+
+export interface PoolIndexResult {
+  fromBlock: string;
+  toBlock: string; // Last block covered; equals fromBlock - 1 when nothing was indexed
+  pools: number;
+  caughtUp: boolean;
+}
+
+type InitializeLog = Awaited<ReturnType<typeof fetchInitializeLogs>>[number];
+
+export function toPoolKey(pool: CoinPool): PoolKey {
+  return {
+    currency0: pool.currency0 as Address,
+    currency1: pool.currency1 as Address,
+    fee: pool.fee,
+    tickSpacing: pool.tick_spacing,
+    hooks: pool.hooks as Address,
+  };
+}
+
+/**
+ * Initialize events in a block range, optionally only for pools with the token as a currency
+ */
+export function fetchInitializeLogs(fromBlock: bigint, toBlock: bigint, token?: Address) {
+  return Promise.all([
+    baseClient.getLogs({
+      address: POOL_MANAGER_ADDRESS,
+      event: INITIALIZE_EVENT,
+      args: token ? { currency0: token } : undefined,
+      fromBlock,
+      toBlock,
+    }),
+    // Both sides only need a second request when filtering by token
+    token
+      ? baseClient.getLogs({
+          address: POOL_MANAGER_ADDRESS,
+          event: INITIALIZE_EVENT,
+          args: { currency1: token },
+          fromBlock,
+          toBlock,
+        })
+      : Promise.resolve([]),
+  ]).then(([asCurrency0, asCurrency1]) => [...asCurrency0, ...asCurrency1]);
+}
+
+export function toCoinPool(log: InitializeLog): CoinPool | null {
+  const { id, currency0, currency1, fee, tickSpacing, hooks, sqrtPriceX96 } = log.args;
+  if (!id || !currency0 || !currency1 || fee === undefined || tickSpacing === undefined || !hooks) {
+    return null;
+  }
+
+  return {
+    pool_id: id,
+    currency0: currency0.toLowerCase(),
+    currency1: currency1.toLowerCase(),
+    fee,
+    tick_spacing: tickSpacing,
+    hooks: hooks.toLowerCase(),
+    sqrt_price_x96: (sqrtPriceX96 ?? 0n).toString(),
+    created_block: Number(log.blockNumber),
+    created_tx_hash: log.transactionHash as Hash,
+  };
+}
+
+/**
+ * The last block the indexer has covered, or null before the first run
+ */
+export async function getLastIndexedBlock(): Promise<bigint | null> {
+  const { data } = await supabase
+    .from('pool_indexer_state')
+    .select('last_indexed_block')
+    .eq('id', POOL_MANAGER_ADDRESS.toLowerCase())
+    .maybeSingle();
+
+  return data ? BigInt(data.last_indexed_block) : null;
+}
+
+/**
+ * Indexes Initialize events from where the last run stopped (or the PoolManager deployment)
+ * Runs chunk by chunk, saving the cursor after each, so an interrupted backfill resumes where it
+ * stopped. Once caught up, each run picks up the blocks since the previous one.
+ */
+export async function indexPools(): Promise<PoolIndexResult> {
+  const startedAt = Date.now();
+  const db = getServiceSupabase();
+
+  const lastIndexed = await getLastIndexedBlock();
+  const fromBlock = lastIndexed !== null ? lastIndexed + 1n : POOL_MANAGER_DEPLOY_BLOCK;
+  const headBlock = (await baseClient.getBlockNumber()) - CONFIRMATION_BLOCKS;
+
+  let cursor = fromBlock;
+  let pools = 0;
+
+  while (cursor <= headBlock && Date.now() - startedAt < INDEX_TIME_BUDGET_MS) {
+    const chunkEnd = cursor + LOG_CHUNK_BLOCKS - 1n < headBlock ? cursor + LOG_CHUNK_BLOCKS - 1n : headBlock;
+
+    const logs = await fetchInitializeLogs(cursor, chunkEnd);
+    const rows = logs.map(toCoinPool).filter((row): row is CoinPool => row !== null);
+
+    if (rows.length > 0) {
+      const { error } = await db.from('coin_pools').upsert(rows, { onConflict: 'pool_id' });
+      if (error) {
+        throw new Error(`Failed to save pools: ${error.message}`);
+      }
+      pools += rows.length;
+    }
+
+    const { error: stateError } = await db.from('pool_indexer_state').upsert(
+      {
+        id: POOL_MANAGER_ADDRESS.toLowerCase(),
+        last_indexed_block: Number(chunkEnd),
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'id' }
+    );
+    if (stateError) {
+      throw new Error(`Failed to save indexer state: ${stateError.message}`);
+    }
+
+    cursor = chunkEnd + 1n;
+  }
+
+  const caughtUp = cursor > headBlock;
+  console.log(`[Pool Registry] Indexed blocks ${fromBlock}-${cursor - 1n}: ${pools} pools${caughtUp ? '' : ' (backfill continues next run)'}`);
+
+  return {
+    fromBlock: fromBlock.toString(),
+    toBlock: (cursor - 1n).toString(),
+    pools,
+    caughtUp,
+  };
+}
+
+/**
+ * Every indexed pool with the token as one of its currencies, oldest first
+ */
+export async function getCoinPools(tokenAddress: Address): Promise<CoinPool[]> {
+  const token = tokenAddress.toLowerCase();
+
+  const { data, error } = await supabase
+    .from('coin_pools')
+    .select('*')
+    .or(`currency0.eq.${token},currency1.eq.${token}`)
+    .order('created_block', { ascending: true });
+
+  if (error) {
+    console.error('[Pool Registry] Error reading pools:', error);
+    return [];
+  }
+
+  return (data || []) as CoinPool[];
+}
+
+/**
+ * Indexed pools between two currencies (the zero address for native ETH), oldest first
+ */
+export async function getPoolsBetween(tokenA: Address, tokenB: Address): Promise<CoinPool[]> {
+  const [currency0, currency1] = [tokenA.toLowerCase(), tokenB.toLowerCase()].sort();
+
+  const { data, error } = await supabase
+    .from('coin_pools')
+    .select('*')
+    .eq('currency0', currency0)
+    .eq('currency1', currency1)
+    .order('created_block', { ascending: true });
+
+  if (error) {
+    console.error('[Pool Registry] Error reading pools:', error);
+    return [];
+  }
+
+  return (data || []) as CoinPool[];
+}
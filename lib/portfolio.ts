@@ -0,0 +1,141 @@
+import { Address, createPublicClient, erc20Abi, formatUnits, http } from 'viem';
+import { base } from 'viem/chains';
+import { supabase } from './supabase';
+import { getCoinStats } from './market-data';
+import { getTradesForWallet, Trade } from './trades';
+
+const COIN_DECIMALS = 18; // Zora coins are standard 18-decimal ERC-20s
+const USDC_DECIMALS = 6;
+
+export interface PortfolioPosition {
+  fid: number;
+  username: string;
+  pfpUrl: string;
+  coinAddress: string;
+  tokenTicker: string | null;
+  balance: string; // Base units
+  priceUsd: number | null;
+  valueUsd: number | null;
+  trackedBalance: string; // Base units of the balance covered by recorded buys
+  costBasisUsd: number | null; // Cost of trackedBalance; null with no recorded buys
+  unrealizedPnlUsd: number | null; // Value of trackedBalance minus its cost basis
+}
+
+export interface Portfolio {
+  address: string;
+  positions: PortfolioPosition[];
+  totalValueUsd: number;
+  totalCostBasisUsd: number;
+  totalUnrealizedPnlUsd: number;
+}
+
+const baseClient = createPublicClient({
+  chain: base,
+  transport: http(process.env.BASE_RPC_URL || 'https://mainnet.base.org'),
+});
+
+/**
+ * Average-cost basis from a coin's trades, oldest first
+ * Sells remove cost in proportion to the quantity sold. Trades without a USDC amount (paid in
+ * another creator coin, or unpriceable when recorded) are left out.
+ */
+function computeCostBasis(trades: Trade[]): { quantity: bigint; costUsd: number } {
+  let quantity = 0n;
+  let costUsd = 0;
+
+  for (const trade of trades) {
+    if (trade.usdc_amount === null) continue;
+
+    const coinAmount = BigInt(trade.coin_amount);
+    const usdcAmount = Number(formatUnits(BigInt(trade.usdc_amount), USDC_DECIMALS));
+
+    if (trade.side === 'buy') {
+      quantity += coinAmount;
+      costUsd += usdcAmount;
+    } else if (quantity > 0n) {
+      const sold = coinAmount > quantity ? quantity : coinAmount;
+      costUsd -= costUsd * (Number(sold) / Number(quantity));
+      quantity -= sold;
+    }
+  }
+
+  return { quantity, costUsd };
+}
+
+/**
+ * Builds a wallet's holdings across every creator coin in the directory
+ */
+export async function getPortfolio(walletAddress: Address): Promise<Portfolio> {
+  const { data: profiles, error } = await supabase
+    .from('profiles')
+    .select('fid, username, pfp_url, creator_coin_address, token_ticker');
+
+  if (error) {
+    throw new Error(`Failed to fetch profiles: ${error.message}`);
+  }
+
+  const rows = profiles || [];
+
+  // One multicall for every balance in the directory
+  const balances = await baseClient.multicall({
+    contracts: rows.map((profile) => ({
+      address: profile.creator_coin_address as Address,
+      abi: erc20Abi,
+      functionName: 'balanceOf' as const,
+      args: [walletAddress] as const,
+    })),
+    allowFailure: true,
+  });
+
+  const held = rows
+    .map((profile, i) => ({ profile, balance: balances[i].status === 'success' ? (balances[i].result as bigint) : 0n }))
+    .filter(({ balance }) => balance > 0n);
+
+  const trades = await getTradesForWallet(walletAddress);
+
+  const positions = await Promise.all(held.map(async ({ profile, balance }): Promise<PortfolioPosition> => {
+    const coinAddress = profile.creator_coin_address.toLowerCase();
+
+    let priceUsd: number | null = null;
+    try {
+      priceUsd = (await getCoinStats(coinAddress as Address))?.price_usd ?? null;
+    } catch (error) {
+      console.error('[Portfolio] Error pricing', coinAddress, error);
+    }
+
+    const { quantity, costUsd } = computeCostBasis(
+      trades.filter((trade) => trade.coin_address === coinAddress)
+    );
+    const trackedBalance = balance < quantity ? balance : quantity;
+    const costBasisUsd = quantity > 0n ? costUsd * (Number(trackedBalance) / Number(quantity)) : null;
+
+    const tokens = Number(formatUnits(balance, COIN_DECIMALS));
+    const trackedTokens = Number(formatUnits(trackedBalance, COIN_DECIMALS));
+
+    return {
+      fid: profile.fid,
+      username: profile.username,
+      pfpUrl: profile.pfp_url,
+      coinAddress: profile.creator_coin_address,
+      tokenTicker: profile.token_ticker,
+      balance: balance.toString(),
+      priceUsd,
+      valueUsd: priceUsd !== null ? priceUsd * tokens : null,
+      trackedBalance: trackedBalance.toString(),
+      costBasisUsd,
+      unrealizedPnlUsd: priceUsd !== null && costBasisUsd !== null
+        ? priceUsd * trackedTokens - costBasisUsd
+        : null,
+    };
+  }));
+
+  positions.sort((a, b) => (b.valueUsd ?? 0) - (a.valueUsd ?? 0));
+
+  return {
+    address: walletAddress,
+    positions,
+    totalValueUsd: positions.reduce((sum, p) => sum + (p.valueUsd ?? 0), 0),
+    totalCostBasisUsd: positions.reduce((sum, p) => sum + (p.costBasisUsd ?? 0), 0),
+    totalUnrealizedPnlUsd: positions.reduce((sum, p) => sum + (p.unrealizedPnlUsd ?? 0), 0),
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * Price Impact
+ * Quote details returned by /api/quote, and the price impact math shared with the swap UI
+ */
+
+import type { PathKey } from './v4-quoter-helpers';
+import type { PoolSelection, PoolSelectionReason } from './pool-detection-helpers';
+
+// V4 pools with this fee flag set charge a fee chosen by their hook on each swap
+export const DYNAMIC_FEE_FLAG = 0x800000;
+
+/**
+ * Reads a basis-point threshold from the environment, falling back to the default
+ */
+function parseBps(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+// Price impact warning thresholds in basis points (100 bps = 1%)
+export const PRICE_IMPACT_WARNING_BPS = parseBps(process.env.NEXT_PUBLIC_PRICE_IMPACT_WARNING_BPS, 300); // 3%
+export const PRICE_IMPACT_HIGH_BPS = parseBps(process.env.NEXT_PUBLIC_PRICE_IMPACT_HIGH_BPS, 1000); // 10%
+
+export type PriceImpactLevel = 'low' | 'warning' | 'high';
+
+/**
+ * The coin's primary pool, for showing its fee and hook
+ */
+export interface QuotePoolInfo {
+  poolId: string;
+  selection: PoolSelection | null; // Why this pool was chosen, when the coin has several
+  fee: number | null; // Hundredths of a bip (10000 = 1%); null for dynamic-fee pools
+  tickSpacing: number;
+  hooks: string;
+  pairCurrency: string; // The pool's other currency
+}
+
+export type SwapProvider = 'zora' | '0x' | 'uniswap-v4';
+
+/**
+ * One provider's quote, normalized; amounts are base units of the output token
+ */
+export interface ProviderQuote {
+  provider: SwapProvider;
+  amountOut: string;
+  minAmountOut: string; // At the requested slippage
+  priceImpactBps: number | null;
+  gasEstimate: string; // Gas units
+  gasCostOut: string | null; // Network fee in output token; null when it couldn't be priced
+  netAmountOut: string; // amountOut less gasCostOut
+  executable: boolean; // False for quotes that can't be swapped from this app
+  // Ready-to-send swap for providers that return calldata; `spender` needs an ERC-20 allowance
+  transaction: { to: string; data: string; value: string; spender: string | null } | null;
+  v4Path: PathKey[] | null; // The V4 hops swapped through directly, for Uniswap V4 quotes
+}
+
+/**
+ * Quote breakdown returned by /api/quote when details are requested
+ */
+export interface QuoteDetails {
+  provider: SwapProvider; // Best executable quote
+  // Mid-price as a small reference quote along the same route: output per input, in base units
+  midPrice: { amountIn: string; amountOut: string } | null;
+  slippage: number; // Decimal, e.g. 0.05 for 5%
+  pool: QuotePoolInfo | null;
+  route: string[]; // Token addresses (or "eth") from input to output
+  blockNumber: string | null; // Base block the quote was priced at
+  quotes: ProviderQuote[]; // Every provider's quote, best first
+}
+
+/**
+ * How far the quoted rate falls below the mid-price, in basis points
+ * Returns null when the mid-price is unknown; rounding on tiny amounts is clamped to 0.
+ */
+export function calculatePriceImpactBps(
+  amountIn: bigint,
+  amountOut: bigint,
+  midAmountIn: bigint,
+  midAmountOut: bigint
+): number | null {
+  if (amountIn === 0n || midAmountOut === 0n) return null;
+
+  // impact = 1 - (amountOut / amountIn) / (midAmountOut / midAmountIn)
+  const ratioBps = (amountOut * midAmountIn * 10000n) / (amountIn * midAmountOut);
+  const impactBps = 10000 - Number(ratioBps);
+  return Math.max(0, impactBps);
+}
+
+export function getPriceImpactLevel(priceImpactBps: number): PriceImpactLevel {
+  if (priceImpactBps >= PRICE_IMPACT_HIGH_BPS) return 'high';
+  if (priceImpactBps >= PRICE_IMPACT_WARNING_BPS) return 'warning';
+  return 'low';
+}
+
+export function formatPriceImpact(priceImpactBps: number): string {
+  if (priceImpactBps < 1) return '<0.01%';
+  return `${(priceImpactBps / 100).toFixed(2)}%`;
+}
+
+const POOL_SELECTION_LABELS: Record<PoolSelectionReason, string> = {
+  'only-pool': 'only pool',
+  'best-quote': 'best quote',
+  'most-liquidity': 'most liquidity',
+  'first-found': 'first found',
+};
+
+/**
+ * Describes why the pool was chosen, e.g. "best quote of 3 pools"; null when it was the only one
+ */
+export function formatPoolSelection(selection: PoolSelection | null): string | null {
+  if (!selection || selection.candidates <= 1) return null;
+  return `${POOL_SELECTION_LABELS[selection.reason]} of ${selection.candidates} pools`;
+}
+
+/**
+ * Formats a V4 pool fee (hundredths of a bip) as a percentage
+ */
+export function formatPoolFee(fee: number | null): string {
+  if (fee === null) return 'Dynamic';
+  return `${(fee / 10000).toFixed(2)}%`;
+}
@@ -0,0 +1,147 @@
+import { getServiceSupabase } from './supabase';
+import { getFarcasterUsers } from './farcaster';
+import { checkUrlHealth } from './validation';
+import { runWithConcurrency } from './async-helpers';
+
+// Links are re-checked at most once per interval
+const LINK_CHECK_INTERVAL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+// Caps the link checks per run so the job fits in one function invocation
+const LINK_CHECK_BATCH_SIZE = 50;
+const LINK_CHECK_CONCURRENCY = 5;
+
+interface RefreshableProfile {
+  fid: number;
+  username: string;
+  display_name: string | null;
+  pfp_url: string;
+  x_handle: string | null;
+  telegram_handle: string | null;
+  zora_page_url: string | null;
+  links_checked_at: string | null;
+}
+
+export interface ProfileRefreshResult {
+  profilesUpdated: number;
+  usersMissing: number; // FIDs Neynar returned no user for
+  linksChecked: number;
+  brokenLinks: number;
+}
+
+/**
+ * Refreshes usernames, display names and PFPs for every profile from Neynar in bulk
+ */
+async function refreshFarcasterData(
+  profiles: RefreshableProfile[]
+): Promise<Pick<ProfileRefreshResult, 'profilesUpdated' | 'usersMissing'>> {
+  const db = getServiceSupabase();
+  const users = await getFarcasterUsers(profiles.map((profile) => profile.fid));
+  const now = new Date().toISOString();
+
+  let profilesUpdated = 0;
+  let usersMissing = 0;
+
+  for (const profile of profiles) {
+    const user = users.get(profile.fid);
+    if (!user) {
+      usersMissing++;
+      continue;
+    }
+
+    const changed =
+      user.username !== profile.username ||
+      (user.display_name || null) !== profile.display_name ||
+      (user.pfp_url && user.pfp_url !== profile.pfp_url);
+
+    const { error } = await db
+      .from('profiles')
+      .update({
+        username: user.username,
+        display_name: user.display_name || null,
+        pfp_url: user.pfp_url || profile.pfp_url,
+        pfp_cached_at: now,
+      })
+      .eq('fid', profile.fid);
+
+    if (error) {
+      console.error(`[ProfileRefresh] Error updating FID ${profile.fid}:`, error);
+    } else if (changed) {
+      profilesUpdated++;
+    }
+  }
+
+  return { profilesUpdated, usersMissing };
+}
+
+/**
+ * Re-checks social links for the profiles checked longest ago and stores the results
+ */
+async function refreshLinkHealth(
+  profiles: RefreshableProfile[]
+): Promise<Pick<ProfileRefreshResult, 'linksChecked' | 'brokenLinks'>> {
+  const db = getServiceSupabase();
+  const cutoff = Date.now() - LINK_CHECK_INTERVAL_MS;
+
+  const due = profiles
+    .filter((profile) => !profile.links_checked_at || new Date(profile.links_checked_at).getTime() < cutoff)
+    .sort((a, b) => (a.links_checked_at || '').localeCompare(b.links_checked_at || ''))
+    .slice(0, LINK_CHECK_BATCH_SIZE);
+
+  let linksChecked = 0;
+  let brokenLinks = 0;
+
+  await runWithConcurrency(due, LINK_CHECK_CONCURRENCY, async (profile) => {
+    const checks: Promise<[string, boolean]>[] = [];
+
+    if (profile.x_handle) {
+      checks.push(checkUrlHealth(`https://x.com/${profile.x_handle}`).then((ok) => ['x_handle_valid', ok]));
+    }
+    if (profile.telegram_handle) {
+      checks.push(checkUrlHealth(`https://t.me/${profile.telegram_handle}`).then((ok) => ['telegram_handle_valid', ok]));
+    }
+    if (profile.zora_page_url) {
+      checks.push(checkUrlHealth(profile.zora_page_url).then((ok) => ['zora_page_valid', ok]));
+    }
+
+    const results = await Promise.all(checks);
+    linksChecked += results.length;
+    brokenLinks += results.filter(([, ok]) => !ok).length;
+
+    const { error } = await db
+      .from('profiles')
+      .update({
+        ...Object.fromEntries(results),
+        links_checked_at: new Date().toISOString(),
+      })
+      .eq('fid', profile.fid);
+
+    if (error) {
+      console.error(`[ProfileRefresh] Error saving link health for FID ${profile.fid}:`, error);
+    }
+  });
+
+  return { linksChecked, brokenLinks };
+}
+
+/**
+ * Scheduled refresh: syncs Farcaster data for all profiles and re-checks stale social links
+ */
+export async function refreshProfiles(): Promise<ProfileRefreshResult> {
+  const { data, error } = await getServiceSupabase()
+    .from('profiles')
+    .select('fid, username, display_name, pfp_url, x_handle, telegram_handle, zora_page_url, links_checked_at');
+
+  if (error) {
+    throw new Error(`Failed to fetch profiles: ${error.message}`);
+  }
+
+  const profiles = (data || []) as RefreshableProfile[];
+  console.log(`[ProfileRefresh] Refreshing ${profiles.length} profiles`);
+
+  const farcaster = await refreshFarcasterData(profiles);
+  const links = await refreshLinkHealth(profiles);
+
+  const result = { ...farcaster, ...links };
+  console.log('[ProfileRefresh] Done', result);
+  return result;
+}
@@ -0,0 +1,50 @@
+import { Profile } from '@/types/profile';
+import type { ProfileSort, ProfilesPage } from './profiles';
+
+export interface FetchProfilesParams {
+  search?: string;
+  sort?: ProfileSort;
+  cursor?: string | null;
+  limit?: number;
+}
+
+/**
+ * Fetches one page of profiles from /api/profiles
+ */
+export async function fetchProfilesPage({
+  search,
+  sort = 'newest',
+  cursor,
+  limit,
+}: FetchProfilesParams = {}): Promise<ProfilesPage> {
+  const params = new URLSearchParams({ sort });
+  if (search) params.set('q', search);
+  if (cursor) params.set('cursor', cursor);
+  if (limit) params.set('limit', limit.toString());
+
+  const response = await fetch(`/api/profiles?${params.toString()}`);
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to fetch profiles');
+  }
+
+  return data;
+}
+
+/**
+ * Walks every page of the directory
+ * Used where the whole gang is needed at once (e.g. Buy All)
+ */
+export async function fetchAllProfiles(): Promise<Profile[]> {
+  const profiles: Profile[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const page: ProfilesPage = await fetchProfilesPage({ cursor, limit: 100 });
+    profiles.push(...page.profiles);
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return profiles;
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { InvalidCursorError, decodeCursor, encodeCursor } from './profiles';
+
+describe('decodeCursor', () => {
+  it('round-trips a cursor for each column type', () => {
+    const timestamp = { value: '2026-10-19T12:00:00.123456+00:00', fid: 1 };
+    const number = { value: '12345.67', fid: 2 };
+    const username = { value: 'toad"\\frog', fid: 3 };
+
+    expect(decodeCursor(encodeCursor(timestamp), 'created_at')).toEqual(timestamp);
+    expect(decodeCursor(encodeCursor(number), 'market_cap_usd')).toEqual(number);
+    expect(decodeCursor(encodeCursor(username), 'username')).toEqual(username);
+  });
+
+  it('rejects a timestamp cursor carrying a filter', () => {
+    const cursor = encodeCursor({ value: '2026-10-19",username.eq."toad', fid: 1 });
+    expect(() => decodeCursor(cursor, 'created_at')).toThrow(InvalidCursorError);
+  });
+
+  it('rejects a non-numeric value for a numeric column', () => {
+    const cursor = encodeCursor({ value: '1",fid.gt.0', fid: 1 });
+    expect(() => decodeCursor(cursor, 'volume_24h_usd')).toThrow(InvalidCursorError);
+  });
+
+  it('rejects a cursor that is not base64 JSON', () => {
+    expect(() => decodeCursor('not-a-cursor', 'created_at')).toThrow(InvalidCursorError);
+  });
+});
@@ -0,0 +1,218 @@
+import { Profile } from '@/types/profile';
+import { supabase } from './supabase';
+
+export type ProfileSort = 'newest' | 'alphabetical' | 'market_cap' | 'volume' | 'liquidity';
+
+export const PROFILE_SORTS: readonly ProfileSort[] = ['newest', 'alphabetical', 'market_cap', 'volume', 'liquidity'];
+
+export const DEFAULT_PAGE_SIZE = 24;
+export const MAX_PAGE_SIZE = 100;
+
+export interface ProfileQuery {
+  search?: string;
+  sort?: ProfileSort;
+  cursor?: string | null;
+  limit?: number;
+}
+
+export interface ProfilesPage {
+  profiles: Profile[];
+  nextCursor: string | null;
+}
+
+/**
+ * Keyset cursor: the sort column value and FID of the last row on the page
+ */
+interface ProfileCursor {
+  value: string;
+  fid: number;
+}
+
+/**
+ * Search results are ordered by relevance, so they page by offset instead
+ */
+interface SearchCursor {
+  offset: number;
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+// Selected explicitly so the generated search columns aren't sent to clients
+const PROFILE_COLUMNS = [
+  'fid',
+  'username',
+  'display_name',
+  'pfp_url',
+  'pfp_cached_at',
+  'creator_coin_address',
+  'chain_id',
+  'bio',
+  'x_handle',
+  'x_handle_valid',
+  'telegram_handle',
+  'telegram_handle_valid',
+  'zora_page_url',
+  'zora_page_valid',
+  'token_ticker',
+  'created_at',
+  'updated_at',
+  'price_usd',
+  'market_cap_usd',
+  'fdv_usd',
+  'liquidity_usd',
+  'volume_24h_usd',
+  'stats_updated_at',
+].join(',');
+
+const MAX_SEARCH_LENGTH = 100;
+
+type SortColumn = 'created_at' | 'username' | 'market_cap_usd' | 'volume_24h_usd' | 'liquidity_usd';
+
+const SORT_COLUMNS: Record<ProfileSort, { column: SortColumn; ascending: boolean }> = {
+  newest: { column: 'created_at', ascending: false },
+  alphabetical: { column: 'username', ascending: true },
+  market_cap: { column: 'market_cap_usd', ascending: false },
+  volume: { column: 'volume_24h_usd', ascending: false },
+  liquidity: { column: 'liquidity_usd', ascending: false },
+};
+
+export function encodeCursor(cursor: ProfileCursor | SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function parseCursor(encoded: string): Record<string, unknown> {
+  try {
+    const cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    if (!cursor || typeof cursor !== 'object') {
+      throw new InvalidCursorError();
+    }
+    return cursor;
+  } catch {
+    throw new InvalidCursorError();
+  }
+}
+
+// Timestamps as PostgREST returns them, e.g. 2026-10-19T12:00:00.123456+00:00
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * Checks a cursor value against its sort column's type
+ */
+function isValidCursorValue(column: SortColumn, value: string): boolean {
+  switch (column) {
+    case 'created_at':
+      return ISO_TIMESTAMP.test(value) && !Number.isNaN(Date.parse(value));
+    case 'username':
+      return value.length > 0;
+    default:
+      return value.trim() !== '' && Number.isFinite(Number(value));
+  }
+}
+
+/**
+ * Quotes a value for a PostgREST filter, escaping the characters that would end the quotes
+ */
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+export function decodeCursor(encoded: string, column: SortColumn): ProfileCursor {
+  const cursor = parseCursor(encoded);
+  if (typeof cursor.value !== 'string' || !Number.isInteger(cursor.fid)) {
+    throw new InvalidCursorError();
+  }
+  if (!isValidCursorValue(column, cursor.value)) {
+    throw new InvalidCursorError();
+  }
+  return { value: cursor.value, fid: cursor.fid as number };
+}
+
+export function decodeSearchCursor(encoded: string): SearchCursor {
+  const cursor = parseCursor(encoded);
+  if (!Number.isInteger(cursor.offset) || (cursor.offset as number) < 0) {
+    throw new InvalidCursorError();
+  }
+  return { offset: cursor.offset as number };
+}
+
+/**
+ * Ranked, typo-tolerant search via the search_profiles() Postgres function
+ * Matches username, display name, bio, ticker, X/Telegram handles and contract address prefixes
+ */
+async function searchProfiles(term: string, cursor: string | null | undefined, pageSize: number): Promise<ProfilesPage> {
+  const offset = cursor ? decodeSearchCursor(cursor).offset : 0;
+
+  const { data, error } = await supabase
+    .rpc('search_profiles', { search_query: term })
+    .select(PROFILE_COLUMNS)
+    .range(offset, offset + pageSize); // One extra row to know if there's a next page
+
+  if (error) {
+    throw new Error(`Failed to search profiles: ${error.message}`);
+  }
+
+  const rows = (data || []) as unknown as Profile[];
+
+  return {
+    profiles: rows.slice(0, pageSize),
+    nextCursor: rows.length > pageSize ? encodeCursor({ offset: offset + pageSize }) : null,
+  };
+}
+
+/**
+ * Fetches one page of profiles with server-side search, sort and keyset pagination
+ * Search results are ordered by relevance, so `sort` only applies when there is no search term
+ */
+export async function queryProfiles({
+  search,
+  sort = 'newest',
+  cursor,
+  limit = DEFAULT_PAGE_SIZE,
+}: ProfileQuery = {}): Promise<ProfilesPage> {
+  const { column, ascending } = SORT_COLUMNS[sort];
+  const pageSize = Math.min(Math.max(1, limit), MAX_PAGE_SIZE);
+
+  const term = search?.trim().slice(0, MAX_SEARCH_LENGTH);
+  if (term) {
+    return searchProfiles(term, cursor, pageSize);
+  }
+
+  // profile_directory joins each profile with its coin_stats row
+  let query = supabase
+    .from('profile_directory')
+    .select(PROFILE_COLUMNS)
+    .order(column, { ascending })
+    .order('fid', { ascending })
+    .limit(pageSize + 1); // Fetch one extra row to know if there's a next page
+
+  if (cursor) {
+    const { value, fid } = decodeCursor(cursor, column);
+    const op = ascending ? 'gt' : 'lt';
+    const quoted = quoteFilterValue(value);
+    query = query.or(
+      `${column}.${op}.${quoted},and(${column}.eq.${quoted},fid.${op}.${fid})`
+    );
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch profiles: ${error.message}`);
+  }
+
+  const rows = (data || []) as unknown as Profile[];
+  const profiles = rows.slice(0, pageSize);
+  const last = profiles[profiles.length - 1];
+
+  return {
+    profiles,
+    nextCursor: rows.length > pageSize && last
+      ? encodeCursor({ value: String(last[column]), fid: last.fid })
+      : null,
+  };
+}
@@ -0,0 +1,106 @@
+/**
+ * Provider Trade Helpers
+ * Executes a swap quoted by the aggregator with a provider other than Zora
+ */
+
+import { Address, Hex, WalletClient, PublicClient, Account, erc20Abi } from 'viem';
+import { base } from 'viem/chains';
+import { PayTokenAddress, isNativeEth } from './swap-constants';
+import { TradeResult, extractErrorMessage } from './zora-trade-helpers';
+import { executeV4Swap } from './universal-router-helpers';
+import { rethrowKnownRevert, simulateSwap } from './swap-simulation';
+import type { QuoteOption } from './quote-client';
+
+export interface QuotedTradeParameters {
+  option: QuoteOption;
+  sellToken: PayTokenAddress;
+  buyToken: PayTokenAddress;
+  sellAmount: bigint;
+  slippage: number; // The slippage the quote's calldata was built with
+  walletClient: WalletClient;
+  account: Account;
+  publicClient: PublicClient;
+}
+
+/**
+ * Sends a quote's prepared transaction, approving its spender for the sell amount first if needed
+ * The transaction is simulated before the approval, with the allowance faked, and again before
+ * it's signed, so reverts surface as SwapSimulationErrors before the user pays for anything.
+ * Uniswap V4 quotes carry a path instead and are swapped through the Universal Router.
+ */
+export async function executeQuotedTrade(params: QuotedTradeParameters): Promise<TradeResult> {
+  const { option, sellToken, buyToken, sellAmount, slippage, walletClient, account, publicClient } = params;
+  const { transaction } = option;
+
+  if (option.provider === 'uniswap-v4' && option.v4Path) {
+    const result = await executeV4Swap({
+      path: option.v4Path,
+      sellToken,
+      buyToken,
+      sellAmount,
+      amountOutMinimum: option.minAmountOut,
+      walletClient,
+      account,
+      publicClient,
+    });
+    return { ...result, slippageUsed: slippage };
+  }
+
+  if (!option.executable || !transaction) {
+    return { success: false, error: `${option.provider} quotes can't be executed` };
+  }
+
+  const call = {
+    to: transaction.to as Address,
+    data: transaction.data as Hex,
+    value: BigInt(transaction.value),
+  };
+
+  try {
+    if (!isNativeEth(sellToken) && transaction.spender) {
+      const spender = transaction.spender as Address;
+      const allowance = await publicClient.readContract({
+        address: sellToken,
+        abi: erc20Abi,
+        functionName: 'allowance',
+        args: [account.address, spender],
+      });
+
+      if (allowance < sellAmount) {
+        await simulateSwap({
+          account: account.address,
+          call,
+          publicClient,
+          erc20Allowances: [{ token: sellToken, spender, amount: sellAmount }],
+        }).catch(rethrowKnownRevert);
+
+        console.log(`[Provider Trade] Approving ${spender} for ${option.provider}`);
+        const approveHash = await walletClient.writeContract({
+          account,
+          chain: base,
+          address: sellToken,
+          abi: erc20Abi,
+          functionName: 'approve',
+          args: [spender, sellAmount],
+        });
+        await publicClient.waitForTransactionReceipt({ hash: approveHash });
+      }
+    }
+
+    await simulateSwap({ account: account.address, call, publicClient });
+
+    console.log(`[Provider Trade] Sending ${option.provider} swap`);
+    const hash = await walletClient.sendTransaction({ account, chain: base, ...call });
+
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== 'success') {
+      return { success: false, txHash: hash, error: 'Swap reverted. The price may have moved.', slippageUsed: slippage };
+    }
+
+    console.log(`[Provider Trade] ${option.provider} swap confirmed:`, hash);
+    return { success: true, txHash: hash, slippageUsed: slippage };
+  } catch (error) {
+    console.error(`[Provider Trade] ${option.provider} swap failed:`, error);
+    return { success: false, error: extractErrorMessage(error, sellToken), slippageUsed: slippage };
+  }
+}
@@ -0,0 +1,460 @@
+/**
+ * Quote Aggregator
+ * Quotes a swap with every enabled provider in parallel and ranks them by output net of gas (server-side)
+ */
+
+import { Address, createPublicClient, http } from 'viem';
+import { base } from 'viem/chains';
+import {
+  BASE_CHAIN_ID,
+  BASE_PAY_TOKENS,
+  NATIVE_ETH,
+  WETH_ADDRESS,
+  isNativeEth,
+  isSameToken,
+} from './swap-constants';
+import { detectPoolsWithZoraFallback, PoolSelection } from './pool-detection-helpers';
+import {
+  getV4Quote,
+  getV4QuoteExactInput,
+  calculateMinimumOutput,
+  toPathKey,
+  PathKey,
+  PoolKey,
+} from './v4-quoter-helpers';
+import { getBestV4Route } from './v4-routing';
+import { getPoolId } from './v4-state-helpers';
+import { withTimeout } from './async-helpers';
+import { DEFAULT_SWAP_GAS } from './gas-helpers';
+import {
+  DYNAMIC_FEE_FLAG,
+  ProviderQuote,
+  QuoteDetails,
+  QuotePoolInfo,
+  SwapProvider,
+  calculatePriceImpactBps,
+} from './price-impact';
+
+const ZORA_API_BASE_URL = 'https://api-sdk.zora.engineering';
+const ZORA_QUOTE_SLIPPAGE = 0.05;
+const ZEROX_API_BASE_URL = 'https://api.0x.org';
+const ZEROX_NATIVE_TOKEN = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000' as Address;
+
+// Providers that haven't quoted within this long are left out
+export const QUOTE_PROVIDER_TIMEOUT_MS = 5_000;
+
+// The mid-price is read from a quote for this fraction of the amount, small enough to barely move the pool
+const MID_PRICE_REFERENCE_DIVISOR = 1000n;
+
+// ETH quoted into the output token to price gas
+const GAS_REFERENCE_WEI = 10n ** 16n; // 0.01 ETH
+
+const ALL_PROVIDERS: SwapProvider[] = ['zora', '0x', 'uniswap-v4'];
+
+const baseClient = createPublicClient({
+  chain: base,
+  transport: http(process.env.BASE_RPC_URL || 'https://mainnet.base.org'),
+});
+
+export interface AggregateQuoteParams {
+  sellToken: string; // ERC-20 address or "eth"
+  buyToken: string;
+  sellAmount: bigint;
+  takerAddress: string;
+  slippage: number; // Decimal
+}
+
+// A provider's quote before gas, slippage and price impact are applied
+interface RawProviderQuote {
+  provider: SwapProvider;
+  amountOut: bigint;
+  gasEstimate: bigint | null;
+  executable: boolean;
+  transaction: ProviderQuote['transaction'];
+  v4Route: { currencyIn: Address; path: PathKey[]; currencies: Address[] } | null;
+}
+
+/**
+ * Maps a token address (or the native ETH sentinel) to Zora's token schema
+ */
+function toZoraToken(token: string) {
+  return isNativeEth(token)
+    ? { type: "eth" }
+    : { type: "erc20", address: token };
+}
+
+/**
+ * Requests a quote from the Zora API
+ */
+export function fetchZoraQuote(
+  sellToken: string,
+  buyToken: string,
+  sellAmount: string,
+  takerAddress: string,
+  apiKey: string
+): Promise<Response> {
+  // Build request body matching Zora API schema
+  const requestBody = {
+    tokenIn: toZoraToken(sellToken),
+    tokenOut: toZoraToken(buyToken),
+    amountIn: sellAmount,
+    chainId: BASE_CHAIN_ID,
+    sender: takerAddress,
+    recipient: takerAddress,
+    slippage: ZORA_QUOTE_SLIPPAGE,
+  };
+
+  return fetch(`${ZORA_API_BASE_URL}/quote`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'api-key': apiKey,
+    },
+    body: JSON.stringify(requestBody),
+  });
+}
+
+/**
+ * Zora's quote reports the output as buyAmount, or as quote.amountOut in newer responses
+ */
+export function getZoraAmountOut(quote: any): bigint | null {
+  const amountOut = quote?.buyAmount ?? quote?.quote?.amountOut;
+  return amountOut ? BigInt(amountOut) : null;
+}
+
+/**
+ * Zora's expected output for an amount, or null when there's no route
+ */
+async function fetchZoraAmountOut(
+  sellToken: string,
+  buyToken: string,
+  sellAmount: bigint,
+  takerAddress: string,
+  apiKey: string
+): Promise<{ amountOut: bigint; gas: bigint | null } | null> {
+  const response = await fetchZoraQuote(sellToken, buyToken, sellAmount.toString(), takerAddress, apiKey);
+  if (!response.ok) return null;
+
+  const quote = await response.json();
+  const amountOut = getZoraAmountOut(quote);
+  return amountOut ? { amountOut, gas: quote.gas ? BigInt(quote.gas) : null } : null;
+}
+
+/**
+ * Providers to query: those listed in QUOTE_PROVIDERS (comma-separated, default all),
+ * less any whose API key isn't set
+ */
+export function getEnabledProviders(): SwapProvider[] {
+  const configured = process.env.QUOTE_PROVIDERS
+    ? ALL_PROVIDERS.filter((provider) =>
+        process.env.QUOTE_PROVIDERS!.split(',').map((name) => name.trim()).includes(provider)
+      )
+    : ALL_PROVIDERS;
+
+  return configured.filter((provider) => {
+    if (provider === 'zora') return !!process.env.ZORA_API_KEY;
+    if (provider === '0x') return !!process.env.ZEROX_API_KEY;
+    return true;
+  });
+}
+
+async function quoteZora(params: AggregateQuoteParams, apiKey: string): Promise<RawProviderQuote | null> {
+  const quote = await fetchZoraAmountOut(
+    params.sellToken,
+    params.buyToken,
+    params.sellAmount,
+    params.takerAddress,
+    apiKey
+  );
+  if (!quote) return null;
+
+  // Executed client-side through the Zora SDK
+  return {
+    provider: 'zora',
+    amountOut: quote.amountOut,
+    gasEstimate: quote.gas,
+    executable: true,
+    transaction: null,
+    v4Route: null,
+  };
+}
+
+/**
+ * Quotes through 0x's AllowanceHolder flow, which returns calldata ready to send
+ */
+async function quote0x(params: AggregateQuoteParams, apiKey: string): Promise<RawProviderQuote | null> {
+  const toZeroXToken = (token: string) => (isNativeEth(token) ? ZEROX_NATIVE_TOKEN : token);
+
+  const query = new URLSearchParams({
+    chainId: BASE_CHAIN_ID.toString(),
+    sellToken: toZeroXToken(params.sellToken),
+    buyToken: toZeroXToken(params.buyToken),
+    sellAmount: params.sellAmount.toString(),
+    taker: params.takerAddress,
+    slippageBps: Math.round(params.slippage * 10000).toString(),
+  });
+
+  const response = await fetch(`${ZEROX_API_BASE_URL}/swap/allowance-holder/quote?${query.toString()}`, {
+    headers: {
+      '0x-api-key': apiKey,
+      '0x-version': 'v2',
+    },
+  });
+
+  if (!response.ok) {
+    console.log('[Quote Aggregator] 0x error:', response.status);
+    return null;
+  }
+
+  const quote = await response.json();
+  if (!quote.liquidityAvailable || !quote.buyAmount || !quote.transaction) return null;
+
+  return {
+    provider: '0x',
+    amountOut: BigInt(quote.buyAmount),
+    gasEstimate: quote.transaction.gas ? BigInt(quote.transaction.gas) : null,
+    executable: true,
+    transaction: {
+      to: quote.transaction.to,
+      data: quote.transaction.data,
+      value: quote.transaction.value || '0',
+      spender: isNativeEth(params.sellToken)
+        ? null
+        : quote.issues?.allowance?.spender ?? quote.transaction.to,
+    },
+    v4Route: null,
+  };
+}
+
+/**
+ * Maps a token to its V4 pool currency (the zero address for native ETH)
+ */
+function toPoolCurrency(token: string): Address {
+  return isNativeEth(token) ? ZERO_ADDRESS : token as Address;
+}
+
+/**
+ * A V4 path's currencies as a quote route, with the zero address shown as native ETH
+ */
+function toRoute(currencies: Address[], sellToken: string, buyToken: string): string[] {
+  const middle = currencies.slice(1, -1).map((currency) => (isSameToken(currency, ZERO_ADDRESS) ? NATIVE_ETH : currency));
+  return [sellToken, ...middle, buyToken];
+}
+
+/**
+ * Quotes the best V4 path over the pool registry (up to three hops) with the V4 Quoter
+ * Pools the registry hasn't indexed yet are covered by a single hop through the coin's primary
+ * pool, when both tokens are its currencies. Executed client-side through the Universal Router
+ * along the returned path (see lib/universal-router-helpers.ts).
+ */
+async function quoteV4(
+  sellToken: string,
+  buyToken: string,
+  sellAmount: bigint,
+  getPrimaryPool: () => Promise<PoolKey | null>
+): Promise<RawProviderQuote | null> {
+  const tokenIn = toPoolCurrency(sellToken);
+  const tokenOut = toPoolCurrency(buyToken);
+
+  const route = await getBestV4Route(tokenIn, tokenOut, sellAmount);
+  if (route) {
+    return {
+      provider: 'uniswap-v4',
+      amountOut: route.amountOut,
+      gasEstimate: route.gasEstimate,
+      executable: true,
+      transaction: null,
+      v4Route: { currencyIn: route.currencyIn, path: route.path, currencies: route.currencies },
+    };
+  }
+
+  const poolKey = await getPrimaryPool();
+  if (!poolKey) return null;
+
+  const inPool = (token: Address) =>
+    isSameToken(poolKey.currency0, token) || isSameToken(poolKey.currency1, token);
+
+  if (!inPool(tokenIn) || !inPool(tokenOut)) return null;
+
+  const quote = await getV4Quote(poolKey, tokenIn, tokenOut, sellAmount);
+  if (!quote || quote.amountOut === 0n) return null;
+
+  return {
+    provider: 'uniswap-v4',
+    amountOut: quote.amountOut,
+    gasEstimate: quote.gasEstimate,
+    executable: true,
+    transaction: null,
+    v4Route: { currencyIn: tokenIn, path: [toPathKey(poolKey, tokenIn)], currencies: [tokenIn, tokenOut] },
+  };
+}
+
+/**
+ * The coin's primary pool for this swap, found on-chain with Zora's pool metadata as a fallback
+ * When the coin has several pools, the one quoting the swap best (or with the most liquidity) wins.
+ */
+function detectPrimaryPool(
+  coin: string,
+  sellToken: string,
+  buyToken: string,
+  sellAmount: bigint
+): Promise<{ poolKey: PoolKey; selection: PoolSelection | null } | null> {
+  if (isNativeEth(coin)) return Promise.resolve(null);
+
+  const swap = { tokenIn: toPoolCurrency(sellToken), tokenOut: toPoolCurrency(buyToken), amountIn: sellAmount };
+
+  return detectPoolsWithZoraFallback(coin as Address, swap)
+    .then((pools) => pools.primaryPool
+      ? { poolKey: pools.primaryPool, selection: pools.selection ?? null }
+      : null)
+    .catch(() => null);
+}
+
+/**
+ * Runs one provider's quote with the timeout, treating errors as no quote
+ */
+function runProvider(
+  provider: SwapProvider,
+  enabled: SwapProvider[],
+  quote: () => Promise<RawProviderQuote | null>
+): Promise<RawProviderQuote | null> {
+  if (!enabled.includes(provider)) return Promise.resolve(null);
+
+  return withTimeout(
+    quote().catch((error) => {
+      console.error(`[Quote Aggregator] ${provider} quote failed:`, error);
+      return null;
+    }),
+    QUOTE_PROVIDER_TIMEOUT_MS
+  ).then((result) => {
+    if (result === null) console.log(`[Quote Aggregator] No quote from ${provider}`);
+    return result;
+  });
+}
+
+/**
+ * Whether the pool's pair currency is the token itself (WETH and the zero address stand in for ETH)
+ */
+function isPoolCurrency(pairCurrency: string, token: string): boolean {
+  if (isNativeEth(token)) {
+    return isSameToken(pairCurrency, WETH_ADDRESS) || isSameToken(pairCurrency, ZERO_ADDRESS);
+  }
+  return isSameToken(pairCurrency, token);
+}
+
+/**
+ * Every enabled provider's quote plus the mid-price, price impact, minimum output, pool,
+ * route and block number; null when no provider can execute the swap
+ * The coin is whichever side isn't a base pay token; its primary pool gives the fee, hook and
+ * the intermediate hop when the other side isn't the pool's pair currency. Gas is priced by
+ * quoting ETH into the output token.
+ */
+export async function getQuoteDetails(params: AggregateQuoteParams): Promise<QuoteDetails | null> {
+  const { sellToken, buyToken, sellAmount, takerAddress, slippage } = params;
+  const enabled = getEnabledProviders();
+  const zoraApiKey = process.env.ZORA_API_KEY;
+
+  const isBuyTokenBase = BASE_PAY_TOKENS.some((token) => isSameToken(token.address, buyToken));
+  const coin = isBuyTokenBase ? sellToken : buyToken;
+  const otherToken = isBuyTokenBase ? buyToken : sellToken;
+  const referenceAmountIn = sellAmount / MID_PRICE_REFERENCE_DIVISOR || 1n;
+  const isBuyTokenEth = isNativeEth(buyToken) || isSameToken(buyToken, WETH_ADDRESS);
+
+  // The V4 quote needs the pool; everything else starts alongside pool detection
+  const primaryPoolPromise = detectPrimaryPool(coin, sellToken, buyToken, sellAmount);
+  const poolKeyPromise = primaryPoolPromise.then((primary) => primary?.poolKey ?? null);
+
+  const [primaryPool, zoraQuote, zeroXQuote, v4Quote, zoraReference, gasReference, gasPrice, blockNumber] = await Promise.all([
+    primaryPoolPromise,
+    runProvider('zora', enabled, () => quoteZora(params, zoraApiKey!)),
+    runProvider('0x', enabled, () => quote0x(params, process.env.ZEROX_API_KEY!)),
+    runProvider('uniswap-v4', enabled, () => quoteV4(sellToken, buyToken, sellAmount, () => poolKeyPromise)),
+    zoraApiKey
+      ? fetchZoraAmountOut(sellToken, buyToken, referenceAmountIn, takerAddress, zoraApiKey).catch(() => null)
+      : null,
+    !isBuyTokenEth && zoraApiKey
+      ? fetchZoraAmountOut('eth', buyToken, GAS_REFERENCE_WEI, takerAddress, zoraApiKey).catch(() => null)
+      : null,
+    baseClient.getGasPrice().catch(() => null),
+    baseClient.getBlockNumber().catch(() => null),
+  ]);
+
+  // Without Zora, read the mid-price along the V4 path
+  const reference = zoraReference
+    ?? (v4Quote?.v4Route
+      ? await getV4QuoteExactInput(v4Quote.v4Route.currencyIn, v4Quote.v4Route.path, referenceAmountIn)
+      : null);
+
+  // Network fee in output token base units
+  const getGasCostOut = (gas: bigint): bigint | null => {
+    if (gasPrice === null) return null;
+    const gasWei = gas * gasPrice;
+    if (isBuyTokenEth) return gasWei;
+    return gasReference ? (gasWei * gasReference.amountOut) / GAS_REFERENCE_WEI : null;
+  };
+
+  const quotes = [zoraQuote, zeroXQuote, v4Quote]
+    .filter((quote): quote is RawProviderQuote => quote !== null)
+    .map((quote) => {
+      const gasEstimate = quote.gasEstimate ?? DEFAULT_SWAP_GAS[quote.provider];
+      const gasCostOut = getGasCostOut(gasEstimate);
+      const netAmountOut = gasCostOut !== null && gasCostOut < quote.amountOut
+        ? quote.amountOut - gasCostOut
+        : gasCostOut !== null ? 0n : quote.amountOut;
+
+      return { quote, gasEstimate, gasCostOut, netAmountOut };
+    })
+    .sort((a, b) => (b.netAmountOut > a.netAmountOut ? 1 : b.netAmountOut < a.netAmountOut ? -1 : 0))
+    .map(({ quote, gasEstimate, gasCostOut, netAmountOut }): ProviderQuote => ({
+      provider: quote.provider,
+      amountOut: quote.amountOut.toString(),
+      minAmountOut: calculateMinimumOutput(quote.amountOut, Math.round(slippage * 10000)).toString(),
+      priceImpactBps: reference
+        ? calculatePriceImpactBps(sellAmount, quote.amountOut, referenceAmountIn, reference.amountOut)
+        : null,
+      gasEstimate: gasEstimate.toString(),
+      gasCostOut: gasCostOut !== null ? gasCostOut.toString() : null,
+      netAmountOut: netAmountOut.toString(),
+      executable: quote.executable,
+      transaction: quote.transaction,
+      v4Path: quote.v4Route?.path ?? null,
+    }));
+
+  const best = quotes.find((quote) => quote.executable);
+  if (!best) return null;
+
+  console.log('[Quote Aggregator] Ranked quotes:', quotes.map((quote) => `${quote.provider}: ${quote.netAmountOut}`));
+
+  let pool: QuotePoolInfo | null = null;
+  if (primaryPool) {
+    const { poolKey, selection } = primaryPool;
+    pool = {
+      poolId: getPoolId(poolKey),
+      selection,
+      fee: poolKey.fee & DYNAMIC_FEE_FLAG ? null : poolKey.fee,
+      tickSpacing: poolKey.tickSpacing,
+      hooks: poolKey.hooks,
+      pairCurrency: isSameToken(poolKey.currency0, coin) ? poolKey.currency1 : poolKey.currency0,
+    };
+  }
+
+  // A direct V4 swap's route is its path; otherwise the likely route through the coin's pool
+  const route = best.provider === 'uniswap-v4' && v4Quote?.v4Route
+    ? toRoute(v4Quote.v4Route.currencies, sellToken, buyToken)
+    : pool && !isPoolCurrency(pool.pairCurrency, otherToken)
+      ? [sellToken, pool.pairCurrency, buyToken]
+      : [sellToken, buyToken];
+
+  return {
+    provider: best.provider,
+    midPrice: reference
+      ? { amountIn: referenceAmountIn.toString(), amountOut: reference.amountOut.toString() }
+      : null,
+    slippage,
+    pool,
+    route,
+    blockNumber: blockNumber !== null ? blockNumber.toString() : null,
+    quotes,
+  };
+}
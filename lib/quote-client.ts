@@ -0,0 +1,186 @@
+import { PayTokenAddress } from './swap-constants';
+import type { ProviderQuote, QuoteDetails, QuotePoolInfo, SwapProvider } from './price-impact';
+
+// Detailed quotes refresh on this interval while shown
+export const QUOTE_REFRESH_INTERVAL_MS = 15_000;
+
+// Quotes older than this are re-quoted before swapping; longer than the refresh interval (plus
+// time for a refresh in flight) so a quote kept fresh in the background never counts as stale
+export const QUOTE_MAX_AGE_MS = QUOTE_REFRESH_INTERVAL_MS + 5_000;
+
+// A re-quote that moves the output by at least this much (in bps) needs the user's confirmation
+export const QUOTE_CHANGE_CONFIRM_BPS = 10;
+
+export const SWAP_PROVIDER_LABELS: Record<SwapProvider, string> = {
+  zora: 'Zora',
+  '0x': '0x',
+  'uniswap-v4': 'Uniswap V4',
+};
+
+export interface QuoteRequest {
+  sellToken: PayTokenAddress;
+  buyToken: PayTokenAddress;
+  sellAmount: bigint; // Base units of sellToken
+  takerAddress: string;
+}
+
+/**
+ * One provider's quote, amounts in base units of the output token
+ */
+export interface QuoteOption {
+  provider: SwapProvider;
+  amountOut: bigint;
+  minAmountOut: bigint;
+  netAmountOut: bigint; // Less the network fee
+  gasCostOut: bigint | null;
+  gasEstimate: bigint; // Gas units, from the provider or a typical amount
+  priceImpactBps: number | null;
+  executable: boolean;
+  transaction: ProviderQuote['transaction'];
+  v4Path: ProviderQuote['v4Path'];
+}
+
+/**
+ * Every provider's quote for a swap, with the mid-price, pool and route
+ */
+export interface DetailedQuote {
+  provider: SwapProvider; // Best executable quote
+  options: QuoteOption[]; // Best first
+  midPrice: { amountIn: bigint; amountOut: bigint } | null;
+  slippage: number;
+  pool: QuotePoolInfo | null;
+  route: string[];
+  blockNumber: bigint | null;
+  quotedAt: number; // Client time (ms) the quote arrived
+}
+
+/**
+ * The fields read from Zora's quote response, which /api/quote passes through
+ */
+interface ZoraQuoteResponse {
+  buyAmount?: string;
+  quote?: { amountOut?: string };
+}
+
+/**
+ * Posts a quote request to /api/quote, throwing on request errors
+ */
+async function postQuote(
+  body: Record<string, unknown>
+): Promise<{ quote?: ZoraQuoteResponse | null; details?: QuoteDetails | null }> {
+  const response = await fetch('/api/quote', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.error || `Quote failed: ${response.status}`);
+  }
+
+  return data;
+}
+
+/**
+ * Zora's quote reports the output as buyAmount, or as quote.amountOut in newer responses
+ */
+function getAmountOut(quote: ZoraQuoteResponse | null | undefined): bigint | null {
+  const amountOut = quote?.buyAmount ?? quote?.quote?.amountOut;
+  return amountOut ? BigInt(amountOut) : null;
+}
+
+/**
+ * Fetches a quote from /api/quote, returning the expected output in base units
+ * Returns null when there's no route (e.g. no liquidity); throws on request errors
+ */
+export async function fetchQuoteAmountOut({
+  sellToken,
+  buyToken,
+  sellAmount,
+  takerAddress,
+}: QuoteRequest): Promise<bigint | null> {
+  const data = await postQuote({
+    sellToken,
+    buyToken,
+    sellAmount: sellAmount.toString(),
+    takerAddress,
+  });
+
+  return getAmountOut(data.quote);
+}
+
+/**
+ * Fetches every provider's quote with its price impact and minimum output at `slippage` (a decimal)
+ * Returns null when no provider has a route; throws on request errors
+ */
+export async function fetchDetailedQuote(
+  { sellToken, buyToken, sellAmount, takerAddress }: QuoteRequest,
+  slippage: number
+): Promise<DetailedQuote | null> {
+  const data = await postQuote({
+    sellToken,
+    buyToken,
+    sellAmount: sellAmount.toString(),
+    takerAddress,
+    details: true,
+    slippage,
+  });
+
+  if (!data.details) return null;
+
+  const { details } = data;
+  return {
+    provider: details.provider,
+    options: details.quotes.map((quote) => ({
+      provider: quote.provider,
+      amountOut: BigInt(quote.amountOut),
+      minAmountOut: BigInt(quote.minAmountOut),
+      netAmountOut: BigInt(quote.netAmountOut),
+      gasCostOut: quote.gasCostOut !== null ? BigInt(quote.gasCostOut) : null,
+      gasEstimate: BigInt(quote.gasEstimate),
+      priceImpactBps: quote.priceImpactBps,
+      executable: quote.executable,
+      transaction: quote.transaction,
+      v4Path: quote.v4Path,
+    })),
+    midPrice: details.midPrice
+      ? { amountIn: BigInt(details.midPrice.amountIn), amountOut: BigInt(details.midPrice.amountOut) }
+      : null,
+    slippage: details.slippage,
+    pool: details.pool,
+    route: details.route,
+    blockNumber: details.blockNumber ? BigInt(details.blockNumber) : null,
+    quotedAt: Date.now(),
+  };
+}
+
+/**
+ * Whether a quote has an executable option from the provider
+ */
+export function hasExecutableOption(quote: DetailedQuote, provider: SwapProvider): boolean {
+  return quote.options.some((option) => option.provider === provider && option.executable);
+}
+
+/**
+ * The chosen provider's quote, or the best one when the choice is unset or can't execute
+ */
+export function getQuoteOption(quote: DetailedQuote, provider: SwapProvider | null): QuoteOption {
+  const chosen = quote.options.find((option) => option.provider === provider && option.executable);
+  return chosen ?? quote.options.find((option) => option.provider === quote.provider)!;
+}
+
+export function isQuoteStale(quote: Pick<DetailedQuote, 'quotedAt'>, now: number = Date.now()): boolean {
+  return now - quote.quotedAt > QUOTE_MAX_AGE_MS;
+}
+
+/**
+ * How much a re-quote's output moved, in signed basis points (negative = less received)
+ */
+export function getQuoteChangeBps(previousAmountOut: bigint, amountOut: bigint): number {
+  if (previousAmountOut === 0n) return 0;
+  return Number(((amountOut - previousAmountOut) * 10000n) / previousAmountOut);
+}
@@ -0,0 +1,77 @@
+import type { Profile } from '@/types/profile';
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface MatchedField {
+  label: string;
+  text: string;
+}
+
+const MIN_TERM_LENGTH = 2;
+
+/**
+ * Splits a search query into the terms worth highlighting
+ */
+function getSearchTerms(query: string): string[] {
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .map((term) => term.replace(/^[@$]/, ''))
+    .filter((term) => term.length >= MIN_TERM_LENGTH);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Splits text into matched and unmatched segments for rendering
+ * Only exact (case-insensitive) term matches are highlighted; typo matches are left plain
+ */
+export function getHighlightSegments(text: string, query: string): HighlightSegment[] {
+  const terms = getSearchTerms(query);
+  if (!text || terms.length === 0) {
+    return [{ text, match: false }];
+  }
+
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+
+  return text
+    .split(pattern)
+    .filter((part) => part.length > 0)
+    .map((part) => ({ text: part, match: terms.includes(part.toLowerCase()) }));
+}
+
+/**
+ * Finds the first field a query matched that the directory card doesn't already show
+ * Used to explain why a result came back (e.g. a bio or X handle match)
+ */
+export function findMatchedField(profile: Profile, query: string): MatchedField | null {
+  const trimmed = query.trim().toLowerCase();
+  if (!trimmed) {
+    return null;
+  }
+
+  if (trimmed.startsWith('0x') && profile.creator_coin_address.toLowerCase().startsWith(trimmed)) {
+    return { label: 'Contract', text: profile.creator_coin_address };
+  }
+
+  const terms = getSearchTerms(query);
+  const fields: [string, string | null | undefined][] = [
+    ['Ticker', profile.token_ticker],
+    ['X', profile.x_handle],
+    ['Telegram', profile.telegram_handle],
+    ['Bio', profile.bio],
+  ];
+
+  for (const [label, value] of fields) {
+    if (value && terms.some((term) => value.toLowerCase().includes(term))) {
+      return { label, text: value };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,96 @@
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { SignJWT, jwtVerify } from 'jose';
+
+export const SESSION_COOKIE_NAME = 'knowntoads_session';
+
+const SESSION_DURATION_SECONDS = 7 * 24 * 60 * 60; // 7 days
+const SESSION_ISSUER = 'knowntoads';
+
+export interface Session {
+  fid: number;
+  address: string; // Address that signed the SIWF message (custody or auth address)
+  expiresAt: number; // Unix seconds
+}
+
+/**
+ * Gets the HMAC key used to sign session JWTs
+ */
+function getSessionSecret(): Uint8Array {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error('SESSION_SECRET not configured');
+  }
+  return new TextEncoder().encode(secret);
+}
+
+/**
+ * Creates a signed session JWT bound to a FID
+ */
+export async function createSessionToken(fid: number, address: string): Promise<string> {
+  return new SignJWT({ address })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(fid.toString())
+    .setIssuer(SESSION_ISSUER)
+    .setIssuedAt()
+    .setExpirationTime(`${SESSION_DURATION_SECONDS}s`)
+    .sign(getSessionSecret());
+}
+
+/**
+ * Verifies a session JWT, returning null if it is invalid or expired
+ */
+export async function verifySessionToken(token: string): Promise<Session | null> {
+  try {
+    const { payload } = await jwtVerify(token, getSessionSecret(), {
+      issuer: SESSION_ISSUER,
+      algorithms: ['HS256'],
+    });
+
+    const fid = Number(payload.sub);
+    if (!Number.isInteger(fid) || fid <= 0 || typeof payload.address !== 'string' || !payload.exp) {
+      return null;
+    }
+
+    return {
+      fid,
+      address: payload.address,
+      expiresAt: payload.exp,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Attaches the session cookie to a response
+ */
+export function setSessionCookie(response: NextResponse, token: string): void {
+  response.cookies.set(SESSION_COOKIE_NAME, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    // Mini apps run inside a Farcaster client iframe, so the cookie must be sent cross-site
+    sameSite: process.env.NODE_ENV === 'production' ? 'none' : 'lax',
+    path: '/',
+    maxAge: SESSION_DURATION_SECONDS,
+  });
+}
+
+/**
+ * Removes the session cookie from a response
+ */
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.delete(SESSION_COOKIE_NAME);
+}
+
+/**
+ * Gets the current session from the request cookies
+ * For use in API routes and server components
+ */
+export async function getSession(): Promise<Session | null> {
+  const token = cookies().get(SESSION_COOKIE_NAME)?.value;
+  if (!token) {
+    return null;
+  }
+  return verifySessionToken(token);
+}
@@ -3,12 +3,43 @@
 // USDC token address on Base chain
 export const USDC_ADDRESS = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
 
+// WETH token address on Base chain
+export const WETH_ADDRESS = '0x4200000000000000000000000000000000000006';
+
+// ZORA token address on Base chain (the pair currency of most creator coins)
+export const ZORA_ADDRESS = '0x1111111111166b7FE7bd91427724B487980aFc69';
+
+// Permit2 (same address on every chain); the Zora SDK spends ERC-20 input through it
+export const PERMIT2_ADDRESS = '0x000000000022D473030F116dDEE9F6B43aC78BA3';
+
+// Stands in for a token address when paying with native ETH
+export const NATIVE_ETH = 'eth';
+
 // Base chain ID
 export const BASE_CHAIN_ID = 8453;
 
-// Available swap amounts in USDC
+// Available swap amounts in USDC (the default pay token)
 export const SWAP_AMOUNTS = [1, 5, 10, 25, 50, 100] as const;
 
+// Token a swap can be paid with: native ETH or an ERC-20 on Base
+export type PayTokenAddress = `0x${string}` | typeof NATIVE_ETH;
+
+export interface PayToken {
+  address: PayTokenAddress;
+  symbol: string;
+  decimals: number;
+}
+
+export const USDC_PAY_TOKEN: PayToken = { address: USDC_ADDRESS, symbol: 'USDC', decimals: 6 };
+export const ETH_PAY_TOKEN: PayToken = { address: NATIVE_ETH, symbol: 'ETH', decimals: 18 };
+export const WETH_PAY_TOKEN: PayToken = { address: WETH_ADDRESS, symbol: 'WETH', decimals: 18 };
+
+// Pay tokens offered alongside the directory's creator coins
+export const BASE_PAY_TOKENS: readonly PayToken[] = [USDC_PAY_TOKEN, ETH_PAY_TOKEN, WETH_PAY_TOKEN];
+
+// ETH left in the wallet for gas when paying with the max ETH balance
+export const ETH_GAS_RESERVE_WEI = 500_000_000_000_000n; // 0.0005 ETH
+
 // Slippage configuration
 export const SLIPPAGE_TIERS = [0.03, 0.05, 0.08] as const; // 3%, 5%, 8%
 export const DEFAULT_SLIPPAGE_MODE: 'auto' | 'manual' = 'auto';
@@ -22,6 +53,16 @@ export function isValidTokenAddress(address: string): boolean {
   return TOKEN_ADDRESS_REGEX.test(address);
 }
 
+// Whether a token address is the native ETH sentinel
+export function isNativeEth(address: string): address is typeof NATIVE_ETH {
+  return address === NATIVE_ETH;
+}
+
+// Case-insensitive token address comparison
+export function isSameToken(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
 // Validation function for chain ID
 export function isValidChainId(chainId: number): boolean {
   return chainId === BASE_CHAIN_ID;
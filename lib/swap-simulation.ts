@@ -0,0 +1,421 @@
+/**
+ * Swap Simulation
+ * Runs every prepared swap as an eth_call before it's signed or its input approved, and decodes
+ * reverts from the Universal Router, PoolManager, Permit2 and pool hooks into typed errors
+ */
+
+import {
+  Address,
+  BaseError,
+  Hex,
+  PublicClient,
+  StateOverride,
+  decodeErrorResult,
+  encodeAbiParameters,
+  erc20Abi,
+  keccak256,
+  maxUint160,
+  pad,
+  parseAbi,
+  toHex,
+} from 'viem';
+import { PERMIT2_ADDRESS } from './swap-constants';
+
+// Permit2's allowance mapping (owner => token => spender => packed allowance) sits in slot 1,
+// after SignatureTransfer's nonceBitmap
+const PERMIT2_ALLOWANCE_SLOT = 1n;
+
+// Simulated permits expire this far after now
+const SIMULATED_PERMIT_SECONDS = 3600;
+
+// ERC-20 allowance mappings are probed in slots 0-20, then in OpenZeppelin v5's namespaced
+// ERC20 storage, where _allowances is the second field
+const PROBED_ALLOWANCE_SLOTS = 21;
+const ERC7201_ERC20_ALLOWANCES_SLOT = '0x52c63247e1f47db19d5ce0460030c497f067ca4cebf71ba98eeadabe20bace01';
+
+// Written to a candidate slot while probing; only the allowance mapping reads it back
+const PROBE_ALLOWANCE = 0xa11ce5eedn;
+
+// Allowance mapping slot per token, or null when probing found none
+const allowanceSlots = new Map<string, Promise<Hex | null>>();
+
+const SWAP_ERRORS_ABI = parseAbi([
+  // Revert strings, e.g. from require()
+  'error Error(string message)',
+  // Universal Router and V4 periphery
+  'error ExecutionFailed(uint256 commandIndex, bytes message)',
+  'error TransactionDeadlinePassed()',
+  'error DeadlinePassed(uint256 deadline)',
+  'error V4TooLittleReceived(uint256 minAmountOutReceived, uint256 amountReceived)',
+  'error V4TooMuchRequested(uint256 maxAmountInRequested, uint256 amountRequested)',
+  'error V3TooLittleReceived()',
+  'error TooLittleReceived()',
+  'error InsufficientETH()',
+  'error InsufficientToken()',
+  'error InsufficientBalance()',
+  'error NotEnoughLiquidity(bytes32 poolId)',
+  // PoolManager
+  'error WrappedError(address target, bytes4 selector, bytes reason, bytes details)',
+  'error HookCallFailed()',
+  'error InvalidHookResponse()',
+  'error PoolNotInitialized()',
+  'error NoLiquidityToReceiveFees()',
+  'error PriceLimitAlreadyExceeded(uint160 sqrtPriceCurrentX96, uint160 sqrtPriceLimitX96)',
+  'error CurrencyNotSettled()',
+  'error ERC20TransferFailed()',
+  'error NativeTransferFailed()',
+  // Permit2
+  'error AllowanceExpired(uint256 deadline)',
+  'error InsufficientAllowance(uint256 amount)',
+  'error SignatureExpired(uint256 signatureDeadline)',
+  'error InvalidNonce()',
+  'error TransferFromFailed()',
+  // ERC-20
+  'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+  'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+]);
+
+export type SwapRevertReason =
+  | 'insufficient-liquidity'
+  | 'slippage'
+  | 'expired-permit'
+  | 'hook-rejected'
+  | 'insufficient-balance'
+  | 'unknown';
+
+const REVERT_REASONS: Record<string, SwapRevertReason> = {
+  V4TooLittleReceived: 'slippage',
+  V4TooMuchRequested: 'slippage',
+  V3TooLittleReceived: 'slippage',
+  TooLittleReceived: 'slippage',
+  PriceLimitAlreadyExceeded: 'slippage',
+  NotEnoughLiquidity: 'insufficient-liquidity',
+  PoolNotInitialized: 'insufficient-liquidity',
+  NoLiquidityToReceiveFees: 'insufficient-liquidity',
+  TransactionDeadlinePassed: 'expired-permit',
+  DeadlinePassed: 'expired-permit',
+  AllowanceExpired: 'expired-permit',
+  InsufficientAllowance: 'expired-permit',
+  SignatureExpired: 'expired-permit',
+  InvalidNonce: 'expired-permit',
+  ERC20InsufficientAllowance: 'expired-permit',
+  HookCallFailed: 'hook-rejected',
+  InvalidHookResponse: 'hook-rejected',
+  InsufficientETH: 'insufficient-balance',
+  InsufficientToken: 'insufficient-balance',
+  InsufficientBalance: 'insufficient-balance',
+  ERC20TransferFailed: 'insufficient-balance',
+  NativeTransferFailed: 'insufficient-balance',
+  TransferFromFailed: 'insufficient-balance',
+  ERC20InsufficientBalance: 'insufficient-balance',
+};
+
+const REVERT_MESSAGES: Record<SwapRevertReason, string> = {
+  'insufficient-liquidity': 'Not enough liquidity for this swap. Try a smaller amount.',
+  slippage: 'Price moved too much. Please try again with higher slippage.',
+  'expired-permit': 'The token permit or swap deadline expired. Please try again.',
+  'hook-rejected': "The coin's pool hook rejected this swap.",
+  'insufficient-balance': 'Insufficient balance for this swap',
+  unknown: 'Swap simulation failed',
+};
+
+/**
+ * A swap that would revert, found before anything was signed
+ */
+export class SwapSimulationError extends Error {
+  constructor(
+    public readonly reason: SwapRevertReason,
+    message: string,
+    public readonly revertName?: string // The decoded custom error or revert string
+  ) {
+    super(message);
+    this.name = 'SwapSimulationError';
+  }
+}
+
+/**
+ * An allowance to fake in Permit2, as if the user had already signed the permit
+ */
+export interface SimulatedPermit2Allowance {
+  token: Address;
+  spender: Address;
+  amount: bigint;
+}
+
+/**
+ * An ERC-20 allowance to fake, as if the user had already approved the spender
+ */
+export interface SimulatedErc20Allowance {
+  token: Address;
+  spender: Address;
+  amount: bigint;
+}
+
+interface DecodedRevert {
+  name: string;
+  reason: SwapRevertReason;
+}
+
+/**
+ * The raw revert data anywhere in a viem error's cause chain
+ */
+function getRevertData(error: unknown): Hex | null {
+  if (!(error instanceof BaseError)) return null;
+
+  const withData = error.walk((cause) => {
+    const data = (cause as { data?: unknown }).data;
+    return typeof data === 'string' || typeof (data as { data?: unknown } | undefined)?.data === 'string';
+  }) as { data?: Hex | { data?: Hex } } | null;
+
+  const data = typeof withData?.data === 'string' ? withData.data : withData?.data?.data;
+  return data && data.length >= 10 ? data : null;
+}
+
+/**
+ * Matches revert strings (require messages) from routers and tokens
+ */
+function classifyRevertString(message: string): SwapRevertReason {
+  const lower = message.toLowerCase();
+  if (lower.includes('too little received') || lower.includes('slippage')) return 'slippage';
+  if (lower.includes('liquidity')) return 'insufficient-liquidity';
+  if (lower.includes('expired') || lower.includes('deadline')) return 'expired-permit';
+  if (lower === 'stf' || lower.includes('transfer_from_failed') || lower.includes('exceeds balance')) {
+    return 'insufficient-balance';
+  }
+  return 'unknown';
+}
+
+/**
+ * Decodes revert data, unwrapping the Universal Router's ExecutionFailed and the PoolManager's
+ * WrappedError (hook calls and currency transfers) to the error that caused them
+ */
+function decodeRevertData(data: Hex): DecodedRevert | null {
+  let decoded;
+  try {
+    decoded = decodeErrorResult({ abi: SWAP_ERRORS_ABI, data });
+  } catch {
+    return null;
+  }
+
+  const { errorName, args } = decoded;
+
+  if (errorName === 'Error') {
+    const message = String(args?.[0] ?? '');
+    return { name: message, reason: classifyRevertString(message) };
+  }
+
+  if (errorName === 'ExecutionFailed') {
+    return decodeRevertData(args[1] as Hex) ?? { name: errorName, reason: 'unknown' };
+  }
+
+  if (errorName === 'WrappedError') {
+    const [, , reason, details] = args as readonly [Address, Hex, Hex, Hex];
+    const wrapper = decodeRevertData(details);
+    const inner = decodeRevertData(reason);
+
+    // Name the hook's own error when it's one we know
+    if (wrapper?.name === 'HookCallFailed') {
+      return { name: inner?.name ?? wrapper.name, reason: 'hook-rejected' };
+    }
+    return inner ?? wrapper ?? { name: errorName, reason: 'unknown' };
+  }
+
+  return { name: errorName, reason: REVERT_REASONS[errorName] ?? 'unknown' };
+}
+
+/**
+ * Turns a failed simulation into a SwapSimulationError
+ */
+export function decodeSwapRevert(error: unknown): SwapSimulationError {
+  if (error instanceof SwapSimulationError) return error;
+
+  const data = getRevertData(error);
+  const decoded = data ? decodeRevertData(data) : null;
+
+  if (decoded) {
+    const message = decoded.reason === 'unknown'
+      ? `${REVERT_MESSAGES.unknown}: ${decoded.name}`
+      : REVERT_MESSAGES[decoded.reason];
+    return new SwapSimulationError(decoded.reason, message, decoded.name);
+  }
+
+  // No revert data: the node rejected the call itself, e.g. for a value above the balance
+  const message = error instanceof BaseError ? error.shortMessage : error instanceof Error ? error.message : String(error);
+  if (message.toLowerCase().includes('insufficient funds')) {
+    return new SwapSimulationError('insufficient-balance', REVERT_MESSAGES['insufficient-balance']);
+  }
+  return new SwapSimulationError('unknown', `${REVERT_MESSAGES.unknown}: ${message}`);
+}
+
+/**
+ * Storage slot of a mapping entry keyed by an address
+ */
+function getMappingSlot(key: Address, slot: Hex): Hex {
+  return keccak256(encodeAbiParameters([{ type: 'address' }, { type: 'bytes32' }], [key, slot]));
+}
+
+/**
+ * Overrides Permit2 allowances so a swap can be simulated before its permit is signed
+ * Each allowance keeps the owner's current nonce, so the override only changes amount and expiration.
+ */
+export async function getPermit2AllowanceOverride(
+  owner: Address,
+  allowances: SimulatedPermit2Allowance[],
+  publicClient: PublicClient
+): Promise<StateOverride> {
+  const expiration = BigInt(Math.floor(Date.now() / 1000) + SIMULATED_PERMIT_SECONDS);
+  const ownerSlot = getMappingSlot(owner, pad(toHex(PERMIT2_ALLOWANCE_SLOT)));
+
+  const stateDiff = await Promise.all(allowances.map(async ({ token, spender, amount }) => {
+    const slot = getMappingSlot(spender, getMappingSlot(token, ownerSlot));
+    const current = await publicClient.getStorageAt({ address: PERMIT2_ADDRESS, slot });
+
+    // Packed as uint160 amount | uint48 expiration << 160 | uint48 nonce << 208
+    const nonce = current ? BigInt(current) >> 208n : 0n;
+    const packed = (nonce << 208n) | (expiration << 160n) | (amount > maxUint160 ? maxUint160 : amount);
+    return { slot, value: pad(toHex(packed)) };
+  }));
+
+  return [{ address: PERMIT2_ADDRESS, stateDiff }];
+}
+
+/**
+ * Finds the slot of a token's allowance mapping by faking an allowance in each candidate slot
+ * and reading it back
+ */
+function findAllowanceSlot(token: Address, owner: Address, spender: Address, publicClient: PublicClient): Promise<Hex | null> {
+  const key = token.toLowerCase();
+  if (!allowanceSlots.has(key)) {
+    const candidates = [
+      ...Array.from({ length: PROBED_ALLOWANCE_SLOTS }, (_, i) => pad(toHex(i))),
+      ERC7201_ERC20_ALLOWANCES_SLOT,
+    ] as Hex[];
+
+    allowanceSlots.set(key, Promise.all(candidates.map((mappingSlot) => publicClient.readContract({
+      address: token,
+      abi: erc20Abi,
+      functionName: 'allowance',
+      args: [owner, spender],
+      stateOverride: [{
+        address: token,
+        stateDiff: [{ slot: getMappingSlot(spender, getMappingSlot(owner, mappingSlot)), value: pad(toHex(PROBE_ALLOWANCE)) }],
+      }],
+    }).catch(() => null)))
+      .then((allowances) => candidates[allowances.indexOf(PROBE_ALLOWANCE)] ?? null));
+  }
+  return allowanceSlots.get(key)!;
+}
+
+/**
+ * Overrides ERC-20 allowances that don't cover their amount yet, so a swap can be simulated
+ * before its approval is sent
+ * Returns null when a token's allowance storage can't be found.
+ */
+export async function getErc20AllowanceOverride(
+  owner: Address,
+  allowances: SimulatedErc20Allowance[],
+  publicClient: PublicClient
+): Promise<StateOverride | null> {
+  const stateDiffs = new Map<Address, Array<{ slot: Hex; value: Hex }>>();
+
+  for (const { token, spender, amount } of allowances) {
+    const current = await publicClient.readContract({
+      address: token,
+      abi: erc20Abi,
+      functionName: 'allowance',
+      args: [owner, spender],
+    });
+    if (current >= amount) continue;
+
+    const mappingSlot = await findAllowanceSlot(token, owner, spender, publicClient);
+    if (!mappingSlot) return null;
+
+    const slot = getMappingSlot(spender, getMappingSlot(owner, mappingSlot));
+    stateDiffs.set(token, [...(stateDiffs.get(token) ?? []), { slot, value: pad(toHex(amount)) }]);
+  }
+
+  return Array.from(stateDiffs, ([address, stateDiff]) => ({ address, stateDiff }));
+}
+
+/**
+ * Runs a prepared swap as an eth_call from the user's account; throws SwapSimulationError if it reverts
+ * Pass permit2Allowances to simulate an ERC-20 swap whose permit isn't signed yet, and
+ * erc20Allowances for one whose input isn't approved yet. When an ERC-20 allowance can't be
+ * faked, the simulation is skipped.
+ */
+export async function simulateSwap(params: {
+  account: Address;
+  call: { to: Address; data: Hex; value: bigint };
+  publicClient: PublicClient;
+  permit2Allowances?: SimulatedPermit2Allowance[];
+  erc20Allowances?: SimulatedErc20Allowance[];
+}): Promise<void> {
+  const { account, call, publicClient, permit2Allowances, erc20Allowances } = params;
+
+  try {
+    const stateOverride: StateOverride = [];
+
+    if (erc20Allowances?.length) {
+      const erc20Override = await getErc20AllowanceOverride(account, erc20Allowances, publicClient);
+      if (!erc20Override) {
+        console.log('[Swap Simulation] Token allowance storage not found, skipping simulation');
+        return;
+      }
+      stateOverride.push(...erc20Override);
+    }
+
+    if (permit2Allowances?.length) {
+      stateOverride.push(...await getPermit2AllowanceOverride(account, permit2Allowances, publicClient));
+    }
+
+    await publicClient.call({ account, ...call, stateOverride: stateOverride.length ? stateOverride : undefined });
+  } catch (error) {
+    const revert = decodeSwapRevert(error);
+    console.log('[Swap Simulation] Swap would revert:', revert.reason, revert.revertName ?? revert.message);
+    throw revert;
+  }
+}
+
+/**
+ * Runs a batch's calls in order in one simulated block, as an atomic EIP-5792 batch would
+ * execute them; throws SwapSimulationError for the first call that reverts
+ * Returns the gas the calls used together. Nodes without eth_simulateV1 can't run it, so the
+ * batch goes ahead unsimulated and null is returned.
+ */
+export async function simulateBatch(params: {
+  account: Address;
+  calls: Array<{ to: Address; data: Hex; value: bigint }>;
+  publicClient: PublicClient;
+}): Promise<bigint | null> {
+  const { account, calls, publicClient } = params;
+
+  let results;
+  try {
+    ({ results } = await publicClient.simulateCalls({ account, calls }));
+  } catch (error) {
+    console.log('[Swap Simulation] Batch simulation unavailable:', error instanceof BaseError ? error.shortMessage : error);
+    return null;
+  }
+
+  const failedIndex = results.findIndex((result) => result.status === 'failure');
+  if (failedIndex !== -1) {
+    const revert = decodeSwapRevert(results[failedIndex].error);
+    console.log(`[Swap Simulation] Batch call ${failedIndex + 1} would revert:`, revert.reason, revert.revertName ?? revert.message);
+    throw revert;
+  }
+
+  return results.reduce((sum, result) => sum + result.gasUsed, 0n);
+}
+
+/**
+ * For simulations that stand in for a signature: rethrows reverts with a known reason
+ * An unknown revert may come from the stand-in itself, so the swap goes on to be signed and
+ * simulated for real.
+ */
+export function rethrowKnownRevert(error: unknown): void {
+  if (error instanceof SwapSimulationError && error.reason === 'unknown') {
+    console.log('[Swap Simulation] Unsigned simulation inconclusive, continuing');
+    return;
+  }
+  throw error;
+}
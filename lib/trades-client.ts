@@ -0,0 +1,65 @@
+import sdk from '@farcaster/frame-sdk';
+import type { TradeHistoryEntry } from './trades';
+import { ensureFarcasterSession } from './farcaster-sign-in';
+
+// Shared by trades recorded together (e.g. a Buy All batch), so only one asks to sign in
+let pendingSession: Promise<void> | null = null;
+
+/**
+ * Signs in as the mini app's user if there's no session yet
+ */
+function ensureTradeSession(): Promise<void> {
+  if (!pendingSession) {
+    pendingSession = sdk.context
+      .then((context) => ensureFarcasterSession(context.user.fid))
+      .finally(() => {
+        pendingSession = null;
+      });
+  }
+  return pendingSession;
+}
+
+/**
+ * Records a confirmed swap so it shows up in the portfolio's cost basis
+ * Signs in first, since trades are only recorded for the signed-in user's verified wallets.
+ * Best-effort: failures are logged, never surfaced to the user
+ */
+export async function recordTrade(txHash: string, walletAddress: string, slippage?: number): Promise<void> {
+  try {
+    await ensureTradeSession();
+
+    const response = await fetch('/api/trades', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ txHash, walletAddress, slippage }),
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      console.error('[Trades] Failed to record trade:', data.error || response.status);
+    }
+  } catch (error) {
+    console.error('[Trades] Failed to record trade:', error);
+  }
+}
+
+/**
+ * Fetches a wallet's trade history from /api/trades
+ * Returns null when there's no Farcaster session
+ */
+export async function fetchTradeHistory(walletAddress: string): Promise<TradeHistoryEntry[] | null> {
+  const response = await fetch(`/api/trades?wallet=${walletAddress}`);
+  if (response.status === 401) {
+    return null;
+  }
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to fetch trade history');
+  }
+
+  return data.trades;
+}
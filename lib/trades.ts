@@ -0,0 +1,333 @@
+import { Address, createPublicClient, erc20Abi, formatUnits, Hash, http, parseEventLogs } from 'viem';
+import { base } from 'viem/chains';
+import { getServiceSupabase } from './supabase';
+import { NATIVE_ETH, USDC_ADDRESS, WETH_ADDRESS, ZORA_ADDRESS } from './swap-constants';
+import { allocateByWeight } from './buy-all-allocation';
+import { getBestV4Route } from './v4-routing';
+
+const RECEIPT_TIMEOUT_MS = 60_000;
+
+const COIN_DECIMALS = 18; // Zora coins are standard 18-decimal ERC-20s
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000' as Address;
+
+// Pay tokens priced in USDC when a trade is recorded, by the pool currency quoted for them
+const USDC_PRICED_TOKENS: Record<string, Address> = {
+  [NATIVE_ETH]: ZERO_ADDRESS,
+  [WETH_ADDRESS.toLowerCase()]: WETH_ADDRESS as Address,
+  [ZORA_ADDRESS.toLowerCase()]: ZORA_ADDRESS as Address,
+};
+
+const TRADE_COLUMNS =
+  'tx_hash, wallet_address, coin_address, side, coin_amount::text, pay_token, pay_amount::text, usdc_amount::text, slippage, block_number, block_timestamp';
+
+// Most recent trades shown in a wallet's history
+const HISTORY_LIMIT = 200;
+
+export type TradeSide = 'buy' | 'sell';
+
+export interface Trade {
+  tx_hash: string;
+  wallet_address: string;
+  coin_address: string;
+  side: TradeSide;
+  coin_amount: string; // Base units
+  pay_token: string; // Lowercased token paid (buys) or received (sells); 'eth' for native ETH
+  pay_amount: string; // Base units of pay_token
+  usdc_amount: string | null; // Base units; USDC pays, or ETH, WETH and ZORA priced when recorded
+  slippage: number | null; // Slippage tolerance the swap used, as a decimal
+  block_number: number;
+  block_timestamp: string;
+}
+
+export interface TradeHistoryEntry extends Trade {
+  username: string | null; // Null if the coin has since left the directory
+  token_ticker: string | null;
+  fid: number | null;
+}
+
+export class TradeNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TradeNotFoundError';
+  }
+}
+
+const baseClient = createPublicClient({
+  chain: base,
+  transport: http(process.env.BASE_RPC_URL || 'https://mainnet.base.org'),
+});
+
+interface DirectoryCoin {
+  fid: number;
+  username: string;
+  token_ticker: string | null;
+  price_usd: number; // Cached coin_stats price; 0 until first fetched
+}
+
+/**
+ * Fetches the directory's creator coins, keyed by lowercased address
+ */
+async function getDirectoryCoins(): Promise<Map<string, DirectoryCoin>> {
+  const { data, error } = await getServiceSupabase()
+    .from('profile_directory')
+    .select('fid, username, token_ticker, creator_coin_address, price_usd');
+
+  if (error) {
+    throw new Error(`Failed to fetch directory coins: ${error.message}`);
+  }
+
+  return new Map((data || []).map((row) => [
+    row.creator_coin_address.toLowerCase(),
+    { fid: row.fid, username: row.username, token_ticker: row.token_ticker, price_usd: Number(row.price_usd) || 0 },
+  ]));
+}
+
+/**
+ * An ETH, WETH or ZORA amount in USDC base units, quoted over the V4 pools at the current price
+ * Null for other tokens or when no route quotes it.
+ */
+async function quoteUsdcAmount(payToken: string, amount: bigint): Promise<string | null> {
+  const currency = USDC_PRICED_TOKENS[payToken];
+  if (!currency || amount === 0n) return null;
+
+  try {
+    const route = await getBestV4Route(currency, USDC_ADDRESS as Address, amount);
+    return route ? route.amountOut.toString() : null;
+  } catch (error) {
+    console.error(`[Trades] Could not price ${payToken} in USDC:`, error);
+    return null;
+  }
+}
+
+/**
+ * The native ETH a wallet received in a transaction, from its balance change over the block
+ * What the wallet spent as the transaction's sender (value, gas and L1 fee) is added back.
+ * Assumes the wallet made no other transaction in the same block.
+ */
+async function getEthReceived(
+  receipt: Awaited<ReturnType<typeof baseClient.waitForTransactionReceipt>>,
+  transaction: Awaited<ReturnType<typeof baseClient.getTransaction>>,
+  wallet: Address
+): Promise<bigint> {
+  const [before, after] = await Promise.all([
+    baseClient.getBalance({ address: wallet, blockNumber: receipt.blockNumber - 1n }),
+    baseClient.getBalance({ address: wallet, blockNumber: receipt.blockNumber }),
+  ]);
+
+  const spent = transaction.from.toLowerCase() === wallet.toLowerCase()
+    ? transaction.value + receipt.gasUsed * receipt.effectiveGasPrice + (receipt.l1Fee ?? 0n)
+    : 0n;
+
+  const received = after - before + spent;
+  return received > 0n ? received : 0n;
+}
+
+/**
+ * Decodes the trades a transaction made for a wallet from its ERC-20 Transfer logs
+ *
+ * Logs are walked in order. Each creator coin received is paired with the tokens the wallet
+ * sent before it (USDC, WETH or another creator coin), or with the transaction's ETH value;
+ * each token received is split across the creator coins sent before it. Coins left unmatched
+ * were sold for native ETH, which has no Transfer log, so they're paired with the ETH the
+ * wallet's balance gained (see getEthReceived). Batched transactions
+ * that buy several coins are split per coin. ETH, WETH and ZORA amounts are priced in USDC.
+ * Only transfers to and from the wallet count, so the transaction may be sent by anyone, e.g. a
+ * bundler for a smart wallet; callers authorize the wallet itself.
+ */
+export async function decodeTrades(txHash: Hash, walletAddress: Address): Promise<Trade[]> {
+  const receipt = await baseClient.waitForTransactionReceipt({
+    hash: txHash,
+    timeout: RECEIPT_TIMEOUT_MS,
+  });
+
+  if (receipt.status !== 'success') {
+    throw new TradeNotFoundError('Transaction reverted');
+  }
+
+  const [block, transaction, directoryCoins] = await Promise.all([
+    baseClient.getBlock({ blockNumber: receipt.blockNumber }),
+    baseClient.getTransaction({ hash: txHash }),
+    getDirectoryCoins(),
+  ]);
+
+  const wallet = walletAddress.toLowerCase();
+  const usdc = USDC_ADDRESS.toLowerCase();
+  const transfers = parseEventLogs({ abi: erc20Abi, eventName: 'Transfer', logs: receipt.logs });
+
+  const trades = new Map<string, Trade>();
+  const tokensOut = new Map<string, bigint>(); // Non-directory tokens sent and not yet matched to a coin received
+  const coinsOut = new Map<string, bigint>(); // Coins sent and not yet matched to anything received
+  // Native ETH only shows up as the transaction value, when the wallet sent it directly
+  let ethOut = transaction.from.toLowerCase() === wallet ? transaction.value : 0n;
+
+  const addTrade = (coin: string, side: TradeSide, coinAmount: bigint, payToken: string, payAmount: bigint) => {
+    const existing = trades.get(coin);
+    if (existing && existing.side === side && existing.pay_token === payToken) {
+      existing.coin_amount = (BigInt(existing.coin_amount) + coinAmount).toString();
+      existing.pay_amount = (BigInt(existing.pay_amount) + payAmount).toString();
+      existing.usdc_amount = payToken === usdc ? existing.pay_amount : null;
+      return;
+    }
+    trades.set(coin, {
+      tx_hash: txHash.toLowerCase(),
+      wallet_address: wallet,
+      coin_address: coin,
+      side,
+      coin_amount: coinAmount.toString(),
+      pay_token: payToken,
+      pay_amount: payAmount.toString(),
+      usdc_amount: payToken === usdc ? payAmount.toString() : null,
+      slippage: null,
+      block_number: Number(receipt.blockNumber),
+      block_timestamp: new Date(Number(block.timestamp) * 1000).toISOString(),
+    });
+  };
+
+  // Splits a token received across the coins sent before it by their cached USD value, or by
+  // amount if any of them is unpriced
+  const sellCoinsOut = (payToken: string, amount: bigint) => {
+    const sold = Array.from(coinsOut.entries());
+    const amounts = sold.map(([, coinAmount]) => Number(formatUnits(coinAmount, COIN_DECIMALS)));
+    const prices = sold.map(([coin]) => directoryCoins.get(coin)?.price_usd ?? 0);
+    const weights = prices.every((price) => price > 0)
+      ? amounts.map((coinAmount, i) => coinAmount * prices[i])
+      : amounts;
+
+    const shares = allocateByWeight(amount, weights);
+    sold.forEach(([coin, coinAmount], i) => addTrade(coin, 'sell', coinAmount, payToken, shares[i]));
+    coinsOut.clear();
+  };
+
+  // The first pending leg, consumed
+  const takeFirst = (legs: Map<string, bigint>): [string, bigint] | null => {
+    const first = legs.entries().next();
+    if (first.done) return null;
+    legs.delete(first.value[0]);
+    return first.value;
+  };
+
+  for (const log of transfers) {
+    const token = log.address.toLowerCase();
+    const from = log.args.from.toLowerCase();
+    const to = log.args.to.toLowerCase();
+    const value = log.args.value;
+
+    if (!directoryCoins.has(token)) {
+      if (from === wallet) tokensOut.set(token, (tokensOut.get(token) || 0n) + value);
+      if (to === wallet && coinsOut.size > 0) {
+        // A sell: tokens received after coins were sent
+        sellCoinsOut(token, value);
+      }
+      continue;
+    }
+
+    if (from === wallet) {
+      coinsOut.set(token, (coinsOut.get(token) || 0n) + value);
+      continue;
+    }
+
+    if (to !== wallet) continue;
+
+    // A buy: pay with what was sent before it; a coin sent is paid in (coin-to-coin) rather than sold
+    const paid = takeFirst(tokensOut) || takeFirst(coinsOut);
+    if (paid) {
+      addTrade(token, 'buy', value, paid[0], paid[1]);
+    } else if (ethOut > 0n) {
+      addTrade(token, 'buy', value, NATIVE_ETH, ethOut);
+      ethOut = 0n;
+    }
+  }
+
+  if (coinsOut.size > 0) {
+    const ethIn = await getEthReceived(receipt, transaction, walletAddress);
+    if (ethIn > 0n) sellCoinsOut(NATIVE_ETH, ethIn);
+  }
+
+  const decoded = Array.from(trades.values());
+  await Promise.all(decoded.map(async (trade) => {
+    if (trade.usdc_amount === null) {
+      trade.usdc_amount = await quoteUsdcAmount(trade.pay_token, BigInt(trade.pay_amount));
+    }
+  }));
+
+  return decoded;
+}
+
+/**
+ * Decodes and stores the trades a transaction made for a wallet
+ * Idempotent: re-recording the same transaction leaves one row per coin
+ */
+export async function recordTrades(
+  txHash: Hash,
+  walletAddress: Address,
+  slippage?: number
+): Promise<Trade[]> {
+  const trades = await decodeTrades(txHash, walletAddress);
+
+  if (trades.length === 0) {
+    throw new TradeNotFoundError('No creator coin trades found in transaction');
+  }
+
+  // Without a slippage, re-recording keeps the one already stored
+  const rows = trades.map(({ slippage: _slippage, ...trade }) =>
+    slippage !== undefined ? { ...trade, slippage } : trade
+  );
+
+  const { error } = await getServiceSupabase()
+    .from('trades')
+    .upsert(rows, { onConflict: 'tx_hash,coin_address' });
+
+  if (error) {
+    throw new Error(`Failed to save trades: ${error.message}`);
+  }
+
+  console.log(`[Trades] Recorded ${trades.length} trade(s) from ${txHash}`);
+  return trades.map((trade) => ({ ...trade, slippage: slippage ?? null }));
+}
+
+/**
+ * Gets a wallet's recorded trades, oldest first
+ */
+export async function getTradesForWallet(walletAddress: Address): Promise<Trade[]> {
+  const { data, error } = await getServiceSupabase()
+    .from('trades')
+    .select(TRADE_COLUMNS)
+    .eq('wallet_address', walletAddress.toLowerCase())
+    .order('block_timestamp', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch trades: ${error.message}`);
+  }
+
+  return (data || []) as unknown as Trade[];
+}
+
+/**
+ * Gets a wallet's recorded trades, newest first, with the coin's directory profile
+ */
+export async function getTradeHistory(walletAddress: Address): Promise<TradeHistoryEntry[]> {
+  const [{ data, error }, directoryCoins] = await Promise.all([
+    getServiceSupabase()
+      .from('trades')
+      .select(TRADE_COLUMNS)
+      .eq('wallet_address', walletAddress.toLowerCase())
+      .order('block_timestamp', { ascending: false })
+      .limit(HISTORY_LIMIT),
+    getDirectoryCoins(),
+  ]);
+
+  if (error) {
+    throw new Error(`Failed to fetch trade history: ${error.message}`);
+  }
+
+  return ((data || []) as unknown as Trade[]).map((trade) => {
+    const coin = directoryCoins.get(trade.coin_address);
+    return {
+      ...trade,
+      username: coin?.username ?? null,
+      token_ticker: coin?.token_ticker ?? null,
+      fid: coin?.fid ?? null,
+    };
+  });
+}
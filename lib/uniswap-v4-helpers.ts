@@ -1,9 +1,9 @@
 /**
  * @deprecated This file contains legacy Uniswap V4 direct PoolManager integration.
- * The application now uses Zora Coins SDK exclusively for all swaps.
+ * Swaps go through the Zora Coins SDK, with direct V4 swaps via the Universal Router as the fallback.
  * This file should not be used in new code.
  * 
- * See: lib/zora-trade-helpers.ts for the new implementation using @zoralabs/coins-sdk
+ * See: lib/zora-trade-helpers.ts and lib/universal-router-helpers.ts
  */
 
 import { Address, encodeFunctionData, parseUnits } from 'viem';
@@ -0,0 +1,73 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { Address, parseAbi } from 'viem';
+import {
+  FORK_RPC_URL,
+  createForkClients,
+  forkAccount,
+  fundErc20,
+  getCoinPool,
+  getErc20Balance,
+  setupForkAccount,
+} from './fork-test-helpers';
+import { PERMIT2_ADDRESS, USDC_ADDRESS } from './swap-constants';
+
+// A Zora coin paired with USDC in its own pool
+const USDC_COIN = process.env.FORK_USDC_COIN as Address | undefined;
+
+const SELL_AMOUNT = 10_000_000n; // 10 USDC
+
+const PERMIT2_ABI = parseAbi([
+  'function allowance(address owner, address token, address spender) view returns (uint160 amount, uint48 expiration, uint48 nonce)',
+]);
+
+describe.skipIf(!FORK_RPC_URL || !USDC_COIN)('V4 swap on a Base fork', () => {
+  const clients = createForkClients();
+  let helpers: typeof import('./universal-router-helpers');
+  let quoter: typeof import('./v4-quoter-helpers');
+
+  beforeAll(async () => {
+    // The quoter's client reads BASE_RPC_URL when it loads
+    process.env.BASE_RPC_URL = FORK_RPC_URL;
+    helpers = await import('./universal-router-helpers');
+    quoter = await import('./v4-quoter-helpers');
+
+    await setupForkAccount(clients);
+    await fundErc20(USDC_ADDRESS, forkAccount.address, SELL_AMOUNT, clients);
+  });
+
+  it('quotes USDC → coin from the pool and swaps it through the Universal Router with a Permit2 permit', async () => {
+    const coin = USDC_COIN!;
+    const { poolKey, currency } = await getCoinPool(coin, clients);
+    expect(currency.toLowerCase()).toBe(USDC_ADDRESS.toLowerCase());
+
+    const quote = await quoter.getV4Quote(poolKey, USDC_ADDRESS, coin, SELL_AMOUNT);
+    expect(quote?.amountOut).toBeGreaterThan(0n);
+
+    const amountOutMinimum = quoter.calculateMinimumOutput(quote!.amountOut, 100);
+    const coinBefore = await getErc20Balance(coin, forkAccount.address, clients);
+
+    const result = await helpers.executeV4Swap({
+      path: [quoter.toPathKey(poolKey, USDC_ADDRESS)],
+      sellToken: USDC_ADDRESS,
+      buyToken: coin,
+      sellAmount: SELL_AMOUNT,
+      amountOutMinimum,
+      walletClient: clients.walletClient,
+      account: forkAccount,
+      publicClient: clients.publicClient,
+    });
+
+    expect(result).toMatchObject({ success: true });
+    expect(await getErc20Balance(USDC_ADDRESS, forkAccount.address, clients)).toBe(0n);
+    expect(await getErc20Balance(coin, forkAccount.address, clients) - coinBefore).toBeGreaterThanOrEqual(amountOutMinimum);
+
+    // The router pulled the USDC through a signed permit, which used nonce 0
+    const [, , nonce] = await clients.publicClient.readContract({
+      address: PERMIT2_ADDRESS,
+      abi: PERMIT2_ABI,
+      functionName: 'allowance',
+      args: [forkAccount.address, USDC_ADDRESS, helpers.UNIVERSAL_ROUTER_ADDRESS],
+    });
+    expect(nonce).toBe(1);
+  }, 120_000);
+});
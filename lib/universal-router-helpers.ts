@@ -1,17 +1,37 @@
 /**
- * @deprecated This file contains legacy Universal Router integration.
- * The application now uses Zora Coins SDK exclusively for all swaps.
- * This file should not be used in new code.
- * 
- * See: lib/zora-trade-helpers.ts for the new implementation using @zoralabs/coins-sdk
+ * Universal Router Integration
+ * Direct Uniswap V4 swaps through the Universal Router's V4_SWAP command, paid through Permit2.
+ * This is the fallback when the Zora API is unavailable; Zora SDK trades remain the default
+ * (see lib/zora-trade-helpers.ts). The V3 helpers are legacy.
  */
 
-import { Address, encodeFunctionData, encodeAbiParameters, parseAbiParameters, formatUnits } from 'viem';
-import { getV4Quote, PoolKey } from './v4-quoter-helpers';
+import {
+  Address,
+  Hex,
+  WalletClient,
+  PublicClient,
+  Account,
+  encodeFunctionData,
+  encodeAbiParameters,
+  parseAbiParameters,
+  formatUnits,
+} from 'viem';
+import { base } from 'viem/chains';
+import { getV4Quote, PathKey, PoolKey, pathKeyToPoolKey, toPathKey } from './v4-quoter-helpers';
 import { detectPoolsWithZoraFallback } from './pool-detection-helpers';
-
-// Universal Router on Base
-export const UNIVERSAL_ROUTER_ADDRESS = '0x3fC91A3afd70395Cd496C647d5a6CC9D4B2b7FAD' as Address;
+import { getBestV4Route } from './v4-routing';
+import { BASE_CHAIN_ID, PERMIT2_ADDRESS, PayTokenAddress, isNativeEth } from './swap-constants';
+import {
+  PERMIT2_ABI,
+  PERMIT_SINGLE_TYPES,
+  TradeResult,
+  ensurePermit2Approval,
+  extractErrorMessage,
+} from './zora-trade-helpers';
+import { simulateSwap, rethrowKnownRevert } from './swap-simulation';
+
+// Universal Router on Base (the V4 deployment, which also runs the V3 commands)
+export const UNIVERSAL_ROUTER_ADDRESS = '0x6fF5693b99212Da76ad316178A184AB56D299b43' as Address;
 
 // USDC on Base
 export const USDC_ADDRESS = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' as Address;
@@ -29,39 +49,81 @@ export const HIGH_SLIPPAGE_WARNING_BPS = 1000;
 // 3. Using a quoter contract to find the best route
 export const DEFAULT_FEE_TIER = 3000;
 
-// Commands for Universal Router
+// Commands for Universal Router (universal-router Commands.sol)
 const Commands = {
   // V3 commands (kept for backwards compatibility)
   V3_SWAP_EXACT_IN: '0x00',
   V3_SWAP_EXACT_OUT: '0x01',
+  // Other commands
+  PERMIT2_TRANSFER_FROM: '0x02',
+  PERMIT2_PERMIT_BATCH: '0x03',
+  SWEEP: '0x04',
+  TRANSFER: '0x05',
+  PAY_PORTION: '0x06',
+  PERMIT2_PERMIT: '0x0a',
   // V4 command
   V4_SWAP: '0x10',
-  // Other commands
-  PERMIT2_TRANSFER_FROM: '0x0a',
-  PERMIT2_PERMIT_BATCH: '0x0b',
-  SWEEP: '0x0c',
-  TRANSFER: '0x0d',
-  PAY_PORTION: '0x0e',
 } as const;
 
-// V4 Actions for swap encoding
-// Based on Uniswap V4 documentation
+// V4 router actions (v4-periphery Actions.sol)
 const V4Actions = {
-  SWAP_EXACT_IN_SINGLE: '0x00',
-  SWAP_EXACT_IN: '0x01',
-  SWAP_EXACT_OUT_SINGLE: '0x02',
-  SWAP_EXACT_OUT: '0x03',
-  SETTLE_ALL: '0x10',
-  SETTLE_PAIR: '0x11',
-  TAKE_ALL: '0x12',
-  TAKE_PAIR: '0x13',
-  SETTLE: '0x14',
-  TAKE: '0x15',
-  CLOSE_CURRENCY: '0x16',
-  CLEAR_OR_TAKE: '0x17',
-  SWEEP: '0x18',
+  SWAP_EXACT_IN_SINGLE: '0x06',
+  SWAP_EXACT_IN: '0x07',
+  SWAP_EXACT_OUT_SINGLE: '0x08',
+  SWAP_EXACT_OUT: '0x09',
+  SETTLE: '0x0b',
+  SETTLE_ALL: '0x0c',
+  SETTLE_PAIR: '0x0d',
+  TAKE: '0x0e',
+  TAKE_ALL: '0x0f',
+  TAKE_PAIR: '0x11',
+  CLOSE_CURRENCY: '0x12',
+  CLEAR_OR_TAKE: '0x13',
+  SWEEP: '0x14',
 } as const;
 
+// Universal Router execute ABI
+const EXECUTE_ABI = [
+  {
+    name: 'execute',
+    type: 'function',
+    stateMutability: 'payable',
+    inputs: [
+      { name: 'commands', type: 'bytes' },
+      { name: 'inputs', type: 'bytes[]' },
+      { name: 'deadline', type: 'uint256' },
+    ],
+    outputs: [],
+  },
+] as const;
+
+// V4 pools use the zero address for native ETH
+const NATIVE_CURRENCY = '0x0000000000000000000000000000000000000000' as Address;
+
+// How long swap deadlines and Permit2 permits stay valid
+const SWAP_DEADLINE_SECONDS = 300; // 5 minutes
+const PERMIT_EXPIRATION_SECONDS = 30 * 60; // 30 minutes
+
+/**
+ * A signed Permit2 PermitSingle letting the Universal Router pull the input token
+ */
+export interface Permit2Signature {
+  permit: {
+    details: { token: Address; amount: bigint; expiration: number; nonce: number };
+    spender: Address;
+    sigDeadline: bigint;
+  };
+  signature: Hex;
+}
+
+export interface V4SwapParameters {
+  path: PathKey[]; // Hops from the sell token to the buy token; one hop swaps through a single pool
+  sellToken: PayTokenAddress;
+  buyToken: PayTokenAddress;
+  sellAmount: bigint;
+  amountOutMinimum: bigint;
+}
+
 // Empty hook data constant for V4 swaps
 const EMPTY_HOOK_DATA = '0x' as const;
 
@@ -96,7 +158,6 @@ function encodeV3Path(tokenIn: Address, tokenOut: Address, fee: number): `0x${st
 
 /**
  * Encode V4 swap action parameters for Universal Router
- * Based on Uniswap V4 documentation
  */
 function encodeV4SwapExactInSingle(
   poolKey: PoolKey,
@@ -105,50 +166,88 @@ function encodeV4SwapExactInSingle(
   amountOutMinimum: bigint,
   hookData: `0x${string}` = '0x' as const
 ): `0x${string}` {
-  // Parameters for SWAP_EXACT_IN_SINGLE action:
-  // - PoolKey struct (currency0, currency1, fee, tickSpacing, hooks)
-  // - bool zeroForOne (direction of swap)
-  // - uint128 amountIn
-  // - uint128 amountOutMinimum
-  // - bytes hookData
-  
+  // SWAP_EXACT_IN_SINGLE decodes one ExactInputSingleParams struct:
+  // (PoolKey poolKey, bool zeroForOne, uint128 amountIn, uint128 amountOutMinimum, bytes hookData)
   return encodeAbiParameters(
-    parseAbiParameters([
-      '(address currency0, address currency1, uint24 fee, int24 tickSpacing, address hooks) poolKey',
-      'bool zeroForOne',
-      'uint128 amountIn',
-      'uint128 amountOutMinimum',
-      'bytes hookData'
-    ].join(', ')),
+    parseAbiParameters(
+      '((address currency0, address currency1, uint24 fee, int24 tickSpacing, address hooks) poolKey, bool zeroForOne, uint128 amountIn, uint128 amountOutMinimum, bytes hookData)'
+    ),
     [
       {
-        currency0: poolKey.currency0,
-        currency1: poolKey.currency1,
-        fee: poolKey.fee,
-        tickSpacing: poolKey.tickSpacing,
-        hooks: poolKey.hooks,
+        poolKey: {
+          currency0: poolKey.currency0,
+          currency1: poolKey.currency1,
+          fee: poolKey.fee,
+          tickSpacing: poolKey.tickSpacing,
+          hooks: poolKey.hooks,
+        },
+        zeroForOne,
+        amountIn,
+        amountOutMinimum,
+        hookData,
       },
-      zeroForOne,
-      amountIn,
-      amountOutMinimum,
-      hookData,
     ]
   );
 }
 
+/**
+ * Encode SWAP_EXACT_IN parameters for a multi-hop V4 swap
+ */
+function encodeV4SwapExactIn(
+  currencyIn: Address,
+  path: PathKey[],
+  amountIn: bigint,
+  amountOutMinimum: bigint
+): `0x${string}` {
+  // SWAP_EXACT_IN decodes one ExactInputParams struct:
+  // (Currency currencyIn, PathKey[] path, uint128 amountIn, uint128 amountOutMinimum)
+  return encodeAbiParameters(
+    parseAbiParameters(
+      '(address currencyIn, (address intermediateCurrency, uint24 fee, int24 tickSpacing, address hooks, bytes hookData)[] path, uint128 amountIn, uint128 amountOutMinimum)'
+    ),
+    [{ currencyIn, path, amountIn, amountOutMinimum }]
+  );
+}
+
 /**
  * Get swap quote using V4 Quoter with automatic pool detection
+ * Takes the best path over the pool registry (up to three hops, e.g. USDC → ETH → ZORA → coin),
+ * falling back to a single hop through the buy token's primary pool.
  */
 export async function getUniversalRouterQuote(
   sellToken: Address,
   buyToken: Address,
   sellAmount: bigint,
   slippageBps: number = DEFAULT_SLIPPAGE_BPS
-): Promise<{ amountOut: bigint; amountOutMinimum: bigint; gasEstimate: bigint; poolKey?: PoolKey } | null> {
+): Promise<{ amountOut: bigint; amountOutMinimum: bigint; gasEstimate: bigint; path: PathKey[]; poolKey?: PoolKey } | null> {
   console.log('[Universal Router] Starting quote with pool detection...');
-  
+
+  const route = await getBestV4Route(sellToken, buyToken, sellAmount);
+  if (route) {
+    const amountOutMinimum = calculateMinimumOutput(route.amountOut, slippageBps);
+
+    console.log('[Universal Router] ✓ Quote complete', {
+      route: route.currencies,
+      amountOut: route.amountOut.toString(),
+      amountOutMinimum: amountOutMinimum.toString(),
+      slippageBps,
+    });
+
+    return {
+      amountOut: route.amountOut,
+      amountOutMinimum,
+      gasEstimate: route.gasEstimate,
+      path: route.path,
+      poolKey: route.pools.length === 1 ? route.pools[0] : undefined,
+    };
+  }
+
   // Step 1: Detect pools for the buy token
-  const poolDetection = await detectPoolsWithZoraFallback(buyToken);
+  const poolDetection = await detectPoolsWithZoraFallback(buyToken, {
+    tokenIn: sellToken,
+    tokenOut: buyToken,
+    amountIn: sellAmount,
+  });
   
   if (!poolDetection.found || !poolDetection.primaryPool) {
     console.error('[Universal Router] No pools found for token');
@@ -156,7 +255,7 @@ export async function getUniversalRouterQuote(
   }
 
   const poolKey = poolDetection.primaryPool;
-  console.log('[Universal Router] Using pool:', poolKey);
+  console.log('[Universal Router] Using pool:', poolKey, poolDetection.selection);
 
   // Step 2: Get quote from V4 Quoter
   const quote = await getV4Quote(poolKey, sellToken, buyToken, sellAmount);
@@ -179,6 +278,7 @@ export async function getUniversalRouterQuote(
     amountOut: quote.amountOut,
     amountOutMinimum,
     gasEstimate: quote.gasEstimate,
+    path: [toPathKey(poolKey, sellToken)],
     poolKey,
   };
 }
@@ -271,9 +371,91 @@ export async function getUniversalRouterSwapTransactionV3(
   }
 }
 
+/**
+ * Maps a pay token to its V4 pool currency
+ */
+function toPoolCurrency(token: PayTokenAddress): Address {
+  return isNativeEth(token) ? NATIVE_CURRENCY : token;
+}
+
+/**
+ * Build a Universal Router transaction for an exact-input V4 swap
+ * Actions: SWAP_EXACT_IN_SINGLE for one pool or SWAP_EXACT_IN along a path, then SETTLE_ALL (pay
+ * the input) and TAKE_ALL (receive at least amountOutMinimum). ERC-20 input is pulled through
+ * Permit2; with a permit, a PERMIT2_PERMIT command runs first. Native ETH input is sent as the
+ * transaction value.
+ */
+export function buildV4SwapTransaction(
+  params: V4SwapParameters,
+  permit?: Permit2Signature
+): { to: Address; data: Hex; value: bigint } {
+  const { path, sellToken, buyToken, sellAmount, amountOutMinimum } = params;
+  const currencyIn = toPoolCurrency(sellToken);
+  const currencyOut = toPoolCurrency(buyToken);
+
+  let swapAction: string;
+  let swapParams: Hex;
+  if (path.length === 1) {
+    const poolKey = pathKeyToPoolKey(path[0], currencyIn);
+    const zeroForOne = currencyIn.toLowerCase() === poolKey.currency0.toLowerCase();
+    swapAction = V4Actions.SWAP_EXACT_IN_SINGLE;
+    swapParams = encodeV4SwapExactInSingle(poolKey, zeroForOne, sellAmount, amountOutMinimum, EMPTY_HOOK_DATA);
+  } else {
+    swapAction = V4Actions.SWAP_EXACT_IN;
+    swapParams = encodeV4SwapExactIn(currencyIn, path, sellAmount, amountOutMinimum);
+  }
+
+  const actions = `0x${[
+    swapAction,
+    V4Actions.SETTLE_ALL,
+    V4Actions.TAKE_ALL,
+  ].map((action) => action.slice(2)).join('')}` as Hex;
+
+  const v4SwapInput = encodeAbiParameters(
+    parseAbiParameters('bytes actions, bytes[] params'),
+    [
+      actions,
+      [
+        swapParams,
+        encodeAbiParameters(parseAbiParameters('address currency, uint256 maxAmount'), [currencyIn, sellAmount]),
+        encodeAbiParameters(parseAbiParameters('address currency, uint256 minAmount'), [currencyOut, amountOutMinimum]),
+      ],
+    ]
+  );
+
+  const commands: string[] = [];
+  const inputs: Hex[] = [];
+
+  if (permit) {
+    commands.push(Commands.PERMIT2_PERMIT);
+    inputs.push(encodeAbiParameters(
+      parseAbiParameters(
+        '((address token, uint160 amount, uint48 expiration, uint48 nonce) details, address spender, uint256 sigDeadline) permitSingle, bytes signature'
+      ),
+      [permit.permit, permit.signature]
+    ));
+  }
+
+  commands.push(Commands.V4_SWAP);
+  inputs.push(v4SwapInput);
+
+  const deadline = BigInt(Math.floor(Date.now() / 1000) + SWAP_DEADLINE_SECONDS);
+
+  return {
+    to: UNIVERSAL_ROUTER_ADDRESS,
+    data: encodeFunctionData({
+      abi: EXECUTE_ABI,
+      functionName: 'execute',
+      args: [`0x${commands.map((command) => command.slice(2)).join('')}` as Hex, inputs, deadline],
+    }),
+    value: isNativeEth(sellToken) ? sellAmount : 0n,
+  };
+}
+
 /**
  * Build Universal Router swap transaction using V4 commands
- * Uses V4_SWAP command (0x10) with proper action sequence
+ * Quotes along the best V4 path (see getUniversalRouterQuote); ERC-20 input needs an existing Permit2
+ * allowance for the Universal Router, since there's no permit signature here.
  */
 export async function getUniversalRouterSwapTransaction(
   sellToken: Address,
@@ -283,108 +465,29 @@ export async function getUniversalRouterSwapTransaction(
   slippageBps: number = DEFAULT_SLIPPAGE_BPS
 ): Promise<{ to: Address; data: string; value: string; poolKey?: PoolKey } | null> {
   try {
-    console.log('[Universal Router] Building V4 swap transaction...');
-    
+    console.log('[Universal Router] Building V4 swap transaction...', { recipient });
+
     // Get quote with pool detection
     const quote = await getUniversalRouterQuote(sellToken, buyToken, sellAmount, slippageBps);
-    if (!quote || !quote.poolKey) {
-      console.error('[Universal Router] Failed to get quote or pool key');
+    if (!quote) {
+      console.error('[Universal Router] Failed to get quote');
       return null;
     }
 
-    const poolKey = quote.poolKey;
-    
-    // Determine swap direction (zeroForOne)
-    // If selling currency0, zeroForOne = true; if selling currency1, zeroForOne = false
-    const zeroForOne = sellToken.toLowerCase() === poolKey.currency0.toLowerCase();
-    
-    console.log('[Universal Router] Swap direction:', { 
-      zeroForOne, 
-      sellToken, 
-      currency0: poolKey.currency0, 
-      currency1: poolKey.currency1 
-    });
-
-    // Build V4 action sequence:
-    // 1. SETTLE_ALL - deposit input tokens
-    // 2. SWAP_EXACT_IN_SINGLE - execute swap
-    // 3. TAKE_ALL - withdraw output tokens
-    
-    // Concatenate action bytes properly
-    const actionBytes = [
-      V4Actions.SETTLE_ALL,
-      V4Actions.SWAP_EXACT_IN_SINGLE,
-      V4Actions.TAKE_ALL,
-    ].map(action => action.slice(2)).join('');
-    const actions = `0x${actionBytes}` as `0x${string}`;
-    
-    // Encode parameters for each action
-    const settleParams = encodeAbiParameters(
-      parseAbiParameters('address currency, uint256 amount, bool payerIsUser'),
-      [sellToken, sellAmount, true]
-    );
-    
-    const swapParams = encodeV4SwapExactInSingle(
-      poolKey,
-      zeroForOne,
+    const transaction = buildV4SwapTransaction({
+      path: quote.path,
+      sellToken,
+      buyToken,
       sellAmount,
-      quote.amountOutMinimum,
-      EMPTY_HOOK_DATA
-    );
-    
-    // TAKE_ALL with CONTRACT_BALANCE (type(uint128).max) to take all available tokens
-    const takeParams = encodeAbiParameters(
-      parseAbiParameters('address currency, address recipient, uint256 amount'),
-      [buyToken, recipient, 0n] // 0 means take all available balance in V4
-    );
-    
-    // Combine all action parameters
-    const params = [settleParams, swapParams, takeParams];
-    
-    // Encode the V4_SWAP input
-    const v4SwapInput = encodeAbiParameters(
-      parseAbiParameters('bytes actions, bytes[] params'),
-      [actions, params]
-    );
-
-    // Calculate deadline (5 minutes from now)
-    const deadline = BigInt(Math.floor(Date.now() / 1000) + 300);
-
-    // Universal Router execute ABI
-    const executeAbi = [
-      {
-        name: 'execute',
-        type: 'function',
-        stateMutability: 'payable',
-        inputs: [
-          { name: 'commands', type: 'bytes' },
-          { name: 'inputs', type: 'bytes[]' },
-          { name: 'deadline', type: 'uint256' },
-        ],
-        outputs: [],
-      },
-    ] as const;
-
-    // Encode the execute function call with V4_SWAP command
-    const data = encodeFunctionData({
-      abi: executeAbi,
-      functionName: 'execute',
-      args: [
-        Commands.V4_SWAP, // Use 0x10 for V4 swaps
-        [v4SwapInput], // V4 swap input
-        deadline,
-      ],
+      amountOutMinimum: quote.amountOutMinimum,
     });
 
     console.log('[Universal Router] ✓ V4 transaction built successfully');
-    console.log('[Universal Router] Pool:', poolKey);
-    console.log('[Universal Router] Expected out:', quote.amountOut.toString());
-    console.log('[Universal Router] Min out:', quote.amountOutMinimum.toString());
-    
+
     return {
-      to: UNIVERSAL_ROUTER_ADDRESS,
-      data,
-      value: '0', // No ETH needed for ERC20 swaps
+      to: transaction.to,
+      data: transaction.data,
+      value: transaction.value.toString(),
       poolKey: quote.poolKey,
     };
   } catch (error) {
@@ -393,6 +496,116 @@ export async function getUniversalRouterSwapTransaction(
   }
 }
 
+/**
+ * Signs a Permit2 permit for the Universal Router to pull `amount` of an ERC-20
+ * Returns undefined when the router's existing Permit2 allowance already covers the swap.
+ * Permit2 must already be approved on the token (see ensurePermit2Approval).
+ */
+async function signPermit2(
+  token: Address,
+  amount: bigint,
+  walletClient: WalletClient,
+  account: Account,
+  publicClient: PublicClient
+): Promise<Permit2Signature | undefined> {
+  const [allowedAmount, expiration, nonce] = await publicClient.readContract({
+    address: PERMIT2_ADDRESS,
+    abi: PERMIT2_ABI,
+    functionName: 'allowance',
+    args: [account.address, token, UNIVERSAL_ROUTER_ADDRESS],
+  });
+
+  const now = Math.floor(Date.now() / 1000);
+  if (allowedAmount >= amount && expiration > now) {
+    return undefined;
+  }
+
+  const permit: Permit2Signature['permit'] = {
+    details: {
+      token,
+      amount,
+      expiration: now + PERMIT_EXPIRATION_SECONDS,
+      nonce,
+    },
+    spender: UNIVERSAL_ROUTER_ADDRESS,
+    sigDeadline: BigInt(now + PERMIT_EXPIRATION_SECONDS),
+  };
+
+  const signature = await walletClient.signTypedData({
+    account,
+    domain: {
+      name: 'Permit2',
+      chainId: BASE_CHAIN_ID,
+      verifyingContract: PERMIT2_ADDRESS,
+    },
+    primaryType: 'PermitSingle',
+    types: PERMIT_SINGLE_TYPES,
+    message: permit,
+  });
+
+  return { permit, signature };
+}
+
+/**
+ * Swap along a V4 path with the Universal Router, signing a Permit2 permit for ERC-20 input
+ * The swap is simulated before Permit2 is approved or the permit signed, with both allowances
+ * faked, and again as it will be sent.
+ */
+export async function executeV4Swap(
+  params: V4SwapParameters & {
+    walletClient: WalletClient;
+    account: Account;
+    publicClient: PublicClient;
+  }
+): Promise<TradeResult> {
+  const { sellToken, sellAmount, walletClient, account, publicClient } = params;
+
+  try {
+    let permit: Permit2Signature | undefined;
+    if (!isNativeEth(sellToken)) {
+      await simulateSwap({
+        account: account.address,
+        call: buildV4SwapTransaction(params),
+        publicClient,
+        permit2Allowances: [{ token: sellToken, spender: UNIVERSAL_ROUTER_ADDRESS, amount: sellAmount }],
+        erc20Allowances: [{ token: sellToken, spender: PERMIT2_ADDRESS, amount: sellAmount }],
+      }).catch(rethrowKnownRevert);
+
+      await ensurePermit2Approval(sellToken, sellAmount, walletClient, account, publicClient);
+      permit = await signPermit2(sellToken, sellAmount, walletClient, account, publicClient);
+    }
+
+    const transaction = buildV4SwapTransaction(params, permit);
+    await simulateSwap({ account: account.address, call: transaction, publicClient });
+
+    console.log('[Universal Router] Sending V4 swap', {
+      path: params.path,
+      amountIn: sellAmount.toString(),
+      amountOutMinimum: params.amountOutMinimum.toString(),
+      withPermit: !!permit,
+    });
+
+    const hash = await walletClient.sendTransaction({
+      account,
+      chain: base,
+      to: transaction.to,
+      data: transaction.data,
+      value: transaction.value,
+    });
+
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== 'success') {
+      return { success: false, txHash: hash, error: 'Swap reverted. The price may have moved.' };
+    }
+
+    console.log('[Universal Router] ✓ V4 swap confirmed:', hash);
+    return { success: true, txHash: hash };
+  } catch (error) {
+    console.error('[Universal Router] V4 swap failed:', error);
+    return { success: false, error: extractErrorMessage(error, sellToken) };
+  }
+}
+
 /**
  * Calculate minimum output amount with slippage tolerance
  */
@@ -0,0 +1,92 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useBalance, useReadContract } from 'wagmi';
+import { Address, erc20Abi } from 'viem';
+import { base } from 'wagmi/chains';
+import { Profile } from '@/types/profile';
+import { BASE_PAY_TOKENS, PayToken, isNativeEth } from './swap-constants';
+import { fetchAllProfiles } from './profiles-client';
+
+// Directory coins are fetched once per page load and shared by every modal
+let directoryPayTokensPromise: Promise<PayToken[]> | null = null;
+
+/**
+ * Turns directory profiles into pay tokens, one per creator coin
+ */
+export function getDirectoryPayTokens(profiles: Profile[]): PayToken[] {
+  const seen = new Set<string>();
+  const tokens: PayToken[] = [];
+
+  for (const profile of profiles) {
+    const address = profile.creator_coin_address;
+    if (!address || seen.has(address.toLowerCase())) continue;
+
+    seen.add(address.toLowerCase());
+    tokens.push({
+      address: address as Address,
+      symbol: profile.token_ticker || profile.username,
+      decimals: 18, // Zora coins are standard 18-decimal ERC-20s
+    });
+  }
+
+  return tokens;
+}
+
+/**
+ * Every token a swap can be paid with: ETH, WETH, USDC and the directory's creator coins
+ * Directory coins load once `enabled` is true (e.g. when a modal opens)
+ */
+export function usePayTokens(enabled: boolean): PayToken[] {
+  const [directoryTokens, setDirectoryTokens] = useState<PayToken[]>([]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    if (!directoryPayTokensPromise) {
+      directoryPayTokensPromise = fetchAllProfiles()
+        .then(getDirectoryPayTokens)
+        .catch((error) => {
+          console.error('[PayTokens] Error loading directory coins:', error);
+          directoryPayTokensPromise = null;
+          return [];
+        });
+    }
+
+    let cancelled = false;
+    directoryPayTokensPromise.then((tokens) => {
+      if (!cancelled) setDirectoryTokens(tokens);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  return [...BASE_PAY_TOKENS, ...directoryTokens];
+}
+
+/**
+ * Reads a wallet's balance of a pay token in base units
+ * Native ETH comes from the account balance, everything else from balanceOf
+ */
+export function usePayTokenBalance(token: PayToken, owner: Address | undefined): bigint | undefined {
+  const isEth = isNativeEth(token.address);
+
+  const { data: ethBalance } = useBalance({
+    address: owner,
+    chainId: base.id,
+    query: { enabled: isEth && !!owner },
+  });
+
+  const { data: erc20Balance } = useReadContract({
+    address: isEth ? undefined : (token.address as Address),
+    abi: erc20Abi,
+    functionName: 'balanceOf',
+    args: owner ? [owner] : undefined,
+    chainId: base.id,
+    query: { enabled: !isEth && !!owner },
+  });
+
+  return isEth ? ethBalance?.value : erc20Balance;
+}
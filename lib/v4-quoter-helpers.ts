@@ -13,7 +13,25 @@ export interface PoolKey {
   hooks: Address;
 }
 
+// One hop of a multi-hop V4 path: the pool from the previous currency into intermediateCurrency
+export interface PathKey {
+  intermediateCurrency: Address;
+  fee: number;
+  tickSpacing: number;
+  hooks: Address;
+  hookData: `0x${string}`;
+}
+
+const PATH_KEY_COMPONENTS = [
+  { name: 'intermediateCurrency', type: 'address' },
+  { name: 'fee', type: 'uint24' },
+  { name: 'tickSpacing', type: 'int24' },
+  { name: 'hooks', type: 'address' },
+  { name: 'hookData', type: 'bytes' },
+] as const;
+
 // Quoter ABI (minimal interface needed)
+// The quoter simulates the swap and reverts with the result, so it's only ever called with eth_call
 const QUOTER_ABI = [
   {
     name: 'quoteExactInputSingle',
@@ -32,8 +50,7 @@ const QUOTER_ABI = [
             { name: 'hooks', type: 'address' },
           ]},
           { name: 'zeroForOne', type: 'bool' },
-          { name: 'amountIn', type: 'uint256' },
-          { name: 'sqrtPriceLimitX96', type: 'uint160' },
+          { name: 'exactAmount', type: 'uint128' },
           { name: 'hookData', type: 'bytes' },
         ],
       },
@@ -43,6 +60,26 @@ const QUOTER_ABI = [
       { name: 'gasEstimate', type: 'uint256' },
     ],
   },
+  {
+    name: 'quoteExactInput',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      {
+        name: 'params',
+        type: 'tuple',
+        components: [
+          { name: 'exactCurrency', type: 'address' },
+          { name: 'path', type: 'tuple[]', components: PATH_KEY_COMPONENTS },
+          { name: 'exactAmount', type: 'uint128' },
+        ],
+      },
+    ],
+    outputs: [
+      { name: 'amountOut', type: 'uint256' },
+      { name: 'gasEstimate', type: 'uint256' },
+    ],
+  },
 ] as const;
 
 /**
@@ -86,8 +123,7 @@ export async function getV4Quote(
       args: [{
         poolKey,
         zeroForOne,
-        amountIn,
-        sqrtPriceLimitX96: 0n, // No price limit
+        exactAmount: amountIn,
         hookData: '0x', // Empty hook data for standard quotes
       }],
     });
@@ -106,6 +142,63 @@ export async function getV4Quote(
   }
 }
 
+/**
+ * Get a quote along a multi-hop path from the V4 Quoter
+ * @param currencyIn - Input currency (the zero address for native ETH)
+ * @param path - Hops from currencyIn to the output currency
+ * @param amountIn - Input amount in base units
+ */
+export async function getV4QuoteExactInput(
+  currencyIn: Address,
+  path: PathKey[],
+  amountIn: bigint
+): Promise<{ amountOut: bigint; gasEstimate: bigint } | null> {
+  try {
+    const [amountOut, gasEstimate] = await baseClient.readContract({
+      address: V4_QUOTER_ADDRESS,
+      abi: QUOTER_ABI,
+      functionName: 'quoteExactInput',
+      args: [{ exactCurrency: currencyIn, path, exactAmount: amountIn }],
+    });
+
+    return { amountOut, gasEstimate };
+  } catch (error) {
+    console.error('[V4 Quoter] Error fetching path quote:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * The hop through a pool from currencyIn to the pool's other currency
+ */
+export function toPathKey(poolKey: PoolKey, currencyIn: Address): PathKey {
+  const isCurrency0In = poolKey.currency0.toLowerCase() === currencyIn.toLowerCase();
+  return {
+    intermediateCurrency: isCurrency0In ? poolKey.currency1 : poolKey.currency0,
+    fee: poolKey.fee,
+    tickSpacing: poolKey.tickSpacing,
+    hooks: poolKey.hooks,
+    hookData: '0x',
+  };
+}
+
+/**
+ * The pool a hop from currencyIn goes through (pool currencies are sorted by address)
+ */
+export function pathKeyToPoolKey(pathKey: PathKey, currencyIn: Address): PoolKey {
+  const [currency0, currency1] = currencyIn.toLowerCase() < pathKey.intermediateCurrency.toLowerCase()
+    ? [currencyIn, pathKey.intermediateCurrency]
+    : [pathKey.intermediateCurrency, currencyIn];
+
+  return {
+    currency0,
+    currency1,
+    fee: pathKey.fee,
+    tickSpacing: pathKey.tickSpacing,
+    hooks: pathKey.hooks,
+  };
+}
+
 /**
  * Calculate minimum output with slippage tolerance
  */
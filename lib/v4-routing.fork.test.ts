@@ -0,0 +1,69 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { Address, parseEther } from 'viem';
+import {
+  FORK_RPC_URL,
+  createForkClients,
+  forkAccount,
+  fundErc20,
+  getCoinPool,
+  getErc20Balance,
+  setupForkAccount,
+} from './fork-test-helpers';
+import { ZORA_ADDRESS } from './swap-constants';
+
+// A Zora content coin, paired with its creator's coin, which is paired with ZORA
+const CONTENT_COIN = process.env.FORK_CONTENT_COIN as Address | undefined;
+
+const ZORA = ZORA_ADDRESS as Address;
+const SELL_AMOUNT = parseEther('100'); // 100 ZORA
+
+describe.skipIf(!FORK_RPC_URL || !CONTENT_COIN)('multi-hop V4 swap on a Base fork', () => {
+  const clients = createForkClients();
+  let helpers: typeof import('./universal-router-helpers');
+  let quoter: typeof import('./v4-quoter-helpers');
+
+  beforeAll(async () => {
+    // The quoter's client reads BASE_RPC_URL when it loads
+    process.env.BASE_RPC_URL = FORK_RPC_URL;
+    helpers = await import('./universal-router-helpers');
+    quoter = await import('./v4-quoter-helpers');
+
+    await setupForkAccount(clients);
+    await fundErc20(ZORA, forkAccount.address, SELL_AMOUNT, clients);
+  });
+
+  it('quotes ZORA → creator coin → content coin with quoteExactInput and swaps it with SWAP_EXACT_IN', async () => {
+    const coin = CONTENT_COIN!;
+    const content = await getCoinPool(coin, clients);
+    const creator = await getCoinPool(content.currency, clients);
+    expect(creator.currency.toLowerCase()).toBe(ZORA.toLowerCase());
+
+    const path = [
+      quoter.toPathKey(creator.poolKey, ZORA),
+      quoter.toPathKey(content.poolKey, content.currency),
+    ];
+    expect(path.map((hop) => hop.intermediateCurrency.toLowerCase()))
+      .toEqual([content.currency.toLowerCase(), coin.toLowerCase()]);
+
+    const quote = await quoter.getV4QuoteExactInput(ZORA, path, SELL_AMOUNT);
+    expect(quote?.amountOut).toBeGreaterThan(0n);
+
+    const amountOutMinimum = quoter.calculateMinimumOutput(quote!.amountOut, 100);
+    const coinBefore = await getErc20Balance(coin, forkAccount.address, clients);
+
+    const result = await helpers.executeV4Swap({
+      path,
+      sellToken: ZORA,
+      buyToken: coin,
+      sellAmount: SELL_AMOUNT,
+      amountOutMinimum,
+      walletClient: clients.walletClient,
+      account: forkAccount,
+      publicClient: clients.publicClient,
+    });
+
+    expect(result).toMatchObject({ success: true });
+    expect(await getErc20Balance(ZORA, forkAccount.address, clients)).toBe(0n);
+    expect(await getErc20Balance(coin, forkAccount.address, clients) - coinBefore).toBeGreaterThanOrEqual(amountOutMinimum);
+  }, 120_000);
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { Address } from 'viem';
+import { buildCandidateSequences, filterHopPools } from './v4-routing';
+import type { PoolKey } from './v4-quoter-helpers';
+import { USDC_ADDRESS, WETH_ADDRESS, ZORA_ADDRESS } from './swap-constants';
+
+const ETH = '0x0000000000000000000000000000000000000000' as Address;
+const WETH = WETH_ADDRESS as Address;
+const USDC = USDC_ADDRESS as Address;
+const ZORA = ZORA_ADDRESS as Address;
+const CREATOR_COIN = '0x00000000000000000000000000000000000000c0' as Address;
+const CONTENT_COIN = '0x00000000000000000000000000000000000000c1' as Address;
+const HOOK = '0x00000000000000000000000000000000000000a0' as Address;
+
+function pool(currency0: Address, currency1: Address, hooks: Address): PoolKey {
+  return { currency0, currency1, fee: 3000, tickSpacing: 60, hooks };
+}
+
+describe('buildCandidateSequences', () => {
+  it('routes through the pair currency and every hub for a creator coin', () => {
+    const sequences = buildCandidateSequences(USDC, CREATOR_COIN, [], [ZORA]);
+
+    expect(sequences).toEqual([
+      [USDC, CREATOR_COIN],
+      [USDC, ZORA, CREATOR_COIN],
+      [USDC, ETH, CREATOR_COIN],
+      [USDC, WETH, CREATOR_COIN],
+    ]);
+  });
+
+  it('reaches a content coin through its parent creator coin', () => {
+    const sequences = buildCandidateSequences(USDC, CONTENT_COIN, [], [CREATOR_COIN]);
+
+    expect(sequences).toContainEqual([USDC, CREATOR_COIN, CONTENT_COIN]);
+    expect(sequences).toContainEqual([USDC, ZORA, CREATOR_COIN, CONTENT_COIN]);
+    expect(sequences).toContainEqual([USDC, ETH, CREATOR_COIN, CONTENT_COIN]);
+  });
+
+  it('reverses the three-hop sequences for sells', () => {
+    const sequences = buildCandidateSequences(CONTENT_COIN, USDC, [CREATOR_COIN], []);
+
+    expect(sequences).toContainEqual([CONTENT_COIN, CREATOR_COIN, ZORA, USDC]);
+  });
+
+  it('skips hops between two hubs in the middle of a path', () => {
+    const sequences = buildCandidateSequences(USDC, CREATOR_COIN, [], [ZORA]);
+
+    expect(sequences.filter((sequence) => sequence.length === 4)).toEqual([]);
+  });
+
+  it('caps the number of sequences', () => {
+    const pairs = Array.from({ length: 10 }, (_, i) => `0x${(0xd0 + i).toString(16).padStart(40, '0')}` as Address);
+    const sequences = buildCandidateSequences(CONTENT_COIN, CREATOR_COIN, pairs, pairs);
+
+    expect(sequences).toHaveLength(12);
+    expect(sequences[0]).toEqual([CONTENT_COIN, CREATOR_COIN]);
+    // The shortest sequences are the ones kept
+    expect(sequences.every((sequence) => sequence.length <= 3)).toBe(true);
+  });
+});
+
+describe('filterHopPools', () => {
+  const hookless = pool(USDC, ZORA, ETH);
+  const hooked = pool(USDC, ZORA, HOOK);
+
+  it('keeps only hookless pools for a hub-to-hub hop in the middle of a path', () => {
+    expect(filterHopPools([hookless, hooked], USDC, ZORA, false)).toEqual([hookless]);
+    expect(filterHopPools([hooked], USDC, ZORA, false)).toEqual([]);
+  });
+
+  it('keeps hooked pools on a coin hop', () => {
+    const coinPool = pool(ZORA, CREATOR_COIN, HOOK);
+
+    expect(filterHopPools([coinPool], ZORA, CREATOR_COIN, false)).toEqual([coinPool]);
+  });
+
+  it('keeps hooked pools when the hop is the swap itself', () => {
+    expect(filterHopPools([hookless, hooked], USDC, ZORA, true)).toEqual([hookless, hooked]);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * V4 Routing
+ * Finds multi-hop Uniswap V4 paths over the coin_pools registry and quotes them with the V4 Quoter
+ */
+
+import { Address } from 'viem';
+import { PathKey, PoolKey, getV4QuoteExactInput, toPathKey } from './v4-quoter-helpers';
+import { getCoinPools, getPoolsBetween, toPoolKey } from './pool-registry';
+import { selectPrimaryPool } from './pool-detection-helpers';
+import { USDC_ADDRESS, WETH_ADDRESS, ZORA_ADDRESS } from './swap-constants';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000' as Address;
+
+// Currencies routes may pass through besides the endpoints' own pair currencies
+const HUB_CURRENCIES: Address[] = [
+  ZERO_ADDRESS, // Native ETH
+  WETH_ADDRESS as Address,
+  USDC_ADDRESS as Address,
+  ZORA_ADDRESS as Address,
+];
+
+// Paths quoted per swap; each quote and each new hop's pool lookup is a round trip, and quotes
+// refresh every 15 seconds
+const MAX_CANDIDATE_SEQUENCES = 12;
+
+/**
+ * A quoted path; currencies are pool currencies (the zero address for native ETH)
+ */
+export interface V4Route {
+  currencyIn: Address;
+  path: PathKey[];
+  currencies: Address[]; // currencyIn, each intermediate currency, then the output currency
+  pools: PoolKey[];
+  amountOut: bigint;
+  gasEstimate: bigint;
+}
+
+const isHub = (token: Address) => HUB_CURRENCIES.some((hub) => hub.toLowerCase() === token.toLowerCase());
+
+/**
+ * The other currencies a coin is paired with; hubs are skipped since they pair with everything
+ */
+async function getPairCurrencies(token: Address): Promise<Address[]> {
+  if (isHub(token)) return [];
+
+  const key = token.toLowerCase();
+  const pools = await getCoinPools(token);
+  return pools.map((pool) => (pool.currency0 === key ? pool.currency1 : pool.currency0) as Address);
+}
+
+/**
+ * Candidate currency sequences of up to three hops from tokenIn to tokenOut, given each side's
+ * pair currencies
+ * Intermediates are the pair currencies and the hubs, which covers e.g. USDC → ZORA → coin and
+ * USDC → ZORA → parent coin → coin, and the reverse for sells. Three-hop sequences need a pair
+ * currency in the middle, since hubs already pair with each other, and the shortest sequences
+ * are kept when there are more than MAX_CANDIDATE_SEQUENCES.
+ */
+export function buildCandidateSequences(
+  tokenIn: Address,
+  tokenOut: Address,
+  pairsIn: Address[],
+  pairsOut: Address[]
+): Address[][] {
+  const unique = (tokens: Address[]) => Array.from(new Map(tokens.map((token) => [token.toLowerCase(), token])).values());
+  const isEndpoint = (token: Address) =>
+    token.toLowerCase() === tokenIn.toLowerCase() || token.toLowerCase() === tokenOut.toLowerCase();
+
+  const middles = unique([...pairsOut, ...pairsIn, ...HUB_CURRENCIES]).filter((token) => !isEndpoint(token));
+  const sequences: Address[][] = [[tokenIn, tokenOut]];
+
+  for (const middle of middles) {
+    sequences.push([tokenIn, middle, tokenOut]);
+  }
+
+  const hubs = HUB_CURRENCIES.filter((token) => !isEndpoint(token));
+  for (const pair of unique(pairsOut).filter((token) => !isEndpoint(token) && !isHub(token))) {
+    for (const hub of hubs) {
+      sequences.push([tokenIn, hub, pair, tokenOut]);
+    }
+  }
+  for (const pair of unique(pairsIn).filter((token) => !isEndpoint(token) && !isHub(token))) {
+    for (const hub of hubs) {
+      sequences.push([tokenIn, pair, hub, tokenOut]);
+    }
+  }
+
+  return sequences.slice(0, MAX_CANDIDATE_SEQUENCES);
+}
+
+/**
+ * The pools a hop may use
+ * A coin's hops are its own pools, which carry Zora's hooks. A hop between two hubs in the middle
+ * of a path only uses hookless pools, since a hooked pool there could be anyone's.
+ */
+export function filterHopPools(pools: PoolKey[], from: Address, to: Address, isDirect: boolean): PoolKey[] {
+  if (isDirect || !isHub(from) || !isHub(to)) return pools;
+  return pools.filter((pool) => pool.hooks.toLowerCase() === ZERO_ADDRESS);
+}
+
+async function getCandidateSequences(tokenIn: Address, tokenOut: Address): Promise<Address[][]> {
+  const [pairsIn, pairsOut] = await Promise.all([getPairCurrencies(tokenIn), getPairCurrencies(tokenOut)]);
+  return buildCandidateSequences(tokenIn, tokenOut, pairsIn, pairsOut);
+}
+
+/**
+ * Finds every path from tokenIn to tokenOut whose hops all have an indexed pool
+ * Hub-to-hub hops are limited to hookless pools (see filterHopPools). Where a hop has several pools, the direct hop takes the one quoting the swap best and the
+ * others the most liquid (see selectPrimaryPool).
+ */
+export async function findV4Paths(
+  tokenIn: Address,
+  tokenOut: Address,
+  amountIn: bigint
+): Promise<Array<{ currencies: Address[]; pools: PoolKey[] }>> {
+  const hopPools = new Map<string, Promise<PoolKey | null>>();
+
+  const getHopPool = (from: Address, to: Address) => {
+    const key = [from.toLowerCase(), to.toLowerCase()].sort().join('-');
+    if (!hopPools.has(key)) {
+      const isDirect = [tokenIn, tokenOut].map((token) => token.toLowerCase()).sort().join('-') === key;
+      hopPools.set(key, getPoolsBetween(from, to)
+        .then((pools) => selectPrimaryPool(
+          filterHopPools(pools.map(toPoolKey), from, to, isDirect),
+          isDirect ? { tokenIn, tokenOut, amountIn } : undefined
+        ))
+        .then((primary) => primary?.pool ?? null)
+        .catch(() => null));
+    }
+    return hopPools.get(key)!;
+  };
+
+  const sequences = await getCandidateSequences(tokenIn, tokenOut);
+
+  const paths = await Promise.all(sequences.map(async (currencies) => {
+    const pools = await Promise.all(currencies.slice(1).map((to, i) => getHopPool(currencies[i], to)));
+    return pools.every((pool): pool is PoolKey => pool !== null) ? { currencies, pools: pools as PoolKey[] } : null;
+  }));
+
+  return paths.filter((path): path is { currencies: Address[]; pools: PoolKey[] } => path !== null);
+}
+
+/**
+ * Quotes every path from tokenIn to tokenOut and returns the one with the most output
+ */
+export async function getBestV4Route(
+  tokenIn: Address,
+  tokenOut: Address,
+  amountIn: bigint
+): Promise<V4Route | null> {
+  const paths = await findV4Paths(tokenIn, tokenOut, amountIn);
+  if (paths.length === 0) {
+    console.log('[V4 Routing] No path from', tokenIn, 'to', tokenOut);
+    return null;
+  }
+
+  const quoted = await Promise.all(paths.map(async ({ currencies, pools }) => {
+    const path = pools.map((pool, i) => toPathKey(pool, currencies[i]));
+    const quote = await getV4QuoteExactInput(tokenIn, path, amountIn);
+    return quote && quote.amountOut > 0n
+      ? { currencyIn: tokenIn, path, currencies, pools, amountOut: quote.amountOut, gasEstimate: quote.gasEstimate }
+      : null;
+  }));
+
+  const best = quoted
+    .filter((route): route is V4Route => route !== null)
+    .sort((a, b) => (b.amountOut > a.amountOut ? 1 : b.amountOut < a.amountOut ? -1 : 0))[0];
+
+  if (best) {
+    console.log(`[V4 Routing] Best of ${paths.length} paths: ${best.currencies.join(' → ')}`);
+  }
+  return best ?? null;
+}
@@ -0,0 +1,80 @@
+import { Address, createPublicClient, encodeAbiParameters, http, keccak256 } from 'viem';
+import { base } from 'viem/chains';
+import { PoolKey } from './v4-quoter-helpers';
+
+// Uniswap V4 StateView on Base (read-only access to PoolManager state)
+export const STATE_VIEW_ADDRESS = (process.env.NEXT_PUBLIC_UNISWAP_V4_STATE_VIEW || '0xa3c0c9b65bad0b08107aa264b0f3db444b867a71') as Address;
+
+const STATE_VIEW_ABI = [
+  {
+    name: 'getSlot0',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'poolId', type: 'bytes32' }],
+    outputs: [
+      { name: 'sqrtPriceX96', type: 'uint160' },
+      { name: 'tick', type: 'int24' },
+      { name: 'protocolFee', type: 'uint24' },
+      { name: 'lpFee', type: 'uint24' },
+    ],
+  },
+  {
+    name: 'getLiquidity',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'poolId', type: 'bytes32' }],
+    outputs: [{ name: 'liquidity', type: 'uint128' }],
+  },
+] as const;
+
+const baseClient = createPublicClient({
+  chain: base,
+  transport: http(process.env.BASE_RPC_URL || 'https://mainnet.base.org'),
+});
+
+/**
+ * Computes the V4 pool ID (keccak256 of the ABI-encoded pool key)
+ */
+export function getPoolId(poolKey: PoolKey): `0x${string}` {
+  return keccak256(
+    encodeAbiParameters(
+      [
+        { type: 'address' },
+        { type: 'address' },
+        { type: 'uint24' },
+        { type: 'int24' },
+        { type: 'address' },
+      ],
+      [poolKey.currency0, poolKey.currency1, poolKey.fee, poolKey.tickSpacing, poolKey.hooks]
+    )
+  );
+}
+
+/**
+ * The pool's in-range liquidity
+ */
+export function getPoolLiquidity(poolKey: PoolKey): Promise<bigint> {
+  return baseClient.readContract({
+    address: STATE_VIEW_ADDRESS,
+    abi: STATE_VIEW_ABI,
+    functionName: 'getLiquidity',
+    args: [getPoolId(poolKey)],
+  });
+}
+
+/**
+ * The pool's current sqrt price (Q64.96) and in-range liquidity
+ */
+export async function getPoolState(poolKey: PoolKey): Promise<{ sqrtPriceX96: bigint; liquidity: bigint }> {
+  const [[sqrtPriceX96], liquidity] = await Promise.all([
+    baseClient.readContract({
+      address: STATE_VIEW_ADDRESS,
+      abi: STATE_VIEW_ABI,
+      functionName: 'getSlot0',
+      args: [getPoolId(poolKey)],
+    }),
+    getPoolLiquidity(poolKey),
+  ]);
+
+  return { sqrtPriceX96, liquidity };
+}
@@ -7,6 +7,7 @@
  */
 
 import { Address } from 'viem';
+import { getCoinPools } from './pool-registry';
 
 // Base chain ID
 const BASE_CHAIN_ID = 8453;
@@ -104,8 +105,9 @@ function setCachedPoolMetadata(tokenAddress: Address, metadata: ZoraPoolMetadata
  * Fetch Uniswap V4 pool details for a Zora creator coin from Zora SDK/API
  * 
  * This function attempts to discover pool metadata from multiple sources:
- * 1. Zora SDK API endpoint (if available)
- * 2. Direct Uniswap V4 PoolManager query (fallback)
+ * 1. The coin_pools registry (lib/pool-registry.ts), which has the full pool key
+ * 2. Zora SDK API endpoint (if available)
+ * 3. Inferred from a Zora swap quote (fallback)
  * 
  * @param creatorCoinAddress - The ERC-20 token address of the creator coin
  * @returns Pool metadata or null if no pool exists
@@ -113,6 +115,22 @@ function setCachedPoolMetadata(tokenAddress: Address, metadata: ZoraPoolMetadata
 export async function getZoraPoolMetadata(
   creatorCoinAddress: Address
 ): Promise<ZoraPoolMetadata | null> {
+  // Indexed pools are a table read, so they aren't cached here
+  const [indexedPool] = await getCoinPools(creatorCoinAddress);
+  if (indexedPool) {
+    return {
+      poolId: indexedPool.pool_id,
+      currency0: indexedPool.currency0 as Address,
+      currency1: indexedPool.currency1 as Address,
+      fee: indexedPool.fee,
+      tickSpacing: indexedPool.tick_spacing,
+      hooks: indexedPool.hooks as Address,
+      chainId: BASE_CHAIN_ID,
+      exists: true,
+      cachedAt: Date.now(),
+    };
+  }
+
   // Check cache first
   const cached = getCachedPoolMetadata(creatorCoinAddress);
   if (cached) {
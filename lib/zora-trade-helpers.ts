@@ -2,13 +2,81 @@
  * Zora Coins SDK Integration
  * Uses @zoralabs/coins-sdk v0.4.0 for trading Zora creator coins
  * 
- * This implementation uses the new v0.4.x API which supports USDC to Creator Coin swaps
- * via ERC20 to ERC20 trading with automatic permit signature handling.
+ * This implementation uses the new v0.4.x API which supports ETH/ERC20 <-> Creator Coin swaps
+ * with automatic permit signature handling for ERC20 input.
  */
 
-import { tradeCoin, setApiKey, TradeParameters as SDKTradeParameters } from '@zoralabs/coins-sdk';
-import { Address, WalletClient, PublicClient, Account } from 'viem';
-import { USDC_ADDRESS, BASE_CHAIN_ID, SLIPPAGE_TIERS } from './swap-constants';
+import { createTradeCall, setApiKey, TradeParameters as SDKTradeParameters } from '@zoralabs/coins-sdk';
+import { Address, Hex, WalletClient, PublicClient, Account, erc20Abi, encodeFunctionData, maxUint160, maxUint256 } from 'viem';
+import { base } from 'viem/chains';
+import {
+  USDC_ADDRESS,
+  BASE_CHAIN_ID,
+  SLIPPAGE_TIERS,
+  PERMIT2_ADDRESS,
+  PayTokenAddress,
+  isNativeEth,
+  isSameToken,
+} from './swap-constants';
+import {
+  SwapSimulationError,
+  SimulatedErc20Allowance,
+  SimulatedPermit2Allowance,
+  simulateBatch,
+  simulateSwap,
+  rethrowKnownRevert,
+} from './swap-simulation';
+
+// Permit2 allowance lookup (for the next permit nonce) and on-chain approval (for batches)
+export const PERMIT2_ABI = [
+  {
+    name: 'allowance',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'owner', type: 'address' },
+      { name: 'token', type: 'address' },
+      { name: 'spender', type: 'address' },
+    ],
+    outputs: [
+      { name: 'amount', type: 'uint160' },
+      { name: 'expiration', type: 'uint48' },
+      { name: 'nonce', type: 'uint48' },
+    ],
+  },
+  {
+    name: 'approve',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'spender', type: 'address' },
+      { name: 'amount', type: 'uint160' },
+      { name: 'expiration', type: 'uint48' },
+    ],
+    outputs: [],
+  },
+] as const;
+
+export const PERMIT_SINGLE_TYPES = {
+  PermitSingle: [
+    { name: 'details', type: 'PermitDetails' },
+    { name: 'spender', type: 'address' },
+    { name: 'sigDeadline', type: 'uint256' },
+  ],
+  PermitDetails: [
+    { name: 'token', type: 'address' },
+    { name: 'amount', type: 'uint160' },
+    { name: 'expiration', type: 'uint48' },
+    { name: 'nonce', type: 'uint48' },
+  ],
+} as const;
+
+// How long to wait for a batch to land before handing its call ID back as pending
+const BATCH_STATUS_TIMEOUT_MS = 120_000;
+
+// How often a pending batch's status is polled
+const BATCH_STATUS_POLL_MS = 4_000;
 
 // Set Zora API key if available
 if (process.env.ZORA_API_KEY) {
@@ -20,14 +88,16 @@ if (process.env.ZORA_API_KEY) {
 export type SlippageMode = 'auto' | 'manual';
 
 export interface TradeParameters {
-  sellAmount: bigint; // Amount in base units (6 decimals for USDC)
-  buyToken: Address; // Creator coin address
+  sellAmount: bigint; // Amount in base units of sellToken (6 decimals for USDC, 18 for ETH)
+  sellToken?: PayTokenAddress; // Input token (defaults to USDC; 'eth' for native ETH)
+  buyToken: Address; // Output token (a creator coin, or USDC when selling)
   userAddress: Address;
   slippageMode: SlippageMode;
   customSlippage?: number; // For manual mode (as percentage, e.g., 3 for 3%)
   walletClient: WalletClient;
   account: Account;
   publicClient: PublicClient;
+  onSubmitted?: (txHash: string) => void; // Called as each transaction is sent, before its receipt
 }
 
 export interface TradeResult {
@@ -37,23 +107,62 @@ export interface TradeResult {
   slippageUsed?: number;
 }
 
+export interface BatchTradeItem {
+  buyToken: Address;
+  sellAmount: bigint; // Base units of the batch's sellToken
+}
+
+export interface BatchTradeParameters extends Omit<TradeParameters, 'sellAmount' | 'buyToken' | 'onSubmitted'> {
+  trades: BatchTradeItem[];
+  onSubmitted?: (callsId: string) => void; // Called as each batch is sent, before it lands
+}
+
+export interface BatchTradeResult {
+  success: boolean;
+  txHashes: string[]; // Usually one: the batch lands as a single transaction
+  error?: string;
+  slippageUsed?: number;
+  pending?: boolean; // Sent, but not final yet; poll callsId with getBatchedTradesStatus
+  callsId?: string; // The EIP-5792 call bundle ID, once sent
+}
+
+export interface TradeCall {
+  to: Address;
+  data: Hex;
+  value: bigint;
+}
+
+type TradeQuote = Awaited<ReturnType<typeof createTradeCall>>;
+type TradePermit = NonNullable<TradeQuote['permits']>[number];
+
 export interface QuoteResult {
   amountOut: bigint;
   slippageUsed: number;
   error?: string;
 }
 
+/**
+ * Slippage values to try, as decimals: every tier in auto mode, the custom value in manual mode
+ */
+function getSlippagesToTry(slippageMode: SlippageMode, customSlippage?: number): number[] {
+  return slippageMode === 'auto'
+    ? [...SLIPPAGE_TIERS]
+    : [customSlippage ? customSlippage / 100 : SLIPPAGE_TIERS[0]]; // Convert percentage to decimal
+}
+
 /**
  * Execute a trade using Zora SDK with progressive slippage fallback
  * In auto mode: tries 3% → 5% → 8%
  * In manual mode: uses custom slippage only
  * 
- * Uses the SDK's tradeCoin function which swaps USDC for Zora creator coins
- * The SDK handles permit signatures automatically for USDC (no separate approval needed)
+ * Builds trades like the SDK's tradeCoin, which swaps ETH or any ERC-20 for Zora creator coins or back.
+ * ERC-20 input goes through Permit2: a one-time approval if needed, then a permit signature.
+ * Every trade is simulated before it's signed; a revert other than slippage ends the attempts.
  */
 export async function executeTrade(params: TradeParameters): Promise<TradeResult> {
   const {
     sellAmount,
+    sellToken = USDC_ADDRESS,
     buyToken,
     userAddress,
     slippageMode,
@@ -61,13 +170,10 @@ export async function executeTrade(params: TradeParameters): Promise<TradeResult
     walletClient,
     account,
     publicClient,
+    onSubmitted,
   } = params;
 
-  // Determine slippage values to try
-  const slippagesToTry: number[] = 
-    slippageMode === 'auto' 
-      ? [...SLIPPAGE_TIERS] 
-      : [customSlippage ? customSlippage / 100 : SLIPPAGE_TIERS[0]]; // Convert percentage to decimal
+  const slippagesToTry = getSlippagesToTry(slippageMode, customSlippage);
 
   console.log('[Zora Trade] Starting trade execution', {
     mode: slippageMode,
@@ -85,34 +191,35 @@ export async function executeTrade(params: TradeParameters): Promise<TradeResult
 
       // Set up trade parameters for the new SDK API
       const tradeParameters: SDKTradeParameters = {
-        sell: {
-          type: "erc20",
-          address: USDC_ADDRESS, // USDC on Base
-        },
+        sell: isNativeEth(sellToken)
+          ? { type: "eth" }
+          : { type: "erc20", address: sellToken },
         buy: {
           type: "erc20",
-          address: buyToken, // Creator Coin address
+          address: buyToken,
         },
-        amountIn: sellAmount, // USDC amount (6 decimals)
+        amountIn: sellAmount, // Base units of sellToken
         slippage, // Slippage as decimal (e.g., 0.05 for 5%)
         sender: userAddress,
       };
 
       console.log('[Zora Trade] Executing trade with parameters:', {
-        sellToken: USDC_ADDRESS,
+        sellToken,
         buyToken,
         amountIn: sellAmount.toString(),
         slippage: (slippage * 100).toFixed(1) + '%',
         sender: userAddress,
       });
 
-      // Execute trade using Zora SDK (new v0.4.x API)
-      const receipt = await tradeCoin({
-        tradeParameters,
-        walletClient,
-        account,
-        publicClient,
-      });
+      // Built like the SDK's tradeCoin, but simulated before anything is signed
+      const call = await prepareTradeCall(tradeParameters, userAddress, walletClient, account, publicClient);
+
+      const hash = await walletClient.sendTransaction({ account, chain: base, ...call });
+      onSubmitted?.(hash);
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      if (receipt.status !== 'success') {
+        throw new Error('Swap reverted. The price may have moved.');
+      }
 
       console.log('[Zora Trade] Trade successful!', {
         slippage: (slippage * 100).toFixed(1) + '%',
@@ -127,11 +234,14 @@ export async function executeTrade(params: TradeParameters): Promise<TradeResult
     } catch (error: any) {
       console.error(`[Zora Trade] Attempt ${i + 1} failed:`, error);
 
+      // A simulated revert other than slippage would fail at every tier
+      const isFinal = error instanceof SwapSimulationError && error.reason !== 'slippage';
+
       // If this is the last attempt, return the error
-      if (isLastAttempt) {
+      if (isLastAttempt || isFinal) {
         return {
           success: false,
-          error: extractErrorMessage(error),
+          error: extractErrorMessage(error, sellToken),
           slippageUsed: slippage,
         };
       }
@@ -148,11 +258,417 @@ export async function executeTrade(params: TradeParameters): Promise<TradeResult
   };
 }
 
+function toTradeCall(quote: TradeQuote): TradeCall {
+  return {
+    to: quote.call.target as Address,
+    data: quote.call.data as Hex,
+    value: BigInt(quote.call.value),
+  };
+}
+
+/**
+ * The Permit2 allowances a trade's permits grant, for simulating it before they're signed
+ */
+export function toSimulatedAllowances(permits: TradePermit[]): SimulatedPermit2Allowance[] {
+  return permits.map(({ permit }) => ({
+    token: permit.details.token as Address,
+    spender: permit.spender as Address,
+    amount: BigInt(permit.details.amount),
+  }));
+}
+
+/**
+ * The Permit2 approvals a trade's permits rely on, for simulating it before they're sent
+ */
+function toPermit2Approvals(permits: TradePermit[]): SimulatedErc20Allowance[] {
+  return permits.map(({ permit }) => ({
+    token: permit.details.token as Address,
+    spender: PERMIT2_ADDRESS,
+    amount: BigInt(permit.details.amount),
+  }));
+}
+
+/**
+ * Approves Permit2 to spend the token, if its allowance doesn't cover the amount
+ */
+export async function ensurePermit2Approval(
+  token: Address,
+  amount: bigint,
+  walletClient: WalletClient,
+  account: Account,
+  publicClient: PublicClient
+): Promise<void> {
+  const allowance = await publicClient.readContract({
+    address: token,
+    abi: erc20Abi,
+    functionName: 'allowance',
+    args: [account.address, PERMIT2_ADDRESS],
+  });
+
+  if (allowance < amount) {
+    console.log('[Zora Trade] Approving Permit2 for', token);
+    const approveHash = await walletClient.writeContract({
+      account,
+      chain: base,
+      address: token,
+      abi: erc20Abi,
+      functionName: 'approve',
+      args: [PERMIT2_ADDRESS, maxUint256],
+    });
+    await publicClient.waitForTransactionReceipt({ hash: approveHash });
+  }
+}
+
+/**
+ * Signs a trade's Permit2 permits
+ */
+async function signTradePermits(
+  permits: TradePermit[],
+  userAddress: Address,
+  walletClient: WalletClient,
+  account: Account,
+  publicClient: PublicClient
+): Promise<NonNullable<SDKTradeParameters['signatures']>> {
+  const signatures: NonNullable<SDKTradeParameters['signatures']> = [];
+
+  for (const { permit } of permits) {
+    const spender = permit.spender as Address;
+    const [, , nonce] = await publicClient.readContract({
+      address: PERMIT2_ADDRESS,
+      abi: PERMIT2_ABI,
+      functionName: 'allowance',
+      args: [userAddress, permit.details.token as Address, spender],
+    });
+
+    const message = {
+      details: {
+        token: permit.details.token as Address,
+        amount: BigInt(permit.details.amount),
+        expiration: Number(permit.details.expiration),
+        nonce,
+      },
+      spender,
+      sigDeadline: BigInt(permit.sigDeadline),
+    };
+
+    const signature = await walletClient.signTypedData({
+      account,
+      domain: {
+        name: 'Permit2',
+        chainId: BASE_CHAIN_ID,
+        verifyingContract: PERMIT2_ADDRESS,
+      },
+      primaryType: 'PermitSingle',
+      types: PERMIT_SINGLE_TYPES,
+      message,
+    });
+
+    signatures.push({
+      signature,
+      permit: {
+        details: { ...message.details, amount: message.details.amount.toString() },
+        spender,
+        sigDeadline: message.sigDeadline.toString(),
+      },
+    });
+  }
+
+  return signatures;
+}
+
+/**
+ * Builds one trade's call, simulating it before the user signs anything
+ * ERC-20 input is first simulated unsigned, with the permit's allowance faked in Permit2 and
+ * Permit2's approval faked in the token. Only if it passes is Permit2 approved (if needed) and
+ * the permit signed. The final call is simulated again as it will be sent.
+ */
+async function prepareTradeCall(
+  tradeParameters: SDKTradeParameters,
+  userAddress: Address,
+  walletClient: WalletClient,
+  account: Account,
+  publicClient: PublicClient
+): Promise<TradeCall> {
+  let quote = await createTradeCall(tradeParameters);
+
+  if (quote.permits?.length) {
+    await simulateSwap({
+      account: userAddress,
+      call: toTradeCall(quote),
+      publicClient,
+      permit2Allowances: toSimulatedAllowances(quote.permits),
+      erc20Allowances: toPermit2Approvals(quote.permits),
+    }).catch(rethrowKnownRevert);
+
+    for (const { permit } of quote.permits) {
+      await ensurePermit2Approval(permit.details.token as Address, BigInt(permit.details.amount), walletClient, account, publicClient);
+    }
+
+    const signatures = await signTradePermits(quote.permits, userAddress, walletClient, account, publicClient);
+    quote = await createTradeCall({ ...tradeParameters, signatures });
+  }
+
+  const call = toTradeCall(quote);
+  await simulateSwap({ account: userAddress, call, publicClient });
+  return call;
+}
+
+/**
+ * Whether the connected wallet can send an atomic EIP-5792 batch on Base
+ * Wallets without wallet_getCapabilities count as unsupported
+ */
+export async function supportsAtomicBatch(walletClient: WalletClient, account: Account): Promise<boolean> {
+  try {
+    const capabilities = await walletClient.getCapabilities({ account, chainId: BASE_CHAIN_ID });
+    const status = capabilities.atomic?.status;
+    return status === 'supported' || status === 'ready';
+  } catch (error) {
+    console.log('[Zora Trade] Wallet does not support batched calls:', error);
+    return false;
+  }
+}
+
+/**
+ * Builds the calls for several trades that spend the same input token
+ *
+ * Mirrors the SDK's tradeCoin, but without sending or signing anything: instead of a permit
+ * signature per trade, ERC-20 input gets an on-chain Permit2 approval for the whole batch (if
+ * needed) and one Permit2.approve per spender for the total, so the batch is a single wallet
+ * prompt, even when it's rebuilt at the next slippage tier. Unless simulateTrades is off, each
+ * trade is simulated with those allowances faked. Callers simulate the finished batch.
+ */
+export async function buildBatchedTradeCalls(
+  params: Pick<BatchTradeParameters, 'sellToken' | 'trades' | 'userAddress' | 'publicClient'>,
+  slippage: number,
+  simulateTrades = true
+): Promise<TradeCall[]> {
+  const { sellToken = USDC_ADDRESS, trades, userAddress, publicClient } = params;
+
+  const sell: SDKTradeParameters['sell'] = isNativeEth(sellToken)
+    ? { type: "eth" }
+    : { type: "erc20", address: sellToken };
+
+  const tradeCalls: TradeCall[] = [];
+  // Permit2 allowance each spender needs for the batch, summed over its trades
+  const permit2Approvals = new Map<string, { token: Address; spender: Address; amount: bigint; expiration: number }>();
+
+  for (const trade of trades) {
+    const quote = await createTradeCall({
+      sell,
+      buy: { type: "erc20", address: trade.buyToken },
+      amountIn: trade.sellAmount,
+      slippage,
+      sender: userAddress,
+    });
+
+    if (quote.permits?.length) {
+      // The batch's approvals haven't run yet, so they're faked
+      if (simulateTrades) {
+        await simulateSwap({
+          account: userAddress,
+          call: toTradeCall(quote),
+          publicClient,
+          permit2Allowances: toSimulatedAllowances(quote.permits),
+          erc20Allowances: toPermit2Approvals(quote.permits),
+        }).catch(rethrowKnownRevert);
+      }
+
+      for (const { permit } of quote.permits) {
+        const token = permit.details.token as Address;
+        const spender = permit.spender as Address;
+        const key = `${token}:${spender}`.toLowerCase();
+        const approval = permit2Approvals.get(key) ?? { token, spender, amount: 0n, expiration: 0 };
+        permit2Approvals.set(key, {
+          ...approval,
+          amount: approval.amount + BigInt(permit.details.amount),
+          expiration: Math.max(approval.expiration, Number(permit.details.expiration)),
+        });
+      }
+    } else if (simulateTrades) {
+      await simulateSwap({ account: userAddress, call: toTradeCall(quote), publicClient });
+    }
+
+    tradeCalls.push(toTradeCall(quote));
+  }
+
+  const calls: TradeCall[] = [];
+
+  if (!isNativeEth(sellToken) && permit2Approvals.size > 0) {
+    const totalIn = trades.reduce((sum, trade) => sum + trade.sellAmount, 0n);
+    const allowance = await publicClient.readContract({
+      address: sellToken,
+      abi: erc20Abi,
+      functionName: 'allowance',
+      args: [userAddress, PERMIT2_ADDRESS],
+    });
+
+    if (allowance < totalIn) {
+      calls.push({
+        to: sellToken,
+        data: encodeFunctionData({
+          abi: erc20Abi,
+          functionName: 'approve',
+          args: [PERMIT2_ADDRESS, maxUint256],
+        }),
+        value: 0n,
+      });
+    }
+
+    for (const { token, spender, amount, expiration } of permit2Approvals.values()) {
+      calls.push({
+        to: PERMIT2_ADDRESS,
+        data: encodeFunctionData({
+          abi: PERMIT2_ABI,
+          functionName: 'approve',
+          args: [token, spender, amount > maxUint160 ? maxUint160 : amount, expiration],
+        }),
+        value: 0n,
+      });
+    }
+  }
+
+  calls.push(...tradeCalls);
+  return calls;
+}
+
+/**
+ * Reads a sent batch's EIP-5792 status as a result
+ * Only a confirmed failure is unsuccessful; anything not final yet comes back pending.
+ */
+function toBatchTradeResult(
+  status: { status?: string; receipts?: Array<{ transactionHash: string }> },
+  callsId: string,
+  slippage?: number
+): BatchTradeResult {
+  const txHashes = Array.from(new Set((status.receipts || []).map((receipt) => receipt.transactionHash)));
+
+  if (status.status === 'success') {
+    return { success: true, txHashes, slippageUsed: slippage, callsId };
+  }
+  if (status.status === 'failure') {
+    return { success: false, txHashes, error: 'Batch reverted', slippageUsed: slippage, callsId };
+  }
+  return { success: false, txHashes, pending: true, error: 'Batch is still pending', slippageUsed: slippage, callsId };
+}
+
+/**
+ * Executes several trades as one atomic EIP-5792 batch: either every trade fills or none do
+ * Uses the same slippage tiers as executeTrade; only a batch confirmed as reverted is rebuilt at
+ * the next tier. A batch that hasn't landed within BATCH_STATUS_TIMEOUT_MS is returned as pending
+ * with its call ID, never resent; poll it with getBatchedTradesStatus.
+ * Callers should check supportsAtomicBatch first.
+ */
+export async function executeBatchedTrades(params: BatchTradeParameters): Promise<BatchTradeResult> {
+  const { sellToken = USDC_ADDRESS, trades, slippageMode, customSlippage, walletClient, account, onSubmitted } = params;
+  const slippagesToTry = getSlippagesToTry(slippageMode, customSlippage);
+
+  console.log('[Zora Trade] Starting batched execution', {
+    trades: trades.length,
+    slippages: slippagesToTry.map(s => `${(s * 100).toFixed(1)}%`),
+  });
+
+  for (let i = 0; i < slippagesToTry.length; i++) {
+    const slippage = slippagesToTry[i];
+    const isLastAttempt = i === slippagesToTry.length - 1;
+
+    let id: string;
+    try {
+      const calls = await buildBatchedTradeCalls(params, slippage);
+      await simulateBatch({ account: params.userAddress, calls, publicClient: params.publicClient });
+
+      ({ id } = await walletClient.sendCalls({
+        account,
+        chain: base,
+        calls,
+        forceAtomic: true,
+      }));
+    } catch (error: any) {
+      console.error(`[Zora Trade] Batch attempt ${i + 1} failed:`, error);
+
+      const message = extractErrorMessage(error, sellToken);
+      const isFinal = error instanceof SwapSimulationError && error.reason !== 'slippage';
+      if (isLastAttempt || isFinal || message === 'Transaction rejected by user') {
+        return { success: false, txHashes: [], error: message, slippageUsed: slippage };
+      }
+
+      console.log(`[Zora Trade] Trying next slippage tier...`);
+      continue;
+    }
+
+    // The batch is out: from here on it's only ever polled, never sent again unless it reverted
+    onSubmitted?.(id);
+    let result: BatchTradeResult;
+    try {
+      const status = await walletClient.waitForCallsStatus({ id, timeout: BATCH_STATUS_TIMEOUT_MS });
+      result = toBatchTradeResult(status, id, slippage);
+    } catch (error) {
+      console.log('[Zora Trade] Batch not final yet:', id, error instanceof Error ? error.message : error);
+      result = toBatchTradeResult({}, id, slippage);
+    }
+
+    if (result.success) {
+      console.log('[Zora Trade] Batch successful!', {
+        slippage: (slippage * 100).toFixed(1) + '%',
+        txHashes: result.txHashes,
+      });
+      return result;
+    }
+
+    if (result.pending) {
+      console.log('[Zora Trade] Batch still pending, returning its call ID:', id);
+      return result;
+    }
+
+    console.error(`[Zora Trade] Batch attempt ${i + 1} reverted:`, id);
+    if (isLastAttempt) {
+      return result;
+    }
+    console.log(`[Zora Trade] Trying next slippage tier...`);
+  }
+
+  return {
+    success: false,
+    txHashes: [],
+    error: 'All slippage attempts failed',
+  };
+}
+
+/**
+ * Polls a sent batch until it's final or `timeoutMs` passes, without resending it
+ * Returns a pending result if it still hasn't landed.
+ */
+export async function getBatchedTradesStatus(
+  walletClient: WalletClient,
+  callsId: string,
+  timeoutMs = BATCH_STATUS_TIMEOUT_MS
+): Promise<BatchTradeResult> {
+  const deadline = Date.now() + timeoutMs;
+
+  for (;;) {
+    try {
+      const result = toBatchTradeResult(await walletClient.getCallsStatus({ id: callsId }), callsId);
+      if (!result.pending || Date.now() >= deadline) return result;
+    } catch (error) {
+      console.log('[Zora Trade] Error reading batch status:', error instanceof Error ? error.message : error);
+      if (Date.now() >= deadline) return toBatchTradeResult({}, callsId);
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, BATCH_STATUS_POLL_MS));
+  }
+}
+
 /**
  * Extract user-friendly error message from error object
  */
-function extractErrorMessage(error: any): string {
+export function extractErrorMessage(error: any, sellToken: PayTokenAddress): string {
   if (typeof error === 'string') return error;
+
+  // Decoded from a simulated revert, before anything was signed
+  if (error instanceof SwapSimulationError) {
+    if (error.reason !== 'insufficient-balance') return error.message;
+    if (isNativeEth(sellToken)) return 'Insufficient ETH balance';
+    return isSameToken(sellToken, USDC_ADDRESS) ? 'Insufficient USDC balance' : 'Insufficient token balance';
+  }
   
   if (error?.message) {
     // Check for common error patterns
@@ -163,7 +679,10 @@ function extractErrorMessage(error: any): string {
     }
     
     if (message.includes('insufficient balance') || message.includes('insufficient funds')) {
-      return 'Insufficient USDC balance';
+      if (isNativeEth(sellToken)) return 'Insufficient ETH balance';
+      return isSameToken(sellToken, USDC_ADDRESS)
+        ? 'Insufficient USDC balance'
+        : 'Insufficient token balance';
     }
     
     if (message.includes('slippage') || message.includes('price')) {
@@ -196,6 +715,13 @@ export function formatSlippage(slippage: number): string {
   return `${(slippage * 100).toFixed(1)}%`;
 }
 
+/**
+ * The most slippage a trade may end up using, as a decimal: the last tier in auto mode
+ */
+export function getMaxSlippage(mode: SlippageMode, customSlippage?: number): number {
+  return Math.max(...getSlippagesToTry(mode, customSlippage));
+}
+
 /**
  * Get slippage display string based on mode
  */
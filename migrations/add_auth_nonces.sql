@@ -0,0 +1,15 @@
+-- Migration: Add auth_nonces table
+-- Date: 2026-10-19
+-- Description: Stores single-use Sign In With Farcaster nonces so signed messages
+-- can't be replayed. Accessed only with the service role key (no RLS policies).
+
+CREATE TABLE auth_nonces (
+  nonce TEXT PRIMARY KEY,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_auth_nonces_expires_at ON auth_nonces(expires_at);
+
+ALTER TABLE auth_nonces ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,23 @@
+-- Migration: Add buy_all_runs table
+-- Date: 2026-10-19
+-- Description: Stores unfinished Buy All runs with per-coin status and tx hash so they can
+-- be resumed on any device. Written by /api/buy-all-runs for signed-in users; rows are
+-- deleted once every coin is bought or the run is dismissed.
+-- Accessed only with the service role key (no RLS policies).
+
+CREATE TABLE buy_all_runs (
+  id UUID NOT NULL,
+  fid BIGINT NOT NULL,
+  wallet_address TEXT NOT NULL, -- Lowercased
+  mode TEXT NOT NULL CHECK (mode IN ('batched', 'sequential')),
+  strategy TEXT NOT NULL,
+  pay_token JSONB NOT NULL, -- { address, symbol, decimals }
+  coins JSONB NOT NULL, -- [{ address, username, symbol, amountIn, share, priceUsd, status, txHash?, callsId?, error? }]
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (fid, id)
+);
+
+CREATE INDEX idx_buy_all_runs_wallet ON buy_all_runs(fid, wallet_address, updated_at DESC);
+
+ALTER TABLE buy_all_runs ENABLE ROW LEVEL SECURITY;
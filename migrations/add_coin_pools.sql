@@ -0,0 +1,39 @@
+-- Migration: Add coin_pools registry of Uniswap V4 pools
+-- Date: 2026-10-19
+-- Description: Stores every pool initialized on the Base V4 PoolManager (written by
+-- lib/pool-registry.ts with the service role key), so pool lookups are a table read
+-- instead of a log scan. pool_indexer_state holds the last block the indexer covered.
+
+CREATE TABLE coin_pools (
+  pool_id TEXT PRIMARY KEY, -- keccak256 of the pool key
+  currency0 TEXT NOT NULL, -- Lowercased; the zero address is native ETH
+  currency1 TEXT NOT NULL,
+  fee INTEGER NOT NULL, -- Hundredths of a bip; 0x800000 marks a dynamic fee
+  tick_spacing INTEGER NOT NULL,
+  hooks TEXT NOT NULL,
+  sqrt_price_x96 TEXT NOT NULL, -- Initial price
+  created_block BIGINT NOT NULL,
+  created_tx_hash TEXT NOT NULL,
+  indexed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_coin_pools_currency0 ON coin_pools(currency0);
+CREATE INDEX idx_coin_pools_currency1 ON coin_pools(currency1);
+
+ALTER TABLE coin_pools ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Coin pools are viewable by everyone"
+  ON coin_pools FOR SELECT
+  USING (true);
+
+CREATE TABLE pool_indexer_state (
+  id TEXT PRIMARY KEY, -- The indexed contract's lowercased address
+  last_indexed_block BIGINT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE pool_indexer_state ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Pool indexer state is viewable by everyone"
+  ON pool_indexer_state FOR SELECT
+  USING (true);
@@ -0,0 +1,65 @@
+-- Migration: Add coin_stats market data cache
+-- Date: 2026-10-19
+-- Description: Caches USDC price, market cap, FDV, liquidity depth and 24h volume per
+-- creator coin (written by lib/market-data.ts with the service role key), and exposes
+-- them to the directory through the profile_directory view so they can be sorted on.
+
+CREATE TABLE coin_stats (
+  coin_address TEXT PRIMARY KEY, -- Lowercased creator coin address
+  price_usd DOUBLE PRECISION,
+  market_cap_usd DOUBLE PRECISION,
+  fdv_usd DOUBLE PRECISION,
+  liquidity_usd DOUBLE PRECISION,
+  volume_24h_usd DOUBLE PRECISION,
+  pool_currency TEXT, -- The coin's V4 pool pair currency, if a pool was found
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_coin_stats_updated_at ON coin_stats(updated_at);
+
+ALTER TABLE coin_stats ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Coin stats are viewable by everyone"
+  ON coin_stats FOR SELECT
+  USING (true);
+
+-- Profiles joined with their coin stats. Missing stats read as 0 so the
+-- market sorts can use keyset pagination; stats_updated_at is null until fetched.
+CREATE VIEW profile_directory WITH (security_invoker = true) AS
+SELECT
+  p.*,
+  COALESCE(s.price_usd, 0) AS price_usd,
+  COALESCE(s.market_cap_usd, 0) AS market_cap_usd,
+  COALESCE(s.fdv_usd, 0) AS fdv_usd,
+  COALESCE(s.liquidity_usd, 0) AS liquidity_usd,
+  COALESCE(s.volume_24h_usd, 0) AS volume_24h_usd,
+  s.updated_at AS stats_updated_at
+FROM profiles p
+LEFT JOIN coin_stats s ON s.coin_address = lower(p.creator_coin_address);
+
+-- Search now returns directory rows so results carry their coin stats
+DROP FUNCTION IF EXISTS search_profiles(TEXT);
+
+CREATE FUNCTION search_profiles(search_query TEXT)
+RETURNS SETOF profile_directory
+LANGUAGE sql
+STABLE
+SET pg_trgm.word_similarity_threshold = 0.4
+AS $$
+  WITH q AS (
+    SELECT
+      lower(trim(search_query)) AS term,
+      websearch_to_tsquery('simple', search_query) AS tsq
+  )
+  SELECT p.*
+  FROM profile_directory p, q
+  WHERE
+    (q.term LIKE '0x%' AND lower(p.creator_coin_address) LIKE q.term || '%')
+    OR p.search_vector @@ q.tsq
+    OR q.term <% p.search_text
+  ORDER BY
+    (CASE WHEN q.term LIKE '0x%' AND lower(p.creator_coin_address) LIKE q.term || '%' THEN 2 ELSE 0 END)
+      + ts_rank(p.search_vector, q.tsq)
+      + word_similarity(q.term, p.search_text) DESC,
+    p.fid ASC
+$$;
@@ -0,0 +1,57 @@
+-- Migration: Add DCA plans, fills and notification tokens
+-- Date: 2026-10-19
+-- Description: Recurring dollar-cost-average purchases. dca_plans holds each schedule,
+-- dca_fills the coins each tranche bought (decoded from receipts by
+-- POST /api/dca/[id]/tranches), and notification_tokens the Farcaster notification
+-- tokens used to remind users when a tranche is due.
+-- Accessed only with the service role key (no RLS policies).
+
+CREATE TABLE dca_plans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  fid BIGINT NOT NULL,
+  wallet_address TEXT NOT NULL, -- Lowercased
+  target TEXT NOT NULL CHECK (target IN ('coin', 'basket')),
+  coin_address TEXT, -- Lowercased; set when target is 'coin'
+  strategy TEXT NOT NULL DEFAULT 'equal', -- Buy All allocation strategy for baskets
+  pay_token JSONB NOT NULL, -- { address, symbol, decimals }
+  amount_per_tranche NUMERIC NOT NULL CHECK (amount_per_tranche > 0), -- Base units of pay_token
+  cadence TEXT NOT NULL CHECK (cadence IN ('daily', 'weekly', 'biweekly', 'monthly')),
+  next_due_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_reminded_at TIMESTAMP WITH TIME ZONE,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CHECK (target = 'basket' OR coin_address IS NOT NULL)
+);
+
+CREATE INDEX idx_dca_plans_fid ON dca_plans(fid, created_at DESC);
+CREATE INDEX idx_dca_plans_due ON dca_plans(next_due_at) WHERE active;
+
+ALTER TABLE dca_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE dca_fills (
+  id BIGSERIAL PRIMARY KEY,
+  plan_id UUID NOT NULL REFERENCES dca_plans(id) ON DELETE CASCADE,
+  tx_hash TEXT NOT NULL,
+  coin_address TEXT NOT NULL, -- Lowercased
+  amount_in NUMERIC NOT NULL, -- Base units of the plan's pay token
+  coin_amount NUMERIC NOT NULL, -- Base units (18 decimals)
+  executed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (tx_hash, coin_address)
+);
+
+CREATE INDEX idx_dca_fills_plan ON dca_fills(plan_id, executed_at DESC);
+
+ALTER TABLE dca_fills ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE notification_tokens (
+  token TEXT PRIMARY KEY,
+  fid BIGINT NOT NULL,
+  url TEXT NOT NULL, -- The issuing Farcaster client's notification endpoint
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_notification_tokens_fid ON notification_tokens(fid);
+
+ALTER TABLE notification_tokens ENABLE ROW LEVEL SECURITY;
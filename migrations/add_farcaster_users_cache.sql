@@ -0,0 +1,18 @@
+-- Migration: Add farcaster_users cache
+-- Date: 2026-10-19
+-- Description: Shared cache of Neynar user lookups (lib/neynar.ts) so cold serverless
+-- instances don't re-fetch users that were looked up recently. Accessed only with
+-- the service role key (no RLS policies).
+
+CREATE TABLE farcaster_users (
+  fid BIGINT PRIMARY KEY,
+  username TEXT NOT NULL,
+  display_name TEXT,
+  pfp_url TEXT,
+  bio TEXT,
+  fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_farcaster_users_fetched_at ON farcaster_users(fetched_at);
+
+ALTER TABLE farcaster_users ENABLE ROW LEVEL SECURITY;
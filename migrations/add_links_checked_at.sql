@@ -0,0 +1,9 @@
+-- Migration: Track when social links were last health-checked
+-- Date: 2026-10-19
+-- Description: The scheduled refresh job (GET /api/cron/refresh-profiles) re-checks
+-- x_handle_valid, telegram_handle_valid and zora_page_valid and records when it did.
+-- NULL means the links haven't been checked yet (e.g. just saved).
+
+ALTER TABLE profiles ADD COLUMN links_checked_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_profiles_links_checked_at ON profiles(links_checked_at NULLS FIRST);
@@ -0,0 +1,11 @@
+-- Migration: Add the issuing client to notification tokens
+-- Date: 2026-10-19
+-- Description: Notification tokens now arrive only through the signed Farcaster webhook
+-- (POST /api/webhook), which names the client app (its FID) that issued them. Storing it
+-- lets frame_removed and notifications_disabled delete just that client's tokens.
+-- Tokens saved before this came from the app itself and have no client.
+
+ALTER TABLE notification_tokens
+  ADD COLUMN app_fid BIGINT; -- FID of the Farcaster client that issued the token
+
+CREATE INDEX idx_notification_tokens_fid_app ON notification_tokens(fid, app_fid);
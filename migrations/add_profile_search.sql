@@ -0,0 +1,65 @@
+-- Migration: Add ranked fuzzy search for the directory
+-- Date: 2026-10-19
+-- Description: Adds the Farcaster display name, a tsvector for full-text search, a
+-- trigram-indexed text column for typo-tolerant matching, and the search_profiles()
+-- function used by GET /api/profiles?q=...
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Farcaster display name (kept in sync on profile save and by the refresh job)
+ALTER TABLE profiles ADD COLUMN display_name TEXT;
+
+-- Weighted full-text document: names and ticker rank above bio
+ALTER TABLE profiles ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce(username, '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(display_name, '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(token_ticker, '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(x_handle, '')), 'B') ||
+  setweight(to_tsvector('simple', coalesce(telegram_handle, '')), 'B') ||
+  setweight(to_tsvector('simple', coalesce(bio, '')), 'C')
+) STORED;
+
+-- Lowercased text blob for trigram (typo tolerant) matching
+ALTER TABLE profiles ADD COLUMN search_text TEXT GENERATED ALWAYS AS (
+  lower(
+    coalesce(username, '') || ' ' ||
+    coalesce(display_name, '') || ' ' ||
+    coalesce(token_ticker, '') || ' ' ||
+    coalesce(x_handle, '') || ' ' ||
+    coalesce(telegram_handle, '') || ' ' ||
+    coalesce(bio, '')
+  )
+) STORED;
+
+CREATE INDEX idx_profiles_search_vector ON profiles USING gin(search_vector);
+CREATE INDEX idx_profiles_search_text_trgm ON profiles USING gin(search_text gin_trgm_ops);
+
+-- Prefix match on contract addresses (0x...)
+CREATE INDEX idx_profiles_coin_address_prefix ON profiles (lower(creator_coin_address) text_pattern_ops);
+
+-- Ranked search: contract prefix match > full-text rank > trigram similarity
+CREATE OR REPLACE FUNCTION search_profiles(search_query TEXT)
+RETURNS SETOF profiles
+LANGUAGE sql
+STABLE
+SET pg_trgm.word_similarity_threshold = 0.4
+AS $$
+  WITH q AS (
+    SELECT
+      lower(trim(search_query)) AS term,
+      -- The term as a LIKE prefix, with its wildcards and escape character matched literally
+      replace(replace(replace(lower(trim(search_query)), '\', '\\'), '%', '\%'), '_', '\_') AS prefix,
+      websearch_to_tsquery('simple', search_query) AS tsq
+  )
+  SELECT p.*
+  FROM profiles p, q
+  WHERE
+    (q.term LIKE '0x%' AND lower(p.creator_coin_address) LIKE q.prefix || '%')
+    OR p.search_vector @@ q.tsq
+    OR q.term <% p.search_text
+  ORDER BY
+    (CASE WHEN q.term LIKE '0x%' AND lower(p.creator_coin_address) LIKE q.prefix || '%' THEN 2 ELSE 0 END)
+      + ts_rank(p.search_vector, q.tsq)
+      + word_similarity(q.term, p.search_text) DESC,
+    p.fid ASC
+$$;
@@ -0,0 +1,21 @@
+-- Migration: Add pay token and slippage to trades
+-- Date: 2026-10-19
+-- Description: Records trades paid in any token (ETH, WETH or another creator coin), not
+-- just USDC, plus the slippage tolerance each swap used, for the /history page.
+-- usdc_amount becomes nullable: it's only set when the trade was paid in USDC.
+
+ALTER TABLE trades
+  ADD COLUMN pay_token TEXT, -- Lowercased token paid (buys) or received (sells); 'eth' for native ETH
+  ADD COLUMN pay_amount NUMERIC, -- Base units of pay_token
+  ADD COLUMN slippage NUMERIC; -- Slippage tolerance as a decimal (0.03 = 3%)
+
+-- Every trade recorded so far was a USDC trade
+UPDATE trades
+SET pay_token = '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913',
+    pay_amount = usdc_amount
+WHERE pay_token IS NULL;
+
+ALTER TABLE trades
+  ALTER COLUMN pay_token SET NOT NULL,
+  ALTER COLUMN pay_amount SET NOT NULL,
+  ALTER COLUMN usdc_amount DROP NOT NULL;
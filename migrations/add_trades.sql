@@ -0,0 +1,23 @@
+-- Migration: Add trades table
+-- Date: 2026-10-19
+-- Description: Records creator coin buys and sells made through the app, decoded from
+-- on-chain transfer logs by POST /api/trades. Used for portfolio cost basis.
+-- Accessed only with the service role key (no RLS policies).
+
+CREATE TABLE trades (
+  id BIGSERIAL PRIMARY KEY,
+  tx_hash TEXT NOT NULL,
+  wallet_address TEXT NOT NULL, -- Lowercased
+  coin_address TEXT NOT NULL, -- Lowercased
+  side TEXT NOT NULL CHECK (side IN ('buy', 'sell')),
+  coin_amount NUMERIC NOT NULL, -- Base units (18 decimals)
+  usdc_amount NUMERIC NOT NULL, -- Base units (6 decimals)
+  block_number BIGINT NOT NULL,
+  block_timestamp TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (tx_hash, coin_address)
+);
+
+CREATE INDEX idx_trades_wallet ON trades(wallet_address, block_timestamp);
+
+ALTER TABLE trades ENABLE ROW LEVEL SECURITY;
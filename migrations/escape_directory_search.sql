@@ -0,0 +1,31 @@
+-- Migration: Escape LIKE wildcards in directory search
+-- Date: 2026-10-19
+-- Description: Re-creates the profile_directory version of search_profiles() from
+-- add_coin_stats.sql so a coin address prefix matches `%`, `_` and `\` literally.
+-- Run after add_coin_stats.sql.
+
+CREATE OR REPLACE FUNCTION search_profiles(search_query TEXT)
+RETURNS SETOF profile_directory
+LANGUAGE sql
+STABLE
+SET pg_trgm.word_similarity_threshold = 0.4
+AS $$
+  WITH q AS (
+    SELECT
+      lower(trim(search_query)) AS term,
+      -- The term as a LIKE prefix, with its wildcards and escape character matched literally
+      replace(replace(replace(lower(trim(search_query)), '\', '\\'), '%', '\%'), '_', '\_') AS prefix,
+      websearch_to_tsquery('simple', search_query) AS tsq
+  )
+  SELECT p.*
+  FROM profile_directory p, q
+  WHERE
+    (q.term LIKE '0x%' AND lower(p.creator_coin_address) LIKE q.prefix || '%')
+    OR p.search_vector @@ q.tsq
+    OR q.term <% p.search_text
+  ORDER BY
+    (CASE WHEN q.term LIKE '0x%' AND lower(p.creator_coin_address) LIKE q.prefix || '%' THEN 2 ELSE 0 END)
+      + ts_rank(p.search_vector, q.tsq)
+      + word_similarity(q.term, p.search_text) DESC,
+    p.fid ASC
+$$;
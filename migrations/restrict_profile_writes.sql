@@ -0,0 +1,10 @@
+-- Migration: Restrict profile writes to the server
+-- Date: 2026-10-19
+-- Description: Profiles were writable by anyone holding the anon key. Writes now go
+-- through POST /api/profile, which verifies the Farcaster Quick Auth token and uses
+-- the service role key (which bypasses RLS), so anon inserts/updates are denied.
+
+DROP POLICY IF EXISTS "Users can insert their own profile" ON profiles;
+DROP POLICY IF EXISTS "Users can update their own profile" ON profiles;
+
+-- Reads stay public via "Profiles are viewable by everyone"
@@ -1,6 +1,9 @@
 -- KnownToads Database Schema
 -- Run this in your Supabase SQL editor
 
+-- Trigram matching for typo-tolerant search
+create extension if not exists pg_trgm;
+
 -- Create profiles table
 create table profiles (
   fid bigint primary key,
@@ -15,30 +18,53 @@ create table profiles (
   telegram_handle_valid boolean default true,
   zora_page_url text,
   zora_page_valid boolean default true,
+  bio text,
+  token_ticker text,
+  display_name text,
   created_at timestamp with time zone not null default now(),
-  updated_at timestamp with time zone not null default now()
+  updated_at timestamp with time zone not null default now(),
+  -- Weighted full-text document: names and ticker rank above bio
+  search_vector tsvector generated always as (
+    setweight(to_tsvector('simple', coalesce(username, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(display_name, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(token_ticker, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(x_handle, '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(telegram_handle, '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(bio, '')), 'C')
+  ) stored,
+  -- Lowercased text blob for trigram (typo tolerant) matching
+  search_text text generated always as (
+    lower(
+      coalesce(username, '') || ' ' ||
+      coalesce(display_name, '') || ' ' ||
+      coalesce(token_ticker, '') || ' ' ||
+      coalesce(x_handle, '') || ' ' ||
+      coalesce(telegram_handle, '') || ' ' ||
+      coalesce(bio, '')
+    )
+  ) stored
 );
 
 -- Create indexes for faster lookups
 create index idx_profiles_username on profiles(username);
 create index idx_profiles_created_at on profiles(created_at desc);
 
+-- Search indexes; search_profiles() itself is created by migrations/add_profile_search.sql
+-- and migrations/add_coin_stats.sql
+create index idx_profiles_search_vector on profiles using gin(search_vector);
+create index idx_profiles_search_text_trgm on profiles using gin(search_text gin_trgm_ops);
+create index idx_profiles_coin_address_prefix on profiles (lower(creator_coin_address) text_pattern_ops);
+
 -- Enable Row Level Security
 alter table profiles enable row level security;
 
 -- RLS Policies
+-- Reads are public. There are no insert/update policies, so anon writes are denied;
+-- profile writes go through POST /api/profile using the service role key.
 create policy "Profiles are viewable by everyone"
   on profiles for select
   using (true);
 
-create policy "Users can insert their own profile"
-  on profiles for insert
-  with check (true);
-
-create policy "Users can update their own profile"
-  on profiles for update
-  using (true);
-
 -- Function to automatically update updated_at timestamp
 create or replace function update_updated_at_column()
 returns trigger as $$
@@ -53,3 +79,16 @@ create trigger update_profiles_updated_at
   before update on profiles
   for each row
   execute function update_updated_at_column();
+
+-- Single-use nonces for Sign In With Farcaster (see /api/auth/nonce)
+create table auth_nonces (
+  nonce text primary key,
+  expires_at timestamp with time zone not null,
+  used_at timestamp with time zone,
+  created_at timestamp with time zone not null default now()
+);
+
+create index idx_auth_nonces_expires_at on auth_nonces(expires_at);
+
+-- Only the service role touches nonces
+alter table auth_nonces enable row level security;
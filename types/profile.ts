@@ -1,6 +1,7 @@
 export interface Profile {
   fid: number;
   username: string;
+  display_name?: string | null;
   pfp_url: string;
   pfp_cached_at: string;
   creator_coin_address: string;
@@ -12,9 +13,28 @@ export interface Profile {
   telegram_handle_valid?: boolean;
   zora_page_url?: string | null;
   zora_page_valid?: boolean;
+  links_checked_at?: string | null;
   token_ticker?: string | null;
   created_at: string;
   updated_at: string;
+  // Coin stats joined in by the profile_directory view (0 until first fetched)
+  price_usd?: number;
+  market_cap_usd?: number;
+  fdv_usd?: number;
+  liquidity_usd?: number;
+  volume_24h_usd?: number;
+  stats_updated_at?: string | null;
+}
+
+export interface CoinStats {
+  coin_address: string;
+  price_usd: number | null;
+  market_cap_usd: number | null;
+  fdv_usd: number | null;
+  liquidity_usd: number | null;
+  volume_24h_usd: number | null;
+  pool_currency: string | null;
+  updated_at: string;
 }
 
 export interface ProfileFormData {